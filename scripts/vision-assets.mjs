@@ -0,0 +1,142 @@
+// Copies the MediaPipe WASM runtime and the face recognition weights, and
+// downloads the pinned vision models into public/mediapipe, so the exam page
+// loads them from our own origin.
+// Every file must match the SHA-256 committed in vision-assets.lock.json;
+// a mismatch fails the build instead of shipping whatever was downloaded.
+// The manifest the app checks before an exam is written from the lock file.
+// Models already present (and matching) are not downloaded again. A model
+// with no pinned hash yet is skipped with a warning and left out of the
+// manifest, so the app builds but the exam pre-flight refuses that model.
+//
+// After a deliberate upgrade, run with --pin to record the new hashes, then
+// review and commit the lock file.
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const packageDir = join(root, "node_modules/@mediapipe/tasks-vision");
+const faceApiModelDir = join(root, "node_modules/@vladmandic/face-api/model");
+const outDir = join(root, "public/mediapipe");
+const lockFile = join(dirname(fileURLToPath(import.meta.url)), "vision-assets.lock.json");
+const pinning = process.argv.includes("--pin");
+
+// Versioned model URLs; bump the version segment deliberately, never track "latest"
+const MODELS = {
+  "models/face_landmarker.task":
+    "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task",
+  "models/efficientdet_lite0.tflite":
+    "https://storage.googleapis.com/mediapipe-models/object_detector/efficientdet_lite0/float16/1/efficientdet_lite0.tflite",
+};
+
+// Shipped in the @vladmandic/face-api package, whose version is pinned exactly in package.json
+const FACE_RECOGNITION_FILES = ["face_recognition_model-weights_manifest.json", "face_recognition_model.bin"];
+
+const sha256 = (data) => createHash("sha256").update(data).digest("hex");
+
+const readLock = async () => {
+  if (!existsSync(lockFile)) return { version: null, files: {} };
+  return JSON.parse(await readFile(lockFile, "utf8"));
+};
+
+const pinnedHash = (lock, path) => {
+  const expected = lock.files[path];
+  if (!expected) {
+    throw new Error(`No pinned SHA-256 for ${path}. Run "node scripts/vision-assets.mjs --pin", review and commit scripts/vision-assets.lock.json.`);
+  }
+  return expected;
+};
+
+/**
+ * Writes a file only if it matches its pinned hash. When pinning, records the hash instead.
+ */
+const verifyAndWrite = async (lock, path, data) => {
+  const actual = sha256(data);
+  if (pinning) {
+    lock.files[path] = actual;
+  } else {
+    const expected = pinnedHash(lock, path);
+    if (actual !== expected) {
+      throw new Error(`${path} does not match its pinned SHA-256 (expected ${expected}, got ${actual})`);
+    }
+  }
+  await writeFile(join(outDir, path), data);
+};
+
+const copyWasm = async (lock) => {
+  await mkdir(join(outDir, "wasm"), { recursive: true });
+  const files = await readdir(join(packageDir, "wasm"));
+  for (const file of files) {
+    await verifyAndWrite(lock, `wasm/${file}`, await readFile(join(packageDir, "wasm", file)));
+  }
+  return files.map((file) => `wasm/${file}`);
+};
+
+const copyFaceRecognition = async (lock) => {
+  await mkdir(join(outDir, "models"), { recursive: true });
+  for (const file of FACE_RECOGNITION_FILES) {
+    await verifyAndWrite(lock, `models/${file}`, await readFile(join(faceApiModelDir, file)));
+  }
+  return FACE_RECOGNITION_FILES.map((file) => `models/${file}`);
+};
+
+const download = async (url) => {
+  console.log(`Downloading ${url}`);
+  const response = await fetch(url).catch((err) => {
+    throw new Error(`Could not download ${url}: ${err.message}`);
+  });
+  if (!response.ok) {
+    throw new Error(`Could not download ${url}: ${response.status} ${response.statusText}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+};
+
+const downloadModels = async (lock) => {
+  await mkdir(join(outDir, "models"), { recursive: true });
+  const ready = [];
+  for (const [path, url] of Object.entries(MODELS)) {
+    // Nothing is fetched for a model that has no hash to check it against
+    if (!pinning && !lock.files[path]) {
+      console.warn(`Skipping ${path}: no pinned SHA-256. Run "node scripts/vision-assets.mjs --pin" with network access, review and commit scripts/vision-assets.lock.json.`);
+      continue;
+    }
+
+    const target = join(outDir, path);
+    // A cached copy is reused only if it still matches; otherwise fetch it again
+    const cached = existsSync(target) ? await readFile(target) : null;
+    const data = cached && !pinning && sha256(cached) === lock.files[path] ? cached : await download(url);
+    await verifyAndWrite(lock, path, data);
+    ready.push(path);
+  }
+  return ready;
+};
+
+const main = async () => {
+  const { version } = JSON.parse(await readFile(join(packageDir, "package.json"), "utf8"));
+  const lock = await readLock();
+
+  if (pinning) {
+    lock.version = version;
+    lock.files = {};
+  } else if (lock.version !== version) {
+    throw new Error(`@mediapipe/tasks-vision is ${version} but the assets are pinned for ${lock.version}. Re-pin them with --pin.`);
+  }
+
+  const paths = [...(await copyWasm(lock)), ...(await copyFaceRecognition(lock)), ...(await downloadModels(lock))];
+  const files = Object.fromEntries(paths.map((path) => [path, lock.files[path]]));
+
+  if (pinning) {
+    await writeFile(lockFile, `${JSON.stringify({ version, files: lock.files }, null, 2)}\n`);
+    console.log("Pinned vision asset hashes in scripts/vision-assets.lock.json; review and commit it");
+  }
+
+  await writeFile(join(outDir, "manifest.json"), `${JSON.stringify({ version, files }, null, 2)}\n`);
+  console.log(`Vision assets ready in public/mediapipe (tasks-vision ${version})`);
+};
+
+main().catch((err) => {
+  console.error(err.message);
+  process.exit(1);
+});
@@ -16,6 +16,7 @@ import Index from "./pages/Index";
 import Landing from "./pages/Landing";
 import AdminPanel from "./pages/AdminPanel";
 import TestDashboard from "./pages/TestDashboard";
+import IntegrityReview from "./pages/IntegrityReview";
 import Developers from "./pages/Developers";
 import React from "react";
 
@@ -39,6 +40,7 @@ const App = () => {
                   <Route path="/evaluate-test/:id" element={<EvaluateTest />} />
                   <Route path="/admin" element={<AdminPanel />} />
                   <Route path="/test-dashboard/:id" element={<TestDashboard />} />
+                  <Route path="/integrity-review/:id" element={<IntegrityReview />} />
                   <Route path="/developers" element={<Developers />} />
                   {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
                   <Route path="*" element={<NotFound />} />
@@ -0,0 +1,94 @@
+import { useEffect, useRef, useState } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Progress } from '@/components/ui/progress';
+import { AlertTriangle, Mic, MicOff } from 'lucide-react';
+import { backgroundAppController } from '@/utils/backgroundAppController';
+import { VoiceActivityDetector, type AudioSensitivity, type SpeechDetection } from '@/proctoring';
+
+interface AudioMonitorProps {
+  isActive: boolean;
+  sensitivity: AudioSensitivity;
+  onViolation: (type: 'speech_detected', details: SpeechDetection) => void;
+}
+
+const AudioMonitor = ({ isActive, sensitivity, onViolation }: AudioMonitorProps) => {
+  const detectorRef = useRef<VoiceActivityDetector | null>(null);
+  const onViolationRef = useRef(onViolation);
+  // Read at start only; later changes go to the running detector below
+  const sensitivityRef = useRef(sensitivity);
+  const [level, setLevel] = useState(0);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  onViolationRef.current = onViolation;
+  sensitivityRef.current = sensitivity;
+
+  useEffect(() => {
+    if (!isActive) return;
+
+    let cancelled = false;
+    const detector = new VoiceActivityDetector(
+      sensitivityRef.current,
+      (detection) => onViolationRef.current('speech_detected', detection),
+      (status) => {
+        setLevel(status.level);
+        setIsSpeaking(status.isSpeaking);
+      }
+    );
+
+    const startDetector = async () => {
+      try {
+        const stream = await backgroundAppController.getMicrophoneStream();
+        if (cancelled) return;
+        await detector.start(stream);
+        detectorRef.current = detector;
+        setError(null);
+      } catch (err) {
+        console.error('Error starting audio monitoring:', err);
+        setError('Microphone access is required for this test. Please allow it and reload.');
+      }
+    };
+
+    startDetector();
+
+    return () => {
+      cancelled = true;
+      detector.stop();
+      detectorRef.current = null;
+      setLevel(0);
+      setIsSpeaking(false);
+    };
+  }, [isActive]);
+
+  useEffect(() => {
+    detectorRef.current?.setSensitivity(sensitivity);
+  }, [sensitivity]);
+
+  if (error) {
+    return (
+      <Alert variant="destructive" className="mb-4">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (!isActive) return null;
+
+  return (
+    <div className="flex items-center gap-3 p-3 my-4 bg-card rounded-lg border">
+      {isSpeaking ? (
+        <MicOff className="h-4 w-4 text-destructive" />
+      ) : (
+        <Mic className="h-4 w-4 text-primary" />
+      )}
+      <span className={`text-sm font-medium ${isSpeaking ? 'text-destructive' : ''}`}>
+        {isSpeaking ? 'Speech detected' : 'Audio monitoring active'}
+      </span>
+      <Progress value={level * 100} className="h-2 w-32" />
+      <span className="text-xs text-muted-foreground ml-auto">Processed on this device only</span>
+    </div>
+  );
+};
+
+export default AudioMonitor;
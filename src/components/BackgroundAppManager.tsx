@@ -13,18 +13,31 @@ import {
   Mic,
   Camera,
   Bell,
-  Settings
+  Settings,
+  Cpu,
+  ScreenShare
 } from 'lucide-react';
 import { backgroundAppController } from '@/utils/backgroundAppController';
+import { preflightVision, type VisionModel } from '@/proctoring';
 
 interface BackgroundAppManagerProps {
   onSystemReady: () => void;
-  onSystemNotReady: (warnings: string[]) => void;
+  // canProceed is false when an issue must be fixed before the exam can start at all
+  onSystemNotReady: (warnings: string[], canProceed: boolean) => void;
+  // Webcam models the exam will use; checked and cached before it starts
+  visionModels?: VisionModel[];
+  // Whether the test requires the student to share their entire screen
+  requireScreenShare?: boolean;
+  // Whether a second monitor stops the student from starting
+  checkDisplays?: boolean;
 }
 
 const BackgroundAppManager: React.FC<BackgroundAppManagerProps> = ({
   onSystemReady,
-  onSystemNotReady
+  onSystemNotReady,
+  visionModels = [],
+  requireScreenShare = false,
+  checkDisplays = false
 }) => {
   const [isScanning, setIsScanning] = useState(false);
   const [scanComplete, setScanComplete] = useState(false);
@@ -39,6 +52,8 @@ const BackgroundAppManager: React.FC<BackgroundAppManagerProps> = ({
     warnings: string[];
   } | null>(null);
   const [systemInfo, setSystemInfo] = useState<any>(null);
+  const [visionReady, setVisionReady] = useState<boolean | null>(null);
+  const [screenShared, setScreenShared] = useState<boolean | null>(null);
 
   useEffect(() => {
     // Get system info immediately
@@ -50,14 +65,39 @@ const BackgroundAppManager: React.FC<BackgroundAppManagerProps> = ({
     setIsScanning(true);
     
     try {
+      // First, while the click still counts as a user gesture for the share dialog
+      const screenWarnings: string[] = [];
+      if (requireScreenShare) {
+        try {
+          await backgroundAppController.requestScreenShare();
+          setScreenShared(true);
+        } catch (error) {
+          setScreenShared(false);
+          screenWarnings.push(error instanceof Error ? error.message : String(error));
+        }
+      }
+
       // Request permissions
       const permissionResults = await backgroundAppController.requestSystemPermissions();
       setPermissions(permissionResults);
 
       // Detect background activity
-      const activityResults = await backgroundAppController.detectBackgroundActivity();
+      const activityResults = await backgroundAppController.detectBackgroundActivity({ checkDisplays });
       setBackgroundActivity(activityResults);
 
+      // Load the proctoring models now rather than failing once the exam has started
+      const visionWarnings: string[] = [];
+      if (visionModels.length > 0) {
+        try {
+          await preflightVision(visionModels);
+          setVisionReady(true);
+        } catch (error) {
+          console.error('Proctoring model pre-flight failed:', error);
+          setVisionReady(false);
+          visionWarnings.push(`Proctoring models could not be loaded: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+
       // Minimize distractions
       await backgroundAppController.minimizeDistractions();
 
@@ -66,18 +106,21 @@ const BackgroundAppManager: React.FC<BackgroundAppManagerProps> = ({
       // Check if system is ready
       const allWarnings = [
         ...permissionResults.warnings,
-        ...activityResults.warnings
+        ...activityResults.warnings,
+        ...visionWarnings,
+        ...screenWarnings
       ];
 
       if (allWarnings.length === 0 && permissionResults.camera) {
         onSystemReady();
       } else {
-        onSystemNotReady(allWarnings);
+        // A second monitor can't be waved through; the student has to disconnect it
+        onSystemNotReady(allWarnings, !activityResults.extendedDisplay);
       }
 
     } catch (error) {
       console.error('Error during system scan:', error);
-      onSystemNotReady(['System scan failed. Please try again.']);
+      onSystemNotReady(['System scan failed. Please try again.'], true);
     } finally {
       setIsScanning(false);
     }
@@ -146,6 +189,24 @@ const BackgroundAppManager: React.FC<BackgroundAppManagerProps> = ({
                   </div>
                   {getPermissionIcon(permissions.notifications)}
                 </div>
+                {screenShared !== null && (
+                  <div className="flex items-center justify-between p-2 border rounded">
+                    <div className="flex items-center gap-2">
+                      <ScreenShare className="h-4 w-4" />
+                      <span>Entire Screen Shared</span>
+                    </div>
+                    {getPermissionIcon(screenShared)}
+                  </div>
+                )}
+                {visionReady !== null && (
+                  <div className="flex items-center justify-between p-2 border rounded">
+                    <div className="flex items-center gap-2">
+                      <Cpu className="h-4 w-4" />
+                      <span>Proctoring Models</span>
+                    </div>
+                    {getPermissionIcon(visionReady)}
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -6,17 +6,12 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Play, CheckCircle, XCircle, Clock } from "lucide-react";
-
-interface TestCase {
-  input: string;
-  expectedOutput: string;
-  description?: string;
-}
+import { runCode, runTestCases, hasMemoryLimit, CodeTestCase, TestCaseResult } from "@/runner";
 
 interface CodingConsoleProps {
   language: string;
   starterCode: string;
-  testCases?: TestCase[];
+  testCases?: CodeTestCase[];
   expectedOutput?: string;
   onCodeChange: (code: string) => void;
   readOnly?: boolean;
@@ -41,51 +36,56 @@ const CodingConsole = ({
   const [code, setCode] = useState(starterCode);
   const [output, setOutput] = useState("");
   const [isRunning, setIsRunning] = useState(false);
-  const [testResults, setTestResults] = useState<Array<{
-    passed: boolean;
-    input: string;
-    expected: string;
-    actual: string;
-    description?: string;
-  }>>([]);
+  const [testResults, setTestResults] = useState<TestCaseResult[]>([]);
 
   const handleCodeChange = (newCode: string) => {
     setCode(newCode);
     onCodeChange(newCode);
   };
 
-  const mockRunCode = async () => {
+  const handleRunCode = async () => {
     setIsRunning(true);
     setOutput("Running code...");
-    
-    // Simulate code execution
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    // Mock output based on language
-    let mockOutput = "";
-    if (language === "python") {
-      mockOutput = "Code executed successfully!\nOutput: Hello, World!";
-    } else if (language === "javascript") {
-      mockOutput = "Code executed successfully!\nOutput: Hello, World!";
-    } else {
-      mockOutput = "Code compiled and executed successfully!\nOutput: Hello, World!";
+    setTestResults([]);
+
+    try {
+      if (testCases && testCases.length > 0) {
+        const results = await runTestCases(language, code, testCases);
+        setTestResults(results);
+
+        const passedCount = results.filter(result => result.passed).length;
+        const firstError = results.find(result => result.stderr)?.stderr;
+        setOutput(
+          `${passedCount}/${results.length} test cases passed` +
+          (firstError ? `\n\nstderr:\n${firstError}` : "")
+        );
+      } else {
+        const result = await runCode(language, code);
+        const sections = [result.stdout || "(no output)"];
+        if (result.stderr) sections.push(`stderr:\n${result.stderr}`);
+        if (result.outputTruncated) sections.push("Output truncated.");
+        sections.push(`Finished in ${Math.round(result.durationMs)} ms`);
+        setOutput(sections.join("\n\n"));
+      }
+    } catch (error) {
+      console.error("Error running code:", error);
+      setOutput(`Execution failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsRunning(false);
     }
-    
-    setOutput(mockOutput);
-    
-    // Mock test case results if provided
-    if (testCases && testCases.length > 0) {
-      const mockResults = testCases.map((testCase, index) => ({
-        passed: index < Math.ceil(testCases.length * 0.8), // 80% pass rate for demo
-        input: testCase.input,
-        expected: testCase.expectedOutput,
-        actual: index < Math.ceil(testCases.length * 0.8) ? testCase.expectedOutput : "Different output",
-        description: testCase.description,
-      }));
-      setTestResults(mockResults);
+  };
+
+  const getStatusLabel = (result: TestCaseResult) => {
+    switch (result.status) {
+      case "time_limit_exceeded":
+        return "Time limit exceeded";
+      case "memory_limit_exceeded":
+        return "Memory limit exceeded";
+      case "runtime_error":
+        return "Runtime error";
+      default:
+        return null;
     }
-    
-    setIsRunning(false);
   };
 
   const selectedLanguage = SUPPORTED_LANGUAGES.find(lang => lang.value === language);
@@ -101,7 +101,7 @@ const CodingConsole = ({
                 {selectedLanguage?.label || language}
               </Badge>
               <Button 
-                onClick={mockRunCode} 
+                onClick={handleRunCode} 
                 disabled={isRunning || readOnly}
                 size="sm"
                 className="flex items-center gap-2"
@@ -129,6 +129,12 @@ const CodingConsole = ({
             className="font-mono text-sm min-h-[300px] resize-none"
             readOnly={readOnly}
           />
+          {!hasMemoryLimit(language) && (
+            <p className="mt-2 text-xs text-muted-foreground">
+              {selectedLanguage?.label || language} runs in your browser without a memory limit. A program that
+              allocates too much may slow down or crash this tab, so save your work before running it.
+            </p>
+          )}
         </CardContent>
       </Card>
 
@@ -171,11 +177,20 @@ const CodingConsole = ({
                       Test Case {index + 1}
                       {result.description && `: ${result.description}`}
                     </span>
+                    {getStatusLabel(result) && (
+                      <Badge variant="destructive">{getStatusLabel(result)}</Badge>
+                    )}
+                    <span className="ml-auto text-xs text-muted-foreground">
+                      {result.durationMs} ms
+                    </span>
                   </div>
                   <div className="text-sm space-y-1">
-                    <div><strong>Input:</strong> {result.input}</div>
-                    <div><strong>Expected:</strong> {result.expected}</div>
-                    <div><strong>Actual:</strong> {result.actual}</div>
+                    <div><strong>Input:</strong> <span className="font-mono whitespace-pre-wrap">{result.input}</span></div>
+                    <div><strong>Expected:</strong> <span className="font-mono whitespace-pre-wrap">{result.expected}</span></div>
+                    <div><strong>Actual:</strong> <span className="font-mono whitespace-pre-wrap">{result.actual}</span></div>
+                    {result.stderr && (
+                      <div><strong>Stderr:</strong> <pre className="font-mono text-xs whitespace-pre-wrap">{result.stderr}</pre></div>
+                    )}
                   </div>
                 </div>
               ))}
@@ -8,10 +8,13 @@ import { useToast } from "@/components/ui/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/context/AuthContext";
 import { Loader } from "lucide-react";
+import QuestionImage from "@/components/QuestionImage";
 
 interface EvaluateAnswerProps {
   studentAnswerId: string;
   questionText: string;
+  // Path of the question's figure in the question-images bucket
+  questionImagePath?: string;
   answerText?: string;
   answerImageUrl?: string;
   maxMarks: number;
@@ -22,6 +25,7 @@ interface EvaluateAnswerProps {
 export function EvaluateAnswer({
   studentAnswerId,
   questionText,
+  questionImagePath,
   answerText,
   answerImageUrl,
   maxMarks,
@@ -106,6 +110,7 @@ export function EvaluateAnswer({
         <div className="space-y-2">
           <h3 className="font-medium">Question:</h3>
           <p className="p-3 bg-muted rounded-md">{questionText}</p>
+          {questionImagePath && <QuestionImage path={questionImagePath} className="max-h-64" />}
         </div>
         
         <div className="space-y-2">
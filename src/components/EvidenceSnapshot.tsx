@@ -0,0 +1,60 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Camera, Loader2 } from "lucide-react";
+import { getEvidenceUrl } from "@/proctoring";
+
+interface EvidenceSnapshotProps {
+  path: string;
+  title?: string;
+}
+
+// Signed URLs are short-lived, so one is only requested when the snapshot is opened
+const EvidenceSnapshot = ({ path, title = "Webcam Snapshot" }: EvidenceSnapshotProps) => {
+  const [open, setOpen] = useState(false);
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleOpen = async () => {
+    setOpen(true);
+    setIsLoading(true);
+    setError(null);
+    try {
+      setUrl(await getEvidenceUrl(path));
+    } catch (err) {
+      console.error("Error loading evidence:", err);
+      setUrl(null);
+      setError("This snapshot is no longer available. It may have passed its retention period.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="ghost" size="sm" className="h-7 px-2" onClick={handleOpen}>
+        <Camera className="h-3 w-3 mr-1" />
+        Snapshot
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+          </DialogHeader>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-muted-foreground py-4">{error}</p>
+          ) : url ? (
+            <img src={url} alt={title} className="w-full rounded-md border" />
+          ) : null}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default EvidenceSnapshot;
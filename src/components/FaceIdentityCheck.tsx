@@ -0,0 +1,233 @@
+import { useEffect, useRef, useState } from 'react';
+import type { FaceLandmarker } from '@mediapipe/tasks-vision';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, Loader2, ScanFace } from 'lucide-react';
+import {
+  averageEmbeddings,
+  captureEvidence,
+  createFaceLandmarker,
+  createFaceRecognizer,
+  embedFace,
+  faceDistance,
+  fetchFaceEnrollment,
+  IDENTITY_MAX_DISTANCE,
+  saveFaceEnrollment,
+  type FaceEnrollment,
+  type FaceRecognizer,
+} from '@/proctoring';
+
+// `reference` is the enrolled embedding, for re-verification during the test
+export type IdentityCheckResult =
+  | { status: 'enrolled'; reference: number[] }
+  | { status: 'verified'; reference: number[]; distance: number }
+  | { status: 'mismatch'; reference: number[]; distance: number; evidence: Blob | null }
+  // Verify mode with nothing to compare against; the snapshot goes to faculty instead
+  | { status: 'unenrolled'; evidence: Blob | null };
+
+interface FaceIdentityCheckProps {
+  profileId: string;
+  // 'enroll' records the student's one reference; 'verify' compares against it
+  mode: 'enroll' | 'verify';
+  onComplete: (result: IdentityCheckResult) => void;
+}
+
+const SAMPLE_COUNT = 5;
+const SAMPLE_INTERVAL_MS = 200;
+// Failed comparisons allowed at exam start before the mismatch is reported
+const MAX_ATTEMPTS = 3;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const FaceIdentityCheck = ({ profileId, mode, onComplete }: FaceIdentityCheckProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const landmarkerRef = useRef<FaceLandmarker | null>(null);
+  const recognizerRef = useRef<FaceRecognizer | null>(null);
+  const [enrollment, setEnrollment] = useState<FaceEnrollment | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [attempts, setAttempts] = useState(0);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the reference, both models and the camera together
+  useEffect(() => {
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+
+    const init = async () => {
+      try {
+        const [existing, landmarker, recognizer, mediaStream] = await Promise.all([
+          fetchFaceEnrollment(profileId),
+          createFaceLandmarker(),
+          createFaceRecognizer(),
+          navigator.mediaDevices.getUserMedia({ video: { width: { ideal: 640 }, height: { ideal: 480 }, facingMode: 'user' } }),
+        ]);
+        stream = mediaStream;
+
+        if (cancelled) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          landmarker.close();
+          recognizer.close();
+          return;
+        }
+
+        landmarkerRef.current = landmarker;
+        recognizerRef.current = recognizer;
+        setEnrollment(existing);
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+        }
+        setIsReady(true);
+      } catch (err) {
+        console.error('Error preparing identity check:', err);
+        setError('Could not start the camera or load the identity check. Please allow camera access and reload.');
+      }
+    };
+
+    init();
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+      landmarkerRef.current?.close();
+      recognizerRef.current?.close();
+      landmarkerRef.current = null;
+      recognizerRef.current = null;
+    };
+  }, [mode, profileId]);
+
+  // Several frames with exactly one face, so a blink or a half-turned head doesn't decide the result
+  const collectEmbedding = async () => {
+    const video = videoRef.current;
+    const landmarker = landmarkerRef.current;
+    const recognizer = recognizerRef.current;
+    if (!video || !landmarker || !recognizer) return null;
+
+    const samples: number[][] = [];
+    for (let i = 0; i < SAMPLE_COUNT * 3 && samples.length < SAMPLE_COUNT; i++) {
+      const result = landmarker.detectForVideo(video, performance.now());
+      if (result.faceLandmarks.length === 1) {
+        const embedding = await embedFace(recognizer, video, result.faceLandmarks[0]);
+        if (embedding) samples.push(embedding);
+      } else if (result.faceLandmarks.length > 1) {
+        setMessage('More than one face is visible. Make sure you are alone in front of the camera.');
+        return null;
+      }
+      await wait(SAMPLE_INTERVAL_MS);
+    }
+
+    if (samples.length < SAMPLE_COUNT) {
+      setMessage('Your face could not be seen clearly. Face the camera in good light and try again.');
+      return null;
+    }
+    return averageEmbeddings(samples);
+  };
+
+  const handleCapture = async () => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    setIsCapturing(true);
+    setMessage(null);
+    try {
+      const embedding = await collectEmbedding();
+      if (!embedding) return;
+
+      if (!enrollment) {
+        if (mode === 'verify') {
+          onComplete({ status: 'unenrolled', evidence: await captureEvidence(video) });
+          return;
+        }
+        await saveFaceEnrollment(profileId, embedding, await captureEvidence(video));
+        onComplete({ status: 'enrolled', reference: embedding });
+        return;
+      }
+      if (mode === 'enroll') return;
+
+      const distance = Math.round(faceDistance(embedding, enrollment.embedding) * 100) / 100;
+      if (distance <= IDENTITY_MAX_DISTANCE) {
+        onComplete({ status: 'verified', reference: enrollment.embedding, distance });
+        return;
+      }
+
+      const attempt = attempts + 1;
+      setAttempts(attempt);
+      if (attempt >= MAX_ATTEMPTS) {
+        onComplete({
+          status: 'mismatch',
+          reference: enrollment.embedding,
+          distance,
+          evidence: await captureEvidence(video),
+        });
+        return;
+      }
+      setMessage(`Your face did not match your enrolled photo. ${MAX_ATTEMPTS - attempt} attempt(s) left.`);
+    } catch (err) {
+      console.error('Error checking identity:', err);
+      setMessage('The identity check failed. Please try again.');
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const isEnrolling = mode === 'enroll';
+  const isUnenrolled = mode === 'verify' && isReady && !enrollment;
+  const isAlreadyEnrolled = isEnrolling && !!enrollment;
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader className="text-center">
+        <CardTitle className="text-2xl">{isEnrolling ? 'Face Enrollment' : 'Identity Check'}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error ? (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            <p className="text-center text-sm text-muted-foreground">
+              {isAlreadyEnrolled
+                ? 'Your face is already enrolled. Ask your instructor to reset it if it needs replacing.'
+                : isEnrolling
+                  ? 'Record a reference of your face. It is compared with the person taking your tests.'
+                  : isUnenrolled
+                    ? "You haven't enrolled your face. You can still take the test, but a photo is taken now for your instructor to review."
+                    : 'Look at the camera so we can confirm you are the enrolled student.'}
+            </p>
+
+            <div className="relative rounded-lg overflow-hidden border bg-muted aspect-video">
+              <video ref={videoRef} autoPlay muted playsInline className="w-full h-full object-cover" />
+              {!isReady && (
+                <div className="absolute inset-0 flex items-center justify-center">
+                  <Loader2 className="h-6 w-6 animate-spin" />
+                </div>
+              )}
+            </div>
+
+            {message && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>{message}</AlertDescription>
+              </Alert>
+            )}
+
+            <Button className="w-full" onClick={handleCapture} disabled={!isReady || isCapturing || isAlreadyEnrolled}>
+              {isCapturing ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <ScanFace className="h-4 w-4 mr-2" />
+              )}
+              {isCapturing ? 'Checking...' : isEnrolling ? 'Save My Face' : isUnenrolled ? 'Continue' : 'Verify Identity'}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FaceIdentityCheck;
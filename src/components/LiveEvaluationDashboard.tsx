@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -9,6 +9,8 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { useLiveEvaluation } from '@/hooks/useLiveEvaluation';
 import { useAuth } from '@/context/AuthContext';
 import { EvaluateAnswer } from '@/components/EvaluateAnswer';
+import QuestionImage from '@/components/QuestionImage';
+import { getAnswerImageUrl, isAnswerImagePath } from '@/utils/answerImages';
 import { Users, CheckCircle, Clock, AlertTriangle, FileText, RefreshCw, Eye } from 'lucide-react';
 import { format } from 'date-fns';
 
@@ -53,6 +55,42 @@ export const LiveEvaluationDashboard = ({
   const selectedSessionAnswers = selectedSession
     ? getSessionAnswers(selectedSession)
     : [];
+  // Signed links for image answers in the selected session, by answer id
+  const [answerImageUrls, setAnswerImageUrls] = useState<Record<string, string>>({});
+
+  const isImageAnswer = (answer: { question_id: string; session_id: string; student_answer: string | null }) =>
+    questions.find(q => q.id === answer.question_id)?.question_type === 'image' &&
+    isAnswerImagePath(answer.student_answer, answer.session_id);
+
+  // "<answer id> <path>" per image answer, so links are only re-signed when one changes
+  const imageAnswerKey = selectedSessionAnswers
+    .filter(isImageAnswer)
+    .map(a => `${a.id} ${a.student_answer}`)
+    .join('\n');
+
+  useEffect(() => {
+    let cancelled = false;
+    const imageAnswers = imageAnswerKey ? imageAnswerKey.split('\n').map(line => line.split(' ')) : [];
+
+    Promise.all(
+      imageAnswers.map(async ([answerId, path]) => {
+        try {
+          return [answerId, await getAnswerImageUrl(path)] as const;
+        } catch (error) {
+          console.error('Error loading image answer:', error);
+          return null;
+        }
+      })
+    ).then((entries) => {
+      if (!cancelled) {
+        setAnswerImageUrls(Object.fromEntries(entries.filter((entry) => entry !== null)));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imageAnswerKey]);
 
   return (
     <div className="space-y-6">
@@ -306,8 +344,11 @@ export const LiveEvaluationDashboard = ({
                                 <div className="flex justify-between items-start">
                                   <div>
                                     <p className="font-medium mb-1">{question.question_text}</p>
+                                    {question.question_image_url && (
+                                      <QuestionImage path={question.question_image_url} className="max-h-40 mb-2" />
+                                    )}
                                     <p className="text-sm text-muted-foreground">
-                                      Answer: {answer.student_answer || 'No answer'}
+                                      Answer: {isImageAnswer(answer) ? 'Image' : answer.student_answer || 'No answer'}
                                     </p>
                                   </div>
                                   <Badge className="bg-green-500/20 text-green-500">
@@ -324,7 +365,9 @@ export const LiveEvaluationDashboard = ({
                             key={answer.id}
                             studentAnswerId={answer.id}
                             questionText={question.question_text}
-                            answerText={answer.student_answer || undefined}
+                            questionImagePath={question.question_image_url || undefined}
+                            answerText={isImageAnswer(answer) ? undefined : answer.student_answer || undefined}
+                            answerImageUrl={answerImageUrls[answer.id]}
                             maxMarks={question.marks}
                             testId={testId}
                             onEvaluated={refetch}
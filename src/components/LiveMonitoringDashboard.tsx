@@ -7,6 +7,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useRealtimeTestSessions } from '@/hooks/useRealtimeTestSessions';
+import EvidenceSnapshot from '@/components/EvidenceSnapshot';
 import { 
   Users, 
   AlertTriangle, 
@@ -19,11 +20,20 @@ import {
   MonitorOff,
   Maximize,
   ArrowLeft,
-  RefreshCw
+  RefreshCw,
+  Smartphone,
+  ScanFace,
+  ScreenShareOff,
+  MonitorSmartphone,
+  Bug,
+  ClipboardPaste
 } from 'lucide-react';
 import { format, formatDistanceToNow } from 'date-fns';
 import { motion, AnimatePresence } from 'framer-motion';
 
+// Extra time granted per click
+const EXTENSION_MINUTES = 10;
+
 interface LiveMonitoringDashboardProps {
   testId: string;
   testTitle: string;
@@ -43,6 +53,7 @@ export const LiveMonitoringDashboard = ({
     isLoading,
     terminateStudent,
     allowContinue,
+    grantExtension,
   } = useRealtimeTestSessions(testId);
 
   const [activeTab, setActiveTab] = useState('live');
@@ -87,6 +98,25 @@ export const LiveMonitoringDashboard = ({
         return <Eye className="h-4 w-4 text-yellow-500" />;
       case 'multiple_faces':
         return <Users className="h-4 w-4 text-red-500" />;
+      case 'prohibited_object':
+        return <Smartphone className="h-4 w-4 text-red-500" />;
+      case 'identity_mismatch':
+        return <ScanFace className="h-4 w-4 text-red-500" />;
+      case 'screen_share_stopped':
+        return <ScreenShareOff className="h-4 w-4 text-orange-500" />;
+      case 'secondary_display':
+        return <MonitorSmartphone className="h-4 w-4 text-red-500" />;
+      case 'devtools_opened':
+        return <Bug className="h-4 w-4 text-red-500" />;
+      case 'paste_blocked':
+      case 'text_pasted':
+        return <ClipboardPaste className="h-4 w-4 text-orange-500" />;
+      case 'window_blur':
+        return <MonitorOff className="h-4 w-4 text-muted-foreground" />;
+      case 'face_not_detected':
+        return <Eye className="h-4 w-4 text-orange-500" />;
+      case 'session_flagged':
+      case 'test_terminated':
       case 'warning':
         return <AlertTriangle className="h-4 w-4 text-red-500" />;
       default:
@@ -104,6 +134,44 @@ export const LiveMonitoringDashboard = ({
         return `Face direction: ${eventData?.direction || 'Away'}`;
       case 'multiple_faces':
         return `${eventData?.count || 'Multiple'} faces detected`;
+      case 'window_blur':
+        return 'Test window lost focus';
+      case 'face_not_detected':
+        return 'Face not visible to the camera';
+      case 'speech_detected':
+        return eventData?.multipleSpeakers ? 'Conversation detected' : 'Talking detected';
+      case 'prohibited_object':
+        return `Prohibited object: ${eventData?.description || 'unknown'}`;
+      case 'identity_mismatch':
+        return `Face did not match the enrolled student${eventData?.distance !== undefined ? ` (distance ${Number(eventData.distance).toFixed(2)})` : ''}`;
+      case 'identity_verified':
+        return eventData?.enrolled ? 'Face enrolled at test start' : 'Identity verified';
+      case 'identity_unverified':
+        return 'Started without a face enrollment to check against';
+      case 'screen_share_stopped':
+        return 'Stopped sharing their screen';
+      case 'screen_share_started':
+        return 'Started sharing their entire screen';
+      case 'screen_captured':
+        return 'Desktop screenshot taken';
+      case 'secondary_display':
+        return `${eventData?.displays || 'Multiple'} displays connected`;
+      case 'shortcut_blocked':
+        return `Blocked shortcut: ${eventData?.key || 'unknown'}`;
+      case 'devtools_opened':
+        return 'Opened developer tools';
+      case 'copy_blocked':
+        return 'Tried to copy from the test';
+      case 'paste_blocked':
+        return `Tried to paste ${eventData?.length ?? 0} characters`;
+      case 'text_pasted':
+        return `Pasted ${eventData?.length ?? 0} characters`;
+      case 'print_blocked':
+        return 'Tried to print the test';
+      case 'session_flagged':
+        return 'Session flagged for review';
+      case 'session_paused':
+        return `Test paused for ${eventData?.seconds || 0}s`;
       case 'warning':
         return eventData?.message || 'Warning issued';
       default:
@@ -339,7 +407,14 @@ export const LiveMonitoringDashboard = ({
                             {session.total_warnings}
                           </span>
                         </TableCell>
-                        <TableCell>{getStatusBadge(session.status)}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-1">
+                            {getStatusBadge(session.status)}
+                            {session.flagged_for_review && (
+                              <Badge variant="destructive">Flagged</Badge>
+                            )}
+                          </div>
+                        </TableCell>
                         <TableCell>
                           <div className="flex gap-2">
                             <Button
@@ -417,6 +492,16 @@ export const LiveMonitoringDashboard = ({
                   </span>
                   {selectedStudentSession && (
                     <div className="flex gap-2">
+                      {selectedStudentSession.status === 'in_progress' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => grantExtension(selectedStudentSession.id, EXTENSION_MINUTES)}
+                        >
+                          <Clock className="h-4 w-4 mr-1" />
+                          +{EXTENSION_MINUTES} min
+                        </Button>
+                      )}
                       {selectedStudentSession.status === 'in_progress' && (
                         <Button
                           variant="destructive"
@@ -484,6 +569,7 @@ export const LiveMonitoringDashboard = ({
                                   {format(new Date(log.timestamp), 'HH:mm:ss')}
                                 </p>
                               </div>
+                              {log.evidence_path && <EvidenceSnapshot path={log.evidence_path} />}
                             </div>
                           ))}
                         </div>
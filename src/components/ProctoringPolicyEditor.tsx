@@ -0,0 +1,272 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ACTION_LABELS,
+  AUDIO_SENSITIVITY_LABELS,
+  MIN_OBJECT_SCAN_SECONDS,
+  MIN_SCREENSHOT_SECONDS,
+  PASTE_MODE_LABELS,
+  VIOLATION_LABELS,
+  VIOLATION_TYPES,
+  type AudioSensitivity,
+  type LockdownSettings,
+  type PasteMode,
+  type ProctoringAction,
+  type ProctoringPolicy,
+  type ViolationRule,
+  type ViolationType,
+} from "@/proctoring";
+
+interface ProctoringPolicyEditorProps {
+  policy: ProctoringPolicy;
+  onChange: (policy: ProctoringPolicy) => void;
+}
+
+const ACTIONS = Object.keys(ACTION_LABELS) as ProctoringAction[];
+
+// On/off lockdown settings, in the order they are shown
+const LOCKDOWN_SWITCHES: { key: Exclude<keyof LockdownSettings, "paste">; label: string }[] = [
+  { key: "blockCopy", label: "Block copy and cut" },
+  { key: "blockSelection", label: "Block text selection" },
+  { key: "blockPrint", label: "Block printing" },
+  { key: "blockContextMenu", label: "Block right-click menu" },
+  { key: "blockShortcuts", label: "Block tab, window and devtools shortcuts" },
+];
+
+const toNumber = (value: string, fallback: number) => {
+  const parsed = parseInt(value);
+  return Number.isNaN(parsed) || parsed < 0 ? fallback : parsed;
+};
+
+const ActionSelect = ({
+  id,
+  value,
+  onChange,
+}: {
+  id?: string;
+  value: ProctoringAction;
+  onChange: (action: ProctoringAction) => void;
+}) => (
+  <Select value={value} onValueChange={(action) => onChange(action as ProctoringAction)}>
+    <SelectTrigger id={id} className="w-40">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {ACTIONS.map((action) => (
+        <SelectItem key={action} value={action}>
+          {ACTION_LABELS[action]}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+const ProctoringPolicyEditor = ({ policy, onChange }: ProctoringPolicyEditorProps) => {
+  const updateRule = (type: ViolationType, changes: Partial<ViolationRule>) => {
+    onChange({
+      ...policy,
+      rules: { ...policy.rules, [type]: { ...policy.rules[type], ...changes } },
+    });
+  };
+
+  const updateLockdown = (changes: Partial<LockdownSettings>) => {
+    onChange({ ...policy, lockdown: { ...policy.lockdown, ...changes } });
+  };
+
+  return (
+    <div className="space-y-4">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Violation</TableHead>
+            <TableHead>Enabled</TableHead>
+            <TableHead>Weight</TableHead>
+            <TableHead>Warnings</TableHead>
+            <TableHead>Then</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {VIOLATION_TYPES.map((type) => {
+            const rule = policy.rules[type];
+            return (
+              <TableRow key={type}>
+                <TableCell className="font-medium">{VIOLATION_LABELS[type]}</TableCell>
+                <TableCell>
+                  <Switch
+                    checked={rule.enabled}
+                    onCheckedChange={(enabled) => updateRule(type, { enabled })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min="0"
+                    className="w-20"
+                    value={rule.weight}
+                    disabled={!rule.enabled}
+                    onChange={(e) => updateRule(type, { weight: toNumber(e.target.value, rule.weight) })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min="0"
+                    className="w-20"
+                    value={rule.warnings}
+                    disabled={!rule.enabled}
+                    onChange={(e) => updateRule(type, { warnings: toNumber(e.target.value, rule.warnings) })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <ActionSelect
+                    value={rule.action}
+                    onChange={(action) => updateRule(type, { action })}
+                  />
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="score-threshold">Score Threshold</Label>
+          <Input
+            id="score-threshold"
+            type="number"
+            min="1"
+            value={policy.scoreThreshold}
+            onChange={(e) => onChange({
+              ...policy,
+              scoreThreshold: Math.max(1, toNumber(e.target.value, policy.scoreThreshold)),
+            })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="score-action">At Threshold</Label>
+          <ActionSelect
+            id="score-action"
+            value={policy.scoreAction}
+            onChange={(scoreAction) => onChange({ ...policy, scoreAction })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="pause-seconds">Pause Length (seconds)</Label>
+          <Input
+            id="pause-seconds"
+            type="number"
+            min="0"
+            value={policy.pauseSeconds}
+            onChange={(e) => onChange({
+              ...policy,
+              pauseSeconds: toNumber(e.target.value, policy.pauseSeconds),
+            })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="audio-sensitivity">Voice Detection</Label>
+          <Select
+            value={policy.audioSensitivity}
+            disabled={!policy.rules.speech_detected.enabled}
+            onValueChange={(value) => onChange({ ...policy, audioSensitivity: value as AudioSensitivity })}
+          >
+            <SelectTrigger id="audio-sensitivity">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(AUDIO_SENSITIVITY_LABELS) as AudioSensitivity[]).map((sensitivity) => (
+                <SelectItem key={sensitivity} value={sensitivity}>
+                  {AUDIO_SENSITIVITY_LABELS[sensitivity]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="object-scan-seconds">Object Scan Interval (seconds)</Label>
+          <Input
+            id="object-scan-seconds"
+            type="number"
+            min={MIN_OBJECT_SCAN_SECONDS}
+            value={policy.objectScanSeconds}
+            disabled={!policy.rules.prohibited_object.enabled}
+            onChange={(e) => onChange({
+              ...policy,
+              objectScanSeconds: Math.max(MIN_OBJECT_SCAN_SECONDS, toNumber(e.target.value, policy.objectScanSeconds)),
+            })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="screenshot-seconds">Screenshot Interval (seconds)</Label>
+          <Input
+            id="screenshot-seconds"
+            type="number"
+            min={MIN_SCREENSHOT_SECONDS}
+            value={policy.screenshotSeconds}
+            disabled={!policy.rules.screen_share_stopped.enabled}
+            onChange={(e) => onChange({
+              ...policy,
+              screenshotSeconds: Math.max(MIN_SCREENSHOT_SECONDS, toNumber(e.target.value, policy.screenshotSeconds)),
+            })}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {LOCKDOWN_SWITCHES.map(({ key, label }) => (
+          <div key={key} className="flex items-center justify-between gap-2 rounded-md border p-3">
+            <Label htmlFor={`lockdown-${key}`}>{label}</Label>
+            <Switch
+              id={`lockdown-${key}`}
+              checked={policy.lockdown[key]}
+              onCheckedChange={(checked) => updateLockdown({ [key]: checked })}
+            />
+          </div>
+        ))}
+
+        <div className="space-y-2">
+          <Label htmlFor="lockdown-paste">Pasting Into Answers</Label>
+          <Select
+            value={policy.lockdown.paste}
+            onValueChange={(value) => updateLockdown({ paste: value as PasteMode })}
+          >
+            <SelectTrigger id="lockdown-paste">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PASTE_MODE_LABELS) as PasteMode[]).map((mode) => (
+                <SelectItem key={mode} value={mode}>
+                  {PASTE_MODE_LABELS[mode]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Each violation adds its weight to the student's integrity score. After the allowed warnings
+        the rule's action applies, and once the score reaches the threshold the stricter of the two wins.
+        Enabling "Talking" uses the student's microphone; audio is analysed on their device and never uploaded.
+        "Prohibited object" looks for phones, books, laptops and extra screens in the webcam feed.
+        "Different person" checks the student's face against their enrolled reference at the start and during the test.
+        Enabling "Screen sharing stopped" makes students share their entire screen for the whole test;
+        screenshots are kept as evidence at the interval above.
+        "Extra display" blocks starting with a second monitor connected and re-checks during the test,
+        in browsers that can report it (Chrome and Edge).
+        "Developer tools" notices a docked devtools panel; shortcuts that open it are blocked by the lockdown switches.
+        Blocked copies, pastes, prints and shortcuts are logged for review but don't count towards the score.
+      </p>
+    </div>
+  );
+};
+
+export default ProctoringPolicyEditor;
@@ -0,0 +1,257 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { useToast } from "@/components/ui/use-toast";
+import { Copy, Library, Link2, Loader2, Search, Trash } from "lucide-react";
+import { useAuth } from "@/context/AuthContext";
+import type { Question } from "@/context/TestContext";
+import { useQuestionBank, type BankQuestionUsage } from "@/hooks/useQuestionBank";
+import { BLOOM_LEVELS, DIFFICULTY_LEVELS, labelFor } from "@/utils/questionBank";
+import { mapBankQuestionToQuestion, mapDbTypeToUiType, type BankQuestionRow } from "@/utils/questionMapping";
+
+interface QuestionBankDialogProps {
+  subjects: string[];
+  // Subject of the test being edited, used as the initial filter
+  defaultSubject?: string;
+  onAdd: (question: Omit<Question, "id">) => void;
+}
+
+// Radix Select items can't have an empty value
+const ANY = "any";
+const SEARCH_DELAY_MS = 300;
+
+const QuestionBankDialog = ({ subjects, defaultSubject, onAdd }: QuestionBankDialogProps) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setOpen(true)} className="w-full flex items-center justify-center gap-2">
+        <Library className="h-4 w-4" />
+        Add from Question Bank
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Question Bank</DialogTitle>
+            <DialogDescription>
+              Add a copy to edit freely, or a linked question that picks up later changes to the bank entry.
+            </DialogDescription>
+          </DialogHeader>
+          {/* Mounted only while open, so the bank is searched on demand */}
+          {open && <QuestionBankBrowser subjects={subjects} defaultSubject={defaultSubject} onAdd={onAdd} />}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+const QuestionBankBrowser = ({ subjects, defaultSubject, onAdd }: QuestionBankDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [searchInput, setSearchInput] = useState("");
+  const [query, setQuery] = useState("");
+  const [subject, setSubject] = useState(defaultSubject || ANY);
+  const [difficulty, setDifficulty] = useState(ANY);
+  const [bloomLevel, setBloomLevel] = useState(ANY);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  // Search once typing pauses rather than on every keystroke
+  useEffect(() => {
+    const timeout = window.setTimeout(() => setQuery(searchInput), SEARCH_DELAY_MS);
+    return () => window.clearTimeout(timeout);
+  }, [searchInput]);
+
+  const { questions, usage, isLoading, deleteQuestion } = useQuestionBank({
+    query,
+    subject: subject === ANY ? undefined : subject,
+    difficulty: difficulty === ANY ? undefined : difficulty,
+    bloomLevel: bloomLevel === ANY ? undefined : bloomLevel,
+  });
+
+  const handleAdd = (row: BankQuestionRow, linked: boolean) => {
+    onAdd(mapBankQuestionToQuestion(row, linked));
+    toast({
+      title: linked ? "Linked question added" : "Question copied",
+      description: linked
+        ? "It will follow edits to the bank entry until students start the test."
+        : "Edit it freely; the bank entry is unchanged.",
+    });
+  };
+
+  const handleDelete = async (id: string) => {
+    setDeletingId(id);
+    try {
+      await deleteQuestion(id);
+    } catch (error) {
+      console.error("Error deleting bank question:", error);
+      toast({
+        title: "Error",
+        description: "The question could not be removed from the bank.",
+        variant: "destructive",
+      });
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder='Search questions, topics and tags, e.g. recursion -"linked list"'
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          className="pl-9"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+        <Select value={subject} onValueChange={setSubject}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All subjects</SelectItem>
+            {subjects.map((sub) => (
+              <SelectItem key={sub} value={sub}>
+                {sub}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={difficulty} onValueChange={setDifficulty}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any difficulty</SelectItem>
+            {DIFFICULTY_LEVELS.map((level) => (
+              <SelectItem key={level.value} value={level.value}>
+                {level.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={bloomLevel} onValueChange={setBloomLevel}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any Bloom level</SelectItem>
+            {BLOOM_LEVELS.map((level) => (
+              <SelectItem key={level.value} value={level.value}>
+                {level.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <ScrollArea className="h-[50vh] pr-3">
+        {isLoading && questions.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : questions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No bank questions match. Save questions from your tests to build up the bank.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {questions.map((row) => (
+              <div key={row.id} className="border rounded-md p-3 space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="secondary">{mapDbTypeToUiType(row.question_type).toUpperCase()}</Badge>
+                  <Badge variant="outline">{labelFor(DIFFICULTY_LEVELS, row.difficulty)}</Badge>
+                  {row.bloom_level && <Badge variant="outline">{labelFor(BLOOM_LEVELS, row.bloom_level)}</Badge>}
+                  <span className="text-xs text-muted-foreground">
+                    {row.subject}
+                    {row.topic ? ` · ${row.topic}` : ""} · {row.marks} marks
+                  </span>
+                </div>
+
+                <p className="text-sm line-clamp-3">{row.question_text}</p>
+
+                {row.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {row.tags.map((tag) => (
+                      <Badge key={tag} variant="outline" className="text-xs font-normal">
+                        #{tag}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <UsageSummary tests={usage[row.id] ?? []} />
+                  <div className="flex gap-2">
+                    {row.created_by === user?.id && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive"
+                        disabled={deletingId === row.id}
+                        onClick={() => handleDelete(row.id)}
+                      >
+                        <Trash className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button variant="outline" size="sm" onClick={() => handleAdd(row, false)}>
+                      <Copy className="h-4 w-4 mr-1" />
+                      Add Copy
+                    </Button>
+                    <Button size="sm" onClick={() => handleAdd(row, true)}>
+                      <Link2 className="h-4 w-4 mr-1" />
+                      Add Linked
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+};
+
+// Which exams a bank question has appeared in
+const UsageSummary = ({ tests }: { tests: BankQuestionUsage[] }) => {
+  if (tests.length === 0) {
+    return <span className="text-xs text-muted-foreground">Not used in any test yet</span>;
+  }
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span className="text-xs text-muted-foreground underline decoration-dotted cursor-help">
+            Used in {tests.length} {tests.length === 1 ? "test" : "tests"}
+          </span>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-xs">
+          <ul className="space-y-1 text-xs">
+            {tests.map((test) => {
+              const date = test.start_time ?? test.created_at;
+              return (
+                <li key={test.test_id}>
+                  {test.title || "Untitled Test"}
+                  {date ? ` (${new Date(date).toLocaleDateString()})` : ""}
+                  {test.bank_linked ? " · linked" : ""}
+                </li>
+              );
+            })}
+          </ul>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+};
+
+export default QuestionBankDialog;
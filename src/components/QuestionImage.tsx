@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react';
+import { ImageOff, Loader2 } from 'lucide-react';
+import { getQuestionImageUrl } from '@/utils/questionImages';
+import { cn } from '@/lib/utils';
+
+interface QuestionImageProps {
+  // Object path in the question-images bucket
+  path: string;
+  className?: string;
+}
+
+// Signs a fresh short-lived link each time a question image is shown
+const QuestionImage = ({ path, className }: QuestionImageProps) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setUrl(null);
+    setFailed(false);
+
+    getQuestionImageUrl(path)
+      .then((signedUrl) => {
+        if (!cancelled) setUrl(signedUrl);
+      })
+      .catch((error) => {
+        console.error('Error loading question image:', error);
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [path]);
+
+  if (failed) {
+    return (
+      <div className="flex items-center gap-2 p-3 text-sm text-muted-foreground border border-dashed rounded-md">
+        <ImageOff className="h-4 w-4" />
+        Image unavailable
+      </div>
+    );
+  }
+
+  if (!url) {
+    return (
+      <div className="flex items-center justify-center p-6 border border-dashed rounded-md">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return <img src={url} alt="Question figure" className={cn('max-w-full h-auto rounded-md border', className)} />;
+};
+
+export default QuestionImage;
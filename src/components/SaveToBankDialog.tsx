@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { Library, Loader2 } from "lucide-react";
+import { useAuth } from "@/context/AuthContext";
+import type { Question } from "@/context/TestContext";
+import { BLOOM_LEVELS, DIFFICULTY_LEVELS, parseTags, saveToQuestionBank } from "@/utils/questionBank";
+
+interface SaveToBankDialogProps {
+  question: Omit<Question, "id">;
+  // Subject of the test, which the bank entry is filed under
+  subject: string;
+  // Receives the new bank entry's id so the question can record where it came from
+  onSaved: (bankQuestionId: string) => void;
+}
+
+// Radix Select items can't have an empty value
+const UNSET = "unset";
+
+const SaveToBankDialog = ({ question, subject, onSaved }: SaveToBankDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [topic, setTopic] = useState("");
+  const [difficulty, setDifficulty] = useState("medium");
+  const [bloomLevel, setBloomLevel] = useState(UNSET);
+  const [tags, setTags] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleOpen = () => {
+    if (!subject || !question.text.trim()) {
+      toast({
+        title: "Error",
+        description: "Choose the test's subject and write the question before saving it to the bank",
+        variant: "destructive",
+      });
+      return;
+    }
+    setOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    setIsSaving(true);
+    try {
+      const id = await saveToQuestionBank(question, user.id, {
+        subject,
+        topic: topic.trim() || null,
+        difficulty,
+        bloom_level: bloomLevel === UNSET ? null : bloomLevel,
+        tags: parseTags(tags),
+      });
+      onSaved(id);
+      setOpen(false);
+      toast({
+        title: "Saved to Question Bank",
+        description: "Other faculty can now find and reuse this question.",
+      });
+    } catch (error) {
+      console.error("Error saving to question bank:", error);
+      toast({
+        title: "Error",
+        description: "The question could not be saved to the bank.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="ghost" size="sm" onClick={handleOpen} className="flex items-center gap-1">
+        <Library className="h-4 w-4" />
+        Save to Bank
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save to Question Bank</DialogTitle>
+            <DialogDescription>Filed under {subject}. Tags help others find it in search.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="bank-topic">Topic</Label>
+              <Input
+                id="bank-topic"
+                placeholder="e.g. Recursion"
+                value={topic}
+                onChange={(e) => setTopic(e.target.value)}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="bank-difficulty">Difficulty</Label>
+                <Select value={difficulty} onValueChange={setDifficulty}>
+                  <SelectTrigger id="bank-difficulty">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DIFFICULTY_LEVELS.map((level) => (
+                      <SelectItem key={level.value} value={level.value}>
+                        {level.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="bank-bloom">Bloom Level</Label>
+                <Select value={bloomLevel} onValueChange={setBloomLevel}>
+                  <SelectTrigger id="bank-bloom">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNSET}>Not set</SelectItem>
+                    {BLOOM_LEVELS.map((level) => (
+                      <SelectItem key={level.value} value={level.value}>
+                        {level.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="bank-tags">Tags</Label>
+              <Input
+                id="bank-tags"
+                placeholder="Comma separated, e.g. arrays, sorting, midterm"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default SaveToBankDialog;
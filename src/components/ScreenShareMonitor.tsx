@@ -0,0 +1,110 @@
+import { useEffect, useRef, useState } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, ScreenShare } from 'lucide-react';
+import { backgroundAppController } from '@/utils/backgroundAppController';
+import { captureScreenshot, type ProctoringEventData } from '@/proctoring';
+
+type ScreenShareEvent = 'screen_share_started' | 'screen_captured' | 'screen_share_stopped';
+
+interface ScreenShareMonitorProps {
+  isActive: boolean;
+  // Seconds between screenshots sent to the evidence store
+  intervalSeconds: number;
+  onEvent: (type: ScreenShareEvent, data?: ProctoringEventData, evidence?: Blob) => void;
+}
+
+const ScreenShareMonitor = ({ isActive, intervalSeconds, onEvent }: ScreenShareMonitorProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onEventRef = useRef(onEvent);
+  // The share started during system preparation, if the student gave one
+  const [stream, setStream] = useState<MediaStream | null>(() => backgroundAppController.getScreenShareStream());
+  const [isRequesting, setIsRequesting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  onEventRef.current = onEvent;
+
+  // The share outlives monitoring restarts (e.g. leaving fullscreen) and ends with the test
+  useEffect(() => {
+    return () => backgroundAppController.stopScreenShare();
+  }, []);
+
+  // Monitoring without a live share is a violation, whether the student skipped it,
+  // stopped it, or it ended while monitoring was paused
+  useEffect(() => {
+    if (isActive && !stream) {
+      onEventRef.current('screen_share_stopped');
+    }
+  }, [isActive, stream]);
+
+  // Report the share and watch for it ending (the browser's "Stop sharing" button, or the monitor going away)
+  useEffect(() => {
+    const track = stream?.getVideoTracks()[0];
+    if (!track) return;
+
+    const { width, height } = track.getSettings();
+    onEventRef.current('screen_share_started', { width, height });
+
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+
+    const handleEnded = () => setStream(null);
+    track.addEventListener('ended', handleEnded);
+
+    return () => {
+      track.removeEventListener('ended', handleEnded);
+    };
+  }, [stream]);
+
+  useEffect(() => {
+    if (!isActive || !stream) return;
+
+    const interval = window.setInterval(async () => {
+      const video = videoRef.current;
+      if (!video) return;
+
+      const screenshot = await captureScreenshot(video);
+      if (screenshot) {
+        onEventRef.current('screen_captured', undefined, screenshot);
+      }
+    }, intervalSeconds * 1000);
+
+    return () => window.clearInterval(interval);
+  }, [isActive, stream, intervalSeconds]);
+
+  const handleShare = async () => {
+    setIsRequesting(true);
+    try {
+      setStream(await backgroundAppController.requestScreenShare());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
+  return (
+    <>
+      {/* Frames for screenshots are read from here; the student doesn't need to see it.
+          Kept mounted while monitoring is paused so the share stays attached. */}
+      <video ref={videoRef} autoPlay muted playsInline className="fixed h-px w-px opacity-0 pointer-events-none" />
+
+      {isActive && !stream && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <span>{error || 'This test requires you to share your entire screen until you submit.'}</span>
+            <Button size="sm" onClick={handleShare} disabled={isRequesting}>
+              <ScreenShare className="h-4 w-4 mr-2" />
+              Share Entire Screen
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+    </>
+  );
+};
+
+export default ScreenShareMonitor;
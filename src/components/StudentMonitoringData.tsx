@@ -1,5 +1,4 @@
-
-import { useState } from "react";
+import { useState, useEffect, useMemo } from "react";
 import {
   Card,
   CardContent,
@@ -9,224 +8,444 @@ import {
 } from "@/components/ui/card";
 import {
   Tabs,
-  TabsContent,
   TabsList,
   TabsTrigger,
 } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { AlertTriangle, Eye, RefreshCw, Camera, Users } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  AlertTriangle,
+  Eye,
+  EyeOff,
+  RefreshCw,
+  Users,
+  MonitorOff,
+  Maximize,
+  Flag,
+  Pause,
+  Keyboard,
+  PlayCircle,
+  CheckCircle,
+  XCircle,
+  Mic,
+  Smartphone,
+  ScanFace,
+  ScreenShare,
+  ScreenShareOff,
+  MonitorSmartphone,
+  Bug,
+  ClipboardX,
+  ClipboardPaste,
+  Printer,
+} from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { useMonitoringLogs } from "@/hooks/useMonitoringLogs";
+import EvidenceSnapshot from "@/components/EvidenceSnapshot";
+import type { MonitoringLog } from "@/hooks/useRealtimeTestSessions";
+import {
+  EVENT_LABELS,
+  IDENTITY_MAX_DISTANCE,
+  VIOLATION_TYPES,
+  VIOLATION_LABELS,
+  buildTimeline,
+  formatOffset,
+  isViolationLog,
+  type ProctoringEventType,
+} from "@/proctoring";
 
-interface MonitoringEventDetails {
-  direction?: string;
-  count?: number;
-  url?: string;
-  saved?: boolean;
-  [key: string]: any; // Allow for other properties
+interface StudentMonitoringDataProps {
+  testId: string;
+  studentId?: string;
+  // Skips the session lookup when the caller already knows it
+  sessionId?: string;
 }
 
-interface MonitoringEvent {
+interface QuestionLabel {
   id: string;
-  timestamp: string;
-  student_id: string;
-  test_id: string;
-  event_type: string;
-  details: MonitoringEventDetails;
+  order_number: number;
+  question_text: string;
 }
 
-interface StudentMonitoringDataProps {
-  testId: string;
-  studentId?: string;
-}
+type EventFilter = "all" | "violations" | ProctoringEventType;
 
-const StudentMonitoringData = ({ testId, studentId }: StudentMonitoringDataProps) => {
-  const [events, setEvents] = useState<MonitoringEvent[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [activeTab, setActiveTab] = useState("all");
+const getEventIcon = (eventType: string) => {
+  switch (eventType) {
+    case "tab_switch":
+    case "window_blur":
+      return <MonitorOff className="h-4 w-4" />;
+    case "fullscreen_exit":
+      return <Maximize className="h-4 w-4" />;
+    case "face_away":
+      return <Eye className="h-4 w-4" />;
+    case "face_not_detected":
+      return <EyeOff className="h-4 w-4" />;
+    case "multiple_faces":
+      return <Users className="h-4 w-4" />;
+    case "speech_detected":
+      return <Mic className="h-4 w-4" />;
+    case "prohibited_object":
+      return <Smartphone className="h-4 w-4" />;
+    case "identity_mismatch":
+    case "identity_verified":
+    case "identity_unverified":
+      return <ScanFace className="h-4 w-4" />;
+    case "screen_share_stopped":
+      return <ScreenShareOff className="h-4 w-4" />;
+    case "screen_share_started":
+    case "screen_captured":
+      return <ScreenShare className="h-4 w-4" />;
+    case "secondary_display":
+      return <MonitorSmartphone className="h-4 w-4" />;
+    case "shortcut_blocked":
+      return <Keyboard className="h-4 w-4" />;
+    case "devtools_opened":
+      return <Bug className="h-4 w-4" />;
+    case "copy_blocked":
+    case "paste_blocked":
+      return <ClipboardX className="h-4 w-4" />;
+    case "text_pasted":
+      return <ClipboardPaste className="h-4 w-4" />;
+    case "print_blocked":
+      return <Printer className="h-4 w-4" />;
+    case "session_flagged":
+      return <Flag className="h-4 w-4" />;
+    case "session_paused":
+      return <Pause className="h-4 w-4" />;
+    case "test_started":
+      return <PlayCircle className="h-4 w-4" />;
+    case "test_submitted":
+      return <CheckCircle className="h-4 w-4" />;
+    case "test_terminated":
+      return <XCircle className="h-4 w-4" />;
+    default:
+      return <AlertTriangle className="h-4 w-4" />;
+  }
+};
+
+const getEventColor = (eventType: string) => {
+  switch (eventType) {
+    case "face_away":
+    case "face_not_detected":
+    case "window_blur":
+    case "speech_detected":
+      return "bg-yellow-500/20 text-yellow-500";
+    case "multiple_faces":
+    case "prohibited_object":
+    case "identity_mismatch":
+    case "secondary_display":
+    case "devtools_opened":
+    case "session_flagged":
+    case "test_terminated":
+      return "bg-red-500/20 text-red-500";
+    case "tab_switch":
+    case "fullscreen_exit":
+    case "screen_share_stopped":
+    case "paste_blocked":
+    case "text_pasted":
+    case "session_paused":
+    case "identity_unverified":
+      return "bg-orange-500/20 text-orange-500";
+    case "identity_verified":
+    case "test_started":
+    case "test_submitted":
+      return "bg-green-500/20 text-green-500";
+    default:
+      return "bg-gray-500/20 text-gray-500";
+  }
+};
 
-  const loadMonitoringData = async () => {
-    setLoading(true);
-    try {
-      // For now, we'll use test_sessions table to create mock monitoring events
-      // as the monitoring_events table doesn't exist yet
+const getEventDetail = (log: MonitoringLog) => {
+  const data = (log.event_data || {}) as Record<string, unknown>;
+  switch (log.event_type) {
+    case "face_away":
+      return data.direction ? `Looking ${String(data.direction).toLowerCase()}` : null;
+    case "multiple_faces":
+      return data.count ? `${data.count} people` : null;
+    case "shortcut_blocked":
+      return data.key ? String(data.key) : null;
+    case "paste_blocked":
+    case "text_pasted":
+      return data.length !== undefined ? `${data.length} characters` : null;
+    case "speech_detected":
+      return data.multipleSpeakers ? "Conversation" : data.seconds ? `${data.seconds}s of speech` : null;
+    case "prohibited_object":
+      return data.description ? String(data.description) : null;
+    case "identity_mismatch":
+    case "identity_verified":
+      if (data.enrolled) return "Enrolled at test start";
+      return data.distance !== undefined ? `Face distance ${Number(data.distance).toFixed(2)} (limit ${IDENTITY_MAX_DISTANCE})` : null;
+    case "identity_unverified":
+      return "No face enrollment to compare";
+    case "secondary_display":
+      return data.displays ? `${data.displays} displays` : null;
+    case "screen_share_started":
+      return data.width && data.height ? `${data.width}x${data.height}` : null;
+    case "session_flagged":
+    case "session_paused":
+      return data.cause ? `After ${VIOLATION_LABELS[data.cause as keyof typeof VIOLATION_LABELS] || data.cause}` : null;
+    case "test_submitted":
+    case "test_terminated":
+      return data.integrity_score !== undefined ? `Score ${data.integrity_score}` : null;
+    default:
+      return null;
+  }
+};
+
+const StudentMonitoringData = ({ testId, studentId, sessionId: sessionIdProp }: StudentMonitoringDataProps) => {
+  const [resolvedSessionId, setResolvedSessionId] = useState<string | null>(null);
+  const [sessionStart, setSessionStart] = useState<string | null>(null);
+  const [questions, setQuestions] = useState<QuestionLabel[]>([]);
+  const [activeTab, setActiveTab] = useState<EventFilter>("all");
+  // Minutes since the session started; blank means unbounded
+  const [fromMinute, setFromMinute] = useState("");
+  const [toMinute, setToMinute] = useState("");
+
+  const sessionId = sessionIdProp || resolvedSessionId;
+  const { logs, isLoading, refetch } = useMonitoringLogs(sessionId);
+
+  // Find the student's session for this test
+  useEffect(() => {
+    const loadSession = async () => {
       let query = supabase
-        .from('test_sessions')
-        .select('*')
-        .eq('test_id', testId);
-      
-      if (studentId) {
-        query = query.eq('student_id', studentId);
+        .from("test_sessions")
+        .select("id, started_at")
+        .eq("test_id", testId);
+
+      if (sessionIdProp) {
+        query = query.eq("id", sessionIdProp);
+      } else if (studentId) {
+        query = query.eq("student_id", studentId);
+      } else {
+        return;
       }
-      
-      const { data, error } = await query;
-      
+
+      const { data, error } = await query
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
       if (error) {
-        console.error("Error loading monitoring data:", error);
-      } else {
-        // Transform test_sessions data into MonitoringEvent format
-        const mockEvents: MonitoringEvent[] = [];
-        
-        // Generate mock monitoring events based on test_sessions
-        data?.forEach((session) => {
-          // Face away event
-          mockEvents.push({
-            id: `mock-face-${session.id}`,
-            timestamp: new Date(session.started_at || new Date()).toISOString(),
-            student_id: session.student_id,
-            test_id: session.test_id,
-            event_type: "face_away",
-            details: { direction: "Left" }
-          });
-          
-          // Multiple people event if warnings > 2
-          if (session.total_warnings && session.total_warnings > 2) {
-            mockEvents.push({
-              id: `mock-people-${session.id}`,
-              timestamp: new Date(session.started_at || new Date()).toISOString(),
-              student_id: session.student_id,
-              test_id: session.test_id,
-              event_type: "multiple_people",
-              details: { count: 2 }
-            });
-          }
-          
-          // Tab switch event
-          mockEvents.push({
-            id: `mock-tab-${session.id}`,
-            timestamp: new Date(session.started_at || new Date()).toISOString(),
-            student_id: session.student_id,
-            test_id: session.test_id,
-            event_type: "tab_switch",
-            details: { url: "https://google.com" }
-          });
-          
-          // Face capture event
-          mockEvents.push({
-            id: `mock-capture-${session.id}`,
-            timestamp: new Date(session.started_at || new Date()).toISOString(),
-            student_id: session.student_id,
-            test_id: session.test_id,
-            event_type: "face_capture",
-            details: { saved: true }
-          });
-        });
-        
-        setEvents(mockEvents);
+        console.error("Error loading session:", error);
+        return;
       }
-    } catch (error) {
-      console.error("Error in loadMonitoringData:", error);
-    } finally {
-      setLoading(false);
-    }
-  };
 
-  const getEventIcon = (eventType: string) => {
-    switch (eventType) {
-      case "face_away":
-        return <Eye className="h-4 w-4" />;
-      case "multiple_people":
-        return <Users className="h-4 w-4" />;
-      case "tab_switch":
-        return <AlertTriangle className="h-4 w-4" />;
-      case "face_capture":
-        return <Camera className="h-4 w-4" />;
-      default:
-        return <AlertTriangle className="h-4 w-4" />;
-    }
-  };
+      setResolvedSessionId(data?.id || null);
+      setSessionStart(data?.started_at || null);
+    };
 
-  const getEventColor = (eventType: string) => {
-    switch (eventType) {
-      case "face_away":
-        return "bg-yellow-500/20 text-yellow-500";
-      case "multiple_people":
-        return "bg-red-500/20 text-red-500";
-      case "tab_switch":
-        return "bg-orange-500/20 text-orange-500";
-      case "face_capture":
-        return "bg-blue-500/20 text-blue-500";
-      default:
-        return "bg-gray-500/20 text-gray-500";
-    }
-  };
+    loadSession();
+  }, [testId, studentId, sessionIdProp]);
 
-  const formatTimestamp = (timestamp: string) => {
-    const date = new Date(timestamp);
-    return date.toLocaleString();
-  };
+  // Question text for the timeline headings
+  useEffect(() => {
+    const loadQuestions = async () => {
+      const { data, error } = await supabase
+        .from("questions")
+        .select("id, order_number, question_text")
+        .eq("test_id", testId)
+        .order("order_number");
+
+      if (error) {
+        console.error("Error loading questions:", error);
+        return;
+      }
+
+      setQuestions(data || []);
+    };
+
+    loadQuestions();
+  }, [testId]);
+
+  const startedAt = sessionStart || logs[0]?.timestamp || null;
+
+  const filteredLogs = useMemo(() => {
+    const from = fromMinute !== "" && startedAt
+      ? new Date(startedAt).getTime() + Number(fromMinute) * 60000
+      : null;
+    const to = toMinute !== "" && startedAt
+      ? new Date(startedAt).getTime() + Number(toMinute) * 60000
+      : null;
+
+    return logs.filter((log) => {
+      const time = new Date(log.timestamp).getTime();
+      if (from !== null && time < from) return false;
+      if (to !== null && time > to) return false;
+      // Navigation always passes so events stay under the right question
+      if (log.event_type === "question_viewed" || activeTab === "all") return true;
+      if (activeTab === "violations") return isViolationLog(log);
+      return log.event_type === activeTab;
+    });
+  }, [logs, activeTab, fromMinute, toMinute, startedAt]);
+
+  const segments = useMemo(
+    () => buildTimeline(filteredLogs).filter((segment) => segment.events.length > 0),
+    [filteredLogs]
+  );
+
+  const violationCounts = useMemo(() => {
+    const counts: Partial<Record<ProctoringEventType, number>> = {};
+    logs.forEach((log) => {
+      if (isViolationLog(log)) {
+        const type = log.event_type as ProctoringEventType;
+        counts[type] = (counts[type] || 0) + 1;
+      }
+    });
+    return counts;
+  }, [logs]);
+
+  const questionsById = useMemo(
+    () => new Map(questions.map((question) => [question.id, question])),
+    [questions]
+  );
 
-  const filteredEvents = activeTab === "all" 
-    ? events 
-    : events.filter(event => event.event_type === activeTab);
+  const getSegmentTitle = (questionId: string | null, questionNumber: number | null) => {
+    if (!questionId) return "Before the first question";
+    const question = questionsById.get(questionId);
+    const number = question?.order_number ?? questionNumber;
+    const text = question?.question_text;
+    return `Question ${number ?? "?"}${text ? ` · ${text.length > 60 ? `${text.slice(0, 60)}…` : text}` : ""}`;
+  };
 
   return (
     <Card>
       <CardHeader className="pb-2">
         <CardTitle className="flex items-center justify-between">
-          <span>Student Monitoring Data</span>
-          <Button 
-            variant="ghost" 
-            size="sm" 
-            onClick={loadMonitoringData}
-            disabled={loading}
+          <span>Integrity Timeline</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={refetch}
+            disabled={isLoading || !sessionId}
           >
-            <RefreshCw className={`h-4 w-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+            <RefreshCw className={`h-4 w-4 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
             Refresh
           </Button>
         </CardTitle>
         <CardDescription>
-          AI-powered student activity monitoring during tests
+          Every monitoring event recorded for this attempt, grouped by the question on screen at the time
         </CardDescription>
       </CardHeader>
-      <CardContent>
-        <Tabs defaultValue="all" value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="mb-4">
-            <TabsTrigger value="all">All Events</TabsTrigger>
-            <TabsTrigger value="face_away">Looking Away</TabsTrigger>
-            <TabsTrigger value="multiple_people">Multiple People</TabsTrigger>
-            <TabsTrigger value="tab_switch">Tab Switching</TabsTrigger>
-            <TabsTrigger value="face_capture">Face Captures</TabsTrigger>
-          </TabsList>
-          
-          {events.length === 0 ? (
-            <div className="text-center py-8 text-muted-foreground">
-              {loading ? "Loading events..." : "No monitoring events recorded yet"}
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {VIOLATION_TYPES.map((type) => (
+            <Badge
+              key={type}
+              variant="outline"
+              className={violationCounts[type] ? getEventColor(type) : "text-muted-foreground"}
+            >
+              {VIOLATION_LABELS[type]}: {violationCounts[type] || 0}
+            </Badge>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as EventFilter)}>
+            <TabsList className="flex-wrap h-auto">
+              <TabsTrigger value="all">All Events</TabsTrigger>
+              <TabsTrigger value="violations">Violations</TabsTrigger>
+              {VIOLATION_TYPES.map((type) => (
+                <TabsTrigger key={type} value={type}>
+                  {VIOLATION_LABELS[type]}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="timeline-from" className="text-xs">From (min)</Label>
+              <Input
+                id="timeline-from"
+                type="number"
+                min="0"
+                className="w-24 h-8"
+                value={fromMinute}
+                onChange={(e) => setFromMinute(e.target.value)}
+              />
             </div>
-          ) : (
-            <TabsContent value={activeTab} className="mt-0 space-y-3">
-              {filteredEvents.map(event => (
-                <div 
-                  key={event.id} 
-                  className="border rounded-lg p-3 flex items-center justify-between"
-                >
-                  <div className="flex items-center space-x-3">
-                    <div className={`p-2 rounded-full ${getEventColor(event.event_type)}`}>
-                      {getEventIcon(event.event_type)}
-                    </div>
-                    <div>
-                      <div className="font-medium">
-                        {event.event_type === "face_away" && "Looking Away Detected"}
-                        {event.event_type === "multiple_people" && "Multiple People Detected"}
-                        {event.event_type === "tab_switch" && "Tab Switching Detected"}
-                        {event.event_type === "face_capture" && "Face Captured"}
-                      </div>
-                      <div className="text-sm text-muted-foreground">
-                        {formatTimestamp(event.timestamp)}
-                      </div>
+            <div className="space-y-1">
+              <Label htmlFor="timeline-to" className="text-xs">To (min)</Label>
+              <Input
+                id="timeline-to"
+                type="number"
+                min="0"
+                className="w-24 h-8"
+                value={toMinute}
+                onChange={(e) => setToMinute(e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+
+        {!sessionId ? (
+          <div className="text-center py-8 text-muted-foreground">
+            This student has not started the test
+          </div>
+        ) : segments.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            {isLoading ? "Loading events..." : "No monitoring events match these filters"}
+          </div>
+        ) : (
+          <ScrollArea className="h-[480px] pr-3">
+            <div className="space-y-4">
+              {segments.map((segment, index) => (
+                <div key={`${segment.start}-${index}`} className="border rounded-lg">
+                  <div className="flex items-center justify-between px-3 py-2 bg-muted/40 rounded-t-lg">
+                    <span className="text-sm font-medium">
+                      {getSegmentTitle(segment.questionId, segment.questionNumber)}
+                    </span>
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      {startedAt && (
+                        <span>
+                          {formatOffset(segment.start, startedAt)}
+                          {segment.end && ` – ${formatOffset(segment.end, startedAt)}`}
+                        </span>
+                      )}
+                      {segment.violationCount > 0 && (
+                        <Badge variant="destructive">{segment.violationCount}</Badge>
+                      )}
                     </div>
                   </div>
-                  <Badge variant="outline">
-                    {event.event_type === "face_away" && event.details.direction}
-                    {event.event_type === "multiple_people" && `${event.details.count} people`}
-                    {event.event_type === "tab_switch" && "Left test"}
-                    {event.event_type === "face_capture" && "Saved"}
-                  </Badge>
+                  <div className="divide-y">
+                    {segment.events.map((log) => {
+                      const detail = getEventDetail(log);
+                      return (
+                        <div key={log.id} className="flex items-center justify-between p-3">
+                          <div className="flex items-center space-x-3">
+                            <div className={`p-2 rounded-full ${getEventColor(log.event_type)}`}>
+                              {getEventIcon(log.event_type)}
+                            </div>
+                            <div>
+                              <div className="font-medium">
+                                {EVENT_LABELS[log.event_type as ProctoringEventType] || log.event_type.replace(/_/g, " ")}
+                              </div>
+                              <div className="text-sm text-muted-foreground">
+                                {startedAt && `+${formatOffset(log.timestamp, startedAt)} · `}
+                                {new Date(log.timestamp).toLocaleTimeString()}
+                              </div>
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            {log.evidence_path && (
+                              <EvidenceSnapshot
+                                path={log.evidence_path}
+                                title={EVENT_LABELS[log.event_type as ProctoringEventType] || "Webcam Snapshot"}
+                              />
+                            )}
+                            {detail && <Badge variant="outline">{detail}</Badge>}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
                 </div>
               ))}
-            </TabsContent>
-          )}
-        </Tabs>
+            </div>
+          </ScrollArea>
+        )}
       </CardContent>
     </Card>
   );
@@ -1,90 +1,225 @@
 import { useEffect, useRef, useState } from 'react';
-import { FaceLandmarker, FilesetResolver, FaceLandmarkerResult } from '@mediapipe/tasks-vision';
+import type { FaceLandmarkerResult } from '@mediapipe/tasks-vision';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
-import { AlertTriangle, Camera, Users, Eye } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { AlertTriangle, Camera, Users, Eye, Crosshair, Smartphone } from 'lucide-react';
+import {
+  buildGazeSample,
+  captureEvidence,
+  computeBaseline,
+  createFaceRecognizer,
+  describeSightings,
+  embedFace,
+  evaluateGaze,
+  faceDistance,
+  findProhibitedObjects,
+  IDENTITY_MAX_DISTANCE,
+  MAX_SAMPLE_INTERVAL_MS,
+  nextSampleInterval,
+  REVERIFY_INTERVAL_MS,
+  VisionTracker,
+  type FaceRecognizer,
+  type GazeBaseline,
+  type GazeSample,
+  type ObjectSighting,
+} from '@/proctoring';
+
+type WebcamViolationType = 'multiple_people' | 'no_face' | 'looking_away' | 'prohibited_object' | 'identity_mismatch';
 
 interface WebcamMonitorProps {
   isActive: boolean;
-  onViolation: (type: 'multiple_people' | 'no_face' | 'looking_away', details?: any) => void;
+  onViolation: (type: WebcamViolationType, details?: any, evidence?: Blob) => void;
   onStatusUpdate: (status: { peopleCount: number; faceDirection: string; isLookingAway: boolean }) => void;
+  // Seconds between object-detection passes; object detection is off when unset or 0
+  objectScanSeconds?: number;
+  // Enrolled face embedding; when set, the student is re-verified periodically
+  referenceEmbedding?: number[] | null;
 }
 
 interface Detection {
   timestamp: number;
-  type: 'multiple_people' | 'no_face' | 'looking_away';
+  type: WebcamViolationType;
   details?: any;
 }
 
-const WebcamMonitor = ({ isActive, onViolation, onStatusUpdate }: WebcamMonitorProps) => {
+const CALIBRATION_SAMPLES = 20;
+const CALIBRATION_INTERVAL_MS = 150;
+// Give up waiting for a clear face and judge against whatever was collected
+const CALIBRATION_TIMEOUT_MS = 15000;
+// How long a face problem must persist before it's reported
+const CONFIRM_MS = 1500;
+
+const WebcamMonitor = ({
+  isActive,
+  onViolation,
+  onStatusUpdate,
+  objectScanSeconds = 0,
+  referenceEmbedding = null,
+}: WebcamMonitorProps) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isInitialized, setIsInitialized] = useState(false);
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [faceLandmarker, setFaceLandmarker] = useState<FaceLandmarker | null>(null);
+  const [tracker, setTracker] = useState<VisionTracker | null>(null);
   const [peopleCount, setPeopleCount] = useState(1);
   const [faceDirection, setFaceDirection] = useState('Forward');
   const [violations, setViolations] = useState<Detection[]>([]);
+  const [calibrationProgress, setCalibrationProgress] = useState<number | null>(null);
+  const [sightings, setSightings] = useState<ObjectSighting[]>([]);
+  const onViolationRef = useRef(onViolation);
+  // Objects seen on the previous pass; a sighting must repeat before it's reported
+  const lastSightingsRef = useRef<ObjectSighting[]>([]);
+  const [faceRecognizer, setFaceRecognizer] = useState<FaceRecognizer | null>(null);
+  const lastIdentityMatchRef = useRef(true);
   const monitoringIntervalRef = useRef<number | null>(null);
-  const lastDetectionRef = useRef<{ faces: number; direction: string; timestamp: number }>({
-    faces: 1,
-    direction: 'Forward',
-    timestamp: Date.now()
-  });
-
-  // Initialize MediaPipe Face Landmarker
+  const analysisTimeoutRef = useRef<number | null>(null);
+  const baselineRef = useRef<GazeBaseline | null>(null);
+  // When each face problem was first seen in the current run of frames
+  const suspectSinceRef = useRef<Partial<Record<'multiple_people' | 'no_face' | 'looking_away', number>>>({});
+  // The mesh overlay costs a full-frame redraw per sample, so students opt in
+  const [showOverlay, setShowOverlay] = useState(false);
+  const showOverlayRef = useRef(showOverlay);
+  showOverlayRef.current = showOverlay;
+
+  // Start face tracking, in a worker where the browser supports it
   useEffect(() => {
-    const initFaceLandmarker = async () => {
-      try {
-        const vision = await FilesetResolver.forVisionTasks(
-          'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm'
-        );
-        
-        // Try GPU first, fallback to CPU for better desktop compatibility
-        let landmarker: FaceLandmarker | null = null;
-        
-        try {
-          landmarker = await FaceLandmarker.createFromOptions(vision, {
-            baseOptions: {
-              modelAssetPath: 'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task',
-              delegate: 'GPU'
-            },
-            outputFaceBlendshapes: false,
-            outputFacialTransformationMatrixes: true,
-            runningMode: 'VIDEO',
-            numFaces: 2
-          });
-          console.log('MediaPipe Face Landmarker initialized with GPU');
-        } catch (gpuError) {
-          console.log('GPU not available, falling back to CPU:', gpuError);
-          landmarker = await FaceLandmarker.createFromOptions(vision, {
-            baseOptions: {
-              modelAssetPath: 'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task',
-              delegate: 'CPU'
-            },
-            outputFaceBlendshapes: false,
-            outputFacialTransformationMatrixes: true,
-            runningMode: 'VIDEO',
-            numFaces: 2
-          });
-          console.log('MediaPipe Face Landmarker initialized with CPU');
+    let cancelled = false;
+    let created: VisionTracker | null = null;
+
+    VisionTracker.create()
+      .then((visionTracker) => {
+        created = visionTracker;
+        if (cancelled) {
+          visionTracker.close();
+          return;
         }
-        
-        setFaceLandmarker(landmarker);
+        setTracker(visionTracker);
         setIsInitialized(true);
-      } catch (err) {
+      })
+      .catch((err) => {
         console.error('Error initializing Face Landmarker:', err);
         setError('Failed to initialize AI models. Please use a modern browser with WebGL support.');
+      });
+
+    return () => {
+      cancelled = true;
+      created?.close();
+    };
+  }, []);
+
+  onViolationRef.current = onViolation;
+
+  // Scan for phones, books and extra screens on the policy's cadence
+  useEffect(() => {
+    if (!isActive || !tracker || objectScanSeconds <= 0) return;
+
+    lastSightingsRef.current = [];
+
+    const scanObjects = async () => {
+      const video = videoRef.current;
+      if (!video || video.readyState !== video.HAVE_ENOUGH_DATA) return;
+
+      try {
+        const detections = await tracker.detectObjects(video);
+        if (!detections) return;
+        const current = findProhibitedObjects(detections);
+        setSightings(current);
+
+        // Only objects that were also there on the previous pass, to skip one-frame misreads
+        const confirmed = current.filter((sighting) =>
+          lastSightingsRef.current.some((previous) => previous.object === sighting.object)
+        );
+        lastSightingsRef.current = current;
+        if (confirmed.length === 0) return;
+
+        const details = {
+          objects: confirmed,
+          confidence: confirmed[0].confidence,
+          description: describeSightings(confirmed),
+        };
+        setViolations(prev => [...prev, { timestamp: Date.now(), type: 'prohibited_object', details }]);
+        onViolationRef.current('prohibited_object', details, await captureEvidence(video));
+      } catch (err) {
+        console.error('Error scanning for objects:', err);
       }
     };
 
-    initFaceLandmarker();
+    const interval = window.setInterval(scanObjects, objectScanSeconds * 1000);
+    return () => {
+      clearInterval(interval);
+      setSightings([]);
+    };
+  }, [isActive, tracker, objectScanSeconds]);
+
+  // Load the face recognizer only when there is an enrolled face to compare with
+  const identityCheckEnabled = !!referenceEmbedding;
+  useEffect(() => {
+    if (!identityCheckEnabled) return;
+
+    let cancelled = false;
+    let recognizer: FaceRecognizer | null = null;
+
+    createFaceRecognizer()
+      .then((created) => {
+        recognizer = created;
+        if (cancelled) {
+          created.close();
+          return;
+        }
+        setFaceRecognizer(created);
+      })
+      .catch((err) => {
+        console.error('Error initializing face recognizer:', err);
+      });
 
     return () => {
-      faceLandmarker?.close();
+      cancelled = true;
+      recognizer?.close();
+      setFaceRecognizer(null);
     };
-  }, []);
+  }, [identityCheckEnabled]);
+
+  // Re-verify that the enrolled student is still the one in front of the camera
+  useEffect(() => {
+    if (!isActive || !faceRecognizer || !tracker || !referenceEmbedding) return;
+
+    lastIdentityMatchRef.current = true;
+
+    const verifyIdentity = async () => {
+      const video = videoRef.current;
+      if (!video || video.readyState !== video.HAVE_ENOUGH_DATA) return;
+
+      try {
+        const result = await tracker.detectFaces(video);
+        // No face and extra faces are their own violations
+        if (!result || result.faceLandmarks.length !== 1) return;
+
+        const embedding = await embedFace(faceRecognizer, video, result.faceLandmarks[0]);
+        if (!embedding) return;
+
+        const distance = Math.round(faceDistance(embedding, referenceEmbedding) * 100) / 100;
+        const matches = distance <= IDENTITY_MAX_DISTANCE;
+        // Two misses in a row, so one badly lit frame doesn't accuse the student
+        const confirmed = !matches && !lastIdentityMatchRef.current;
+        lastIdentityMatchRef.current = matches;
+        if (!confirmed) return;
+
+        const details = { distance };
+        setViolations(prev => [...prev, { timestamp: Date.now(), type: 'identity_mismatch', details }]);
+        onViolationRef.current('identity_mismatch', details, await captureEvidence(video, result.faceLandmarks));
+      } catch (err) {
+        console.error('Error verifying identity:', err);
+      }
+    };
+
+    const interval = window.setInterval(verifyIdentity, REVERIFY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isActive, faceRecognizer, tracker, referenceEmbedding]);
 
   // Setup webcam when active
   useEffect(() => {
@@ -130,6 +265,10 @@ const WebcamMonitor = ({ isActive, onViolation, onStatusUpdate }: WebcamMonitorP
       clearInterval(monitoringIntervalRef.current);
       monitoringIntervalRef.current = null;
     }
+    if (analysisTimeoutRef.current) {
+      clearTimeout(analysisTimeoutRef.current);
+      analysisTimeoutRef.current = null;
+    }
 
     if (stream) {
       stream.getTracks().forEach(track => track.stop());
@@ -141,15 +280,76 @@ const WebcamMonitor = ({ isActive, onViolation, onStatusUpdate }: WebcamMonitorP
     }
   };
 
+  // Record the student's neutral pose so off-center cameras don't read as looking away
   const startMonitoring = () => {
     if (monitoringIntervalRef.current) {
       clearInterval(monitoringIntervalRef.current);
     }
+    if (analysisTimeoutRef.current) {
+      clearTimeout(analysisTimeoutRef.current);
+      analysisTimeoutRef.current = null;
+    }
+
+    const samples: GazeSample[] = [];
+    const startedAt = Date.now();
+    baselineRef.current = null;
+    setCalibrationProgress(0);
 
-    // Monitor every 2 seconds for more responsive detection
     monitoringIntervalRef.current = window.setInterval(async () => {
-      await analyzeFrame();
-    }, 2000);
+      const sample = await sampleNeutralPose();
+      if (sample) {
+        samples.push(sample);
+        setCalibrationProgress(Math.round((samples.length / CALIBRATION_SAMPLES) * 100));
+      }
+
+      // A sample resolving after calibration already finished must not start a second loop
+      if (baselineRef.current) return;
+      if (samples.length >= CALIBRATION_SAMPLES || Date.now() - startedAt > CALIBRATION_TIMEOUT_MS) {
+        baselineRef.current = computeBaseline(samples);
+        setCalibrationProgress(null);
+        startAnalysis();
+      }
+    }, CALIBRATION_INTERVAL_MS);
+  };
+
+  const sampleNeutralPose = async (): Promise<GazeSample | null> => {
+    const video = videoRef.current;
+    if (!video || !tracker || video.readyState !== video.HAVE_ENOUGH_DATA) return null;
+
+    try {
+      const result = await tracker.detectFaces(video);
+      // Only a single, clearly visible face is a usable reference
+      if (!result || result.faceLandmarks.length !== 1) return null;
+
+      return buildGazeSample(
+        result.facialTransformationMatrixes?.[0]?.data,
+        result.faceLandmarks[0],
+        result.faceBlendshapes?.[0]?.categories
+      );
+    } catch (err) {
+      console.error('Error sampling calibration frame:', err);
+      return null;
+    }
+  };
+
+  const startAnalysis = () => {
+    if (monitoringIntervalRef.current) {
+      clearInterval(monitoringIntervalRef.current);
+      monitoringIntervalRef.current = null;
+    }
+
+    suspectSinceRef.current = {};
+    scheduleAnalysis(MAX_SAMPLE_INTERVAL_MS / 2);
+  };
+
+  // Adaptive cadence: a suspicious frame brings the next sample forward, quiet frames push it back
+  const scheduleAnalysis = (delay: number) => {
+    analysisTimeoutRef.current = window.setTimeout(async () => {
+      const suspicious = await analyzeFrame();
+      // Stopped while this frame was being analyzed
+      if (analysisTimeoutRef.current === null) return;
+      scheduleAnalysis(nextSampleInterval(delay, suspicious));
+    }, delay);
   };
 
   const drawLandmarks = (canvas: HTMLCanvasElement, result: FaceLandmarkerResult, direction: string) => {
@@ -216,38 +416,21 @@ const WebcamMonitor = ({ isActive, onViolation, onStatusUpdate }: WebcamMonitorP
     ctx.fillText(faceCountText, 20, 75);
   };
 
-  const calculateHeadPose = (result: FaceLandmarkerResult): string => {
-    if (!result.facialTransformationMatrixes || result.facialTransformationMatrixes.length === 0) {
-      return 'Forward';
-    }
-
-    const matrix = result.facialTransformationMatrixes[0].data;
-    
-    // Extract rotation angles from transformation matrix
-    const rotationY = Math.atan2(matrix[8], matrix[10]);
-    const rotationYDegrees = rotationY * (180 / Math.PI);
-
-    // Determine direction based on Y-axis rotation
-    if (rotationYDegrees < -20) {
-      return 'Left';
-    } else if (rotationYDegrees > 20) {
-      return 'Right';
-    } else {
-      return 'Forward';
-    }
-  };
-
-  const analyzeFrame = async () => {
-    if (!videoRef.current || !canvasRef.current || !faceLandmarker) return;
+  /**
+   * Analyses one frame
+   * @returns Whether anything suspicious was seen, so the next frame comes sooner
+   */
+  const analyzeFrame = async (): Promise<boolean> => {
+    if (!videoRef.current || !canvasRef.current || !tracker) return false;
 
     const video = videoRef.current;
     
     // Check if video is ready
-    if (video.readyState !== video.HAVE_ENOUGH_DATA) return;
+    if (video.readyState !== video.HAVE_ENOUGH_DATA) return false;
 
     try {
-      const startTimeMs = performance.now();
-      const result = faceLandmarker.detectForVideo(video, startTimeMs);
+      const result = await tracker.detectFaces(video);
+      if (!result) return false;
 
       const currentTime = Date.now();
       const facesDetected = result.faceLandmarks.length;
@@ -255,64 +438,86 @@ const WebcamMonitor = ({ isActive, onViolation, onStatusUpdate }: WebcamMonitorP
       // Update people count
       setPeopleCount(facesDetected);
 
-      // Determine face direction for the first detected face
+      // Determine gaze for the first detected face, relative to the calibrated pose
       let direction = 'Forward';
       let isLookingAway = false;
+      let gazeDetails = {};
 
       if (facesDetected > 0) {
-        direction = calculateHeadPose(result);
+        const gaze = evaluateGaze(
+          buildGazeSample(
+            result.facialTransformationMatrixes?.[0]?.data,
+            result.faceLandmarks[0],
+            result.faceBlendshapes?.[0]?.categories
+          ),
+          baselineRef.current ?? computeBaseline([])
+        );
+        direction = gaze.direction;
         isLookingAway = direction !== 'Forward';
+        gazeDetails = { direction, horizontal: gaze.horizontal, vertical: gaze.vertical };
         setFaceDirection(direction);
       }
 
-      // Draw landmarks overlay
-      drawLandmarks(canvasRef.current, result, direction);
+      if (showOverlayRef.current) {
+        drawLandmarks(canvasRef.current, result, direction);
+      } else {
+        canvasRef.current.getContext('2d')?.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
+      }
 
-      // Check for violations with debouncing (only trigger if consistent for 2 checks)
-      const timeSinceLastCheck = currentTime - lastDetectionRef.current.timestamp;
+      // Check for violations with debouncing (only trigger once the problem has persisted)
+      const problems = {
+        multiple_people: facesDetected > 1,
+        no_face: facesDetected === 0,
+        looking_away: facesDetected === 1 && isLookingAway,
+      };
+      const confirmed = (type: keyof typeof problems) => {
+        if (!problems[type]) {
+          delete suspectSinceRef.current[type];
+          return false;
+        }
+        const since = suspectSinceRef.current[type] ?? currentTime;
+        if (currentTime - since < CONFIRM_MS) {
+          suspectSinceRef.current[type] = since;
+          return false;
+        }
+        // Start a new run so a lasting problem is reported once per CONFIRM_MS, not every frame
+        suspectSinceRef.current[type] = currentTime;
+        return true;
+      };
       
       // Multiple people violation
-      if (facesDetected > 1 && lastDetectionRef.current.faces > 1) {
+      if (confirmed('multiple_people')) {
         const violation: Detection = {
           timestamp: currentTime,
           type: 'multiple_people',
           details: { count: facesDetected }
         };
         setViolations(prev => [...prev, violation]);
-        onViolation('multiple_people', { count: facesDetected });
+        onViolation('multiple_people', { count: facesDetected }, await captureEvidence(video, result.faceLandmarks));
       }
 
       // No face detected violation
-      if (facesDetected === 0 && lastDetectionRef.current.faces === 0) {
+      if (confirmed('no_face')) {
         const violation: Detection = {
           timestamp: currentTime,
           type: 'no_face',
           details: {}
         };
         setViolations(prev => [...prev, violation]);
-        onViolation('no_face');
+        onViolation('no_face', undefined, await captureEvidence(video));
       }
 
       // Looking away violation
-      if (facesDetected === 1 && isLookingAway && 
-          lastDetectionRef.current.direction !== 'Forward' && 
-          timeSinceLastCheck > 1000) {
+      if (confirmed('looking_away')) {
         const violation: Detection = {
           timestamp: currentTime,
           type: 'looking_away',
-          details: { direction }
+          details: gazeDetails
         };
         setViolations(prev => [...prev, violation]);
-        onViolation('looking_away', { direction });
+        onViolation('looking_away', gazeDetails, await captureEvidence(video, result.faceLandmarks));
       }
 
-      // Update last detection
-      lastDetectionRef.current = {
-        faces: facesDetected,
-        direction,
-        timestamp: currentTime
-      };
-
       // Update status
       onStatusUpdate({
         peopleCount: facesDetected,
@@ -320,8 +525,10 @@ const WebcamMonitor = ({ isActive, onViolation, onStatusUpdate }: WebcamMonitorP
         isLookingAway
       });
 
+      return Object.values(problems).some(Boolean);
     } catch (err) {
       console.error('Error analyzing frame:', err);
+      return false;
     }
   };
 
@@ -366,6 +573,14 @@ const WebcamMonitor = ({ isActive, onViolation, onStatusUpdate }: WebcamMonitorP
           className="absolute top-0 left-0 w-full h-full pointer-events-none"
         />
 
+        {calibrationProgress !== null && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 bg-background/70">
+            <Crosshair className="h-8 w-8 text-primary" />
+            <p className="text-sm font-medium">Calibrating: look at the center of the screen and hold still</p>
+            <Progress value={calibrationProgress} className="h-2 w-48" />
+          </div>
+        )}
+
       </div>
 
       {/* Monitoring status */}
@@ -393,11 +608,41 @@ const WebcamMonitor = ({ isActive, onViolation, onStatusUpdate }: WebcamMonitorP
             </span>
           </div>
 
+          {objectScanSeconds > 0 && (
+            <div className="flex items-center gap-2">
+              <Smartphone className="h-4 w-4" />
+              <span className={`text-sm font-medium ${sightings.length > 0 ? 'text-destructive' : 'text-green-500'}`}>
+                {sightings.length > 0 ? describeSightings(sightings) : 'No prohibited objects'}
+              </span>
+            </div>
+          )}
+
+          {tracker && !tracker.inWorker && (
+            <Badge variant="outline" title={tracker.fallbackReason ?? undefined}>
+              Analyzing on main thread
+            </Badge>
+          )}
+
           {violations.length > 0 && (
             <Badge variant="destructive" className="ml-auto">
               {violations.length} violations
             </Badge>
           )}
+
+          <div className={`flex items-center gap-2 ${violations.length > 0 ? '' : 'ml-auto'}`}>
+            <Switch id="face-mesh-overlay" checked={showOverlay} onCheckedChange={setShowOverlay} />
+            <Label htmlFor="face-mesh-overlay" className="text-sm">Show face mesh</Label>
+          </div>
+
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={calibrationProgress !== null}
+            onClick={startMonitoring}
+          >
+            <Crosshair className="h-4 w-4 mr-2" />
+            Recalibrate
+          </Button>
         </div>
       )}
 
@@ -412,7 +657,12 @@ const WebcamMonitor = ({ isActive, onViolation, onStatusUpdate }: WebcamMonitorP
                 {violation.type === 'multiple_people' && 
                   `Multiple people detected (${violation.details?.count})`}
                 {violation.type === 'no_face' && 'No person detected in frame'}
-                {violation.type === 'looking_away' && 'Looking away from screen'}
+                {violation.type === 'identity_mismatch' &&
+                  'Face does not match the enrolled student'}
+                {violation.type === 'prohibited_object' &&
+                  `Prohibited object: ${violation.details?.description}`}
+                {violation.type === 'looking_away' &&
+                  `Looking away from screen (${String(violation.details?.direction || 'away').toLowerCase()})`}
                 <span className="ml-2 text-muted-foreground">
                   {new Date(violation.timestamp).toLocaleTimeString()}
                 </span>
@@ -1,6 +1,9 @@
 import { createContext, useContext, ReactNode, useState, useEffect } from "react";
 import { useToast } from "@/components/ui/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { mapQuestionFromDb, mapQuestionToDb } from "@/utils/questionMapping";
+import { normalizePolicy, type ProctoringPolicy } from "@/proctoring";
 
 // UI-compatible Question interface (supports all UI question types)
 export interface Question {
@@ -12,6 +15,8 @@ export interface Question {
   marks: number;
   answerHint?: string;
   imagePrompt?: string;
+  // Object path of an optional diagram in the question-images bucket
+  imagePath?: string;
   codingLanguage?: string;
   starterCode?: string;
   expectedOutput?: string;
@@ -19,7 +24,13 @@ export interface Question {
     input: string;
     expectedOutput: string;
     description?: string;
+    // Shown to students so they can check their code; the others stay hidden
+    sample?: boolean;
   }>;
+  // Question bank entry this question was taken from
+  bankQuestionId?: string;
+  // Linked questions follow later edits to the bank entry instead of being a copy
+  bankLinked?: boolean;
 }
 
 export interface Test {
@@ -37,6 +48,13 @@ export interface Test {
   passingMarks?: number;
   enableMonitoring?: boolean;
   testType?: "mcq" | "descriptive" | "mixed";
+  questionCount?: number;
+  startTime?: Date;
+  endTime?: Date;
+  warningThreshold?: number;
+  proctoringPolicy?: ProctoringPolicy;
+  // Days webcam evidence is kept before it expires
+  evidenceRetentionDays?: number;
 }
 
 interface TestContextType {
@@ -52,28 +70,6 @@ interface TestContextType {
 
 const TestContext = createContext<TestContextType | undefined>(undefined);
 
-// Map database question type to UI type
-const mapDbTypeToUiType = (dbType: string): Question["type"] => {
-  const typeMap: Record<string, Question["type"]> = {
-    "mcq": "mcq",
-    "truefalse": "truefalse",
-    "short": "short",
-    "descriptive": "long",
-    "image": "image"
-  };
-  return typeMap[dbType] || "mcq";
-};
-
-// Map UI type to database type
-const mapUiTypeToDbType = (uiType: string): "mcq" | "truefalse" | "short" | "descriptive" | "image" => {
-  if (uiType === "mcq") return "mcq";
-  if (uiType === "truefalse") return "truefalse";
-  if (uiType === "short" || uiType === "coding") return "short";
-  if (uiType === "essay" || uiType === "long" || uiType === "descriptive") return "descriptive";
-  if (uiType === "image") return "image";
-  return "mcq";
-};
-
 export function TestProvider({ children }: { children: ReactNode }) {
   const [tests, setTests] = useState<Test[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -97,6 +93,12 @@ export function TestProvider({ children }: { children: ReactNode }) {
         return;
       }
 
+      // Students cannot read questions directly, so counts come from a view
+      const { data: countsData } = await supabase
+        .from("test_question_counts")
+        .select("test_id, question_count");
+      const questionCounts = new Map((countsData || []).map((row) => [row.test_id, row.question_count]));
+
       const mappedTests: Test[] = (testsData || []).map((test: any) => ({
         id: test.id,
         title: test.title,
@@ -111,16 +113,15 @@ export function TestProvider({ children }: { children: ReactNode }) {
         passingMarks: test.passing_marks,
         enableMonitoring: test.enable_monitoring,
         testType: test.test_type,
+        startTime: test.start_time ? new Date(test.start_time) : undefined,
+        endTime: test.end_time ? new Date(test.end_time) : undefined,
+        warningThreshold: test.warning_threshold,
+        proctoringPolicy: normalizePolicy(test.proctoring_policy, test.warning_threshold),
+        evidenceRetentionDays: test.evidence_retention_days,
+        questionCount: questionCounts.get(test.id) ?? (test.questions || []).length,
         questions: (test.questions || [])
           .sort((a: any, b: any) => a.order_number - b.order_number)
-          .map((q: any) => ({
-            id: q.id,
-            type: mapDbTypeToUiType(q.question_type),
-            text: q.question_text,
-            options: q.options || [],
-            correctAnswer: q.correct_answer,
-            marks: q.marks,
-          })),
+          .map(mapQuestionFromDb),
       }));
 
       setTests(mappedTests);
@@ -165,6 +166,11 @@ export function TestProvider({ children }: { children: ReactNode }) {
           passing_marks: test.passingMarks || Math.floor(totalMarks * 0.4),
           enable_monitoring: test.enableMonitoring ?? true,
           test_type: test.testType || "mixed",
+          start_time: test.startTime ? test.startTime.toISOString() : null,
+          end_time: test.endTime ? test.endTime.toISOString() : null,
+          proctoring_policy: test.proctoringPolicy ? (test.proctoringPolicy as unknown as Json) : null,
+          warning_threshold: test.proctoringPolicy?.scoreThreshold ?? test.warningThreshold ?? 3,
+          evidence_retention_days: test.evidenceRetentionDays ?? 30,
         })
         .select()
         .single();
@@ -180,17 +186,7 @@ export function TestProvider({ children }: { children: ReactNode }) {
       }
 
       if (test.questions.length > 0) {
-        const questionsToInsert = test.questions.map((q, index) => ({
-          test_id: newTest.id,
-          question_text: q.text,
-          question_type: mapUiTypeToDbType(q.type),
-          options: q.options || null,
-          correct_answer: typeof q.correctAnswer === 'boolean' 
-            ? String(q.correctAnswer) 
-            : (q.correctAnswer || null),
-          marks: q.marks,
-          order_number: index + 1,
-        }));
+        const questionsToInsert = test.questions.map((q, index) => mapQuestionToDb(q, newTest.id, index + 1));
 
         const { error: questionsError } = await supabase
           .from("questions")
@@ -236,6 +232,15 @@ export function TestProvider({ children }: { children: ReactNode }) {
       if (updatedFields.description !== undefined) updateData.description = updatedFields.description;
       if (updatedFields.enableMonitoring !== undefined) updateData.enable_monitoring = updatedFields.enableMonitoring;
       if (updatedFields.testType) updateData.test_type = updatedFields.testType;
+      if (updatedFields.startTime !== undefined) updateData.start_time = updatedFields.startTime ? updatedFields.startTime.toISOString() : null;
+      if (updatedFields.endTime !== undefined) updateData.end_time = updatedFields.endTime ? updatedFields.endTime.toISOString() : null;
+      if (updatedFields.proctoringPolicy) {
+        updateData.proctoring_policy = updatedFields.proctoringPolicy;
+        updateData.warning_threshold = updatedFields.proctoringPolicy.scoreThreshold;
+      } else if (updatedFields.warningThreshold !== undefined) {
+        updateData.warning_threshold = updatedFields.warningThreshold;
+      }
+      if (updatedFields.evidenceRetentionDays !== undefined) updateData.evidence_retention_days = updatedFields.evidenceRetentionDays;
 
       if (Object.keys(updateData).length > 0) {
         const { error: updateError } = await supabase
@@ -257,17 +262,7 @@ export function TestProvider({ children }: { children: ReactNode }) {
       if (updatedFields.questions) {
         await supabase.from("questions").delete().eq("test_id", id);
 
-        const questionsToInsert = updatedFields.questions.map((q, index) => ({
-          test_id: id,
-          question_text: q.text,
-          question_type: mapUiTypeToDbType(q.type),
-          options: q.options || null,
-          correct_answer: typeof q.correctAnswer === 'boolean' 
-            ? String(q.correctAnswer) 
-            : (q.correctAnswer || null),
-          marks: q.marks,
-          order_number: index + 1,
-        }));
+        const questionsToInsert = updatedFields.questions.map((q, index) => mapQuestionToDb(q, id, index + 1));
 
         const { error: questionsError } = await supabase
           .from("questions")
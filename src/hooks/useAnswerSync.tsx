@@ -0,0 +1,158 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { answerOutbox } from '@/utils/answerOutbox';
+import type { AnswerWriteResult, SubmitAnswerData } from '@/hooks/useTestSubmission';
+
+export type AnswerSyncStatus = 'saved' | 'pending' | 'offline' | 'rejected';
+
+interface UseAnswerSyncProps {
+  sessionId: string | null;
+  submitAnswer: (data: SubmitAnswerData) => Promise<AnswerWriteResult>;
+}
+
+const MIN_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+// Sync rounds tried before a final submission gives up and asks the student to retry
+const FLUSH_ATTEMPTS = 3;
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+/**
+ * Delivers journaled answers to the server in the background, retrying with
+ * backoff while the network is down. Answers queued before a reload are
+ * picked up again as soon as the session is known.
+ */
+export const useAnswerSync = ({ sessionId, submitAnswer }: UseAnswerSyncProps) => {
+  const submitAnswerRef = useRef(submitAnswer);
+  const syncRef = useRef<Promise<boolean> | null>(null);
+  const retryTimeoutRef = useRef<number>();
+  const failuresRef = useRef(0);
+  const [pendingCount, setPendingCount] = useState(0);
+  // Answers the server refused for good, e.g. after the deadline; they stay on the device
+  const [rejectedCount, setRejectedCount] = useState(0);
+  const [online, setOnline] = useState(isOnline);
+
+  submitAnswerRef.current = submitAnswer;
+
+  const updateCounts = useCallback(async (): Promise<number> => {
+    if (!sessionId) return 0;
+    const entries = await answerOutbox.pending(sessionId);
+    const rejected = entries.filter((entry) => entry.rejected).length;
+    setRejectedCount(rejected);
+    setPendingCount(entries.length - rejected);
+    return entries.length - rejected;
+  }, [sessionId]);
+
+  // One pass over the outbox; resolves true once nothing deliverable is left
+  const runSync = useCallback(async (): Promise<boolean> => {
+    if (!sessionId) return false;
+
+    const entries = await answerOutbox.pending(sessionId);
+    for (const entry of entries) {
+      if (entry.rejected) continue;
+
+      const result = await submitAnswerRef.current({
+        sessionId,
+        questionId: entry.questionId,
+        answer: entry.answer,
+        revision: entry.revision,
+      });
+
+      if (result === 'retry') break;
+      if (result === 'rejected') {
+        console.error(`Answer to question ${entry.questionId} was rejected by the server; keeping it on the device`);
+        await answerOutbox.markRejected(entry);
+      } else {
+        await answerOutbox.remove(entry);
+      }
+    }
+
+    return (await updateCounts()) === 0;
+  }, [sessionId, updateCounts]);
+
+  const sync = useCallback((): Promise<boolean> => {
+    window.clearTimeout(retryTimeoutRef.current);
+
+    // Queue behind a pass that is already running so every answer is seen
+    const previous = syncRef.current ?? Promise.resolve(true);
+    const next = previous
+      .then(runSync)
+      .catch((error) => {
+        console.error('Answer sync failed:', error);
+        return false;
+      })
+      .then((done) => {
+        if (syncRef.current === next) syncRef.current = null;
+        if (done) {
+          failuresRef.current = 0;
+        } else if (isOnline()) {
+          const delay = Math.min(MAX_RETRY_MS, MIN_RETRY_MS * 2 ** failuresRef.current);
+          failuresRef.current += 1;
+          retryTimeoutRef.current = window.setTimeout(sync, delay);
+        }
+        return done;
+      });
+
+    syncRef.current = next;
+    return next;
+  }, [runSync]);
+
+  const queueAnswer = useCallback(
+    async (questionId: string, answer: string | null) => {
+      if (!sessionId) return;
+      try {
+        await answerOutbox.put(sessionId, questionId, answer);
+        await updateCounts();
+      } catch (error) {
+        console.error('Error journaling answer:', error);
+        return;
+      }
+      if (isOnline()) sync();
+    },
+    [sessionId, sync, updateCounts]
+  );
+
+  /**
+   * Replays everything still queued, for the final submission
+   * @returns false if answers could not be delivered; refused answers don't hold up submission
+   */
+  const flush = useCallback(async () => {
+    for (let attempt = 0; attempt < FLUSH_ATTEMPTS; attempt++) {
+      if (await sync()) return true;
+      await new Promise((resolve) => setTimeout(resolve, MIN_RETRY_MS * (attempt + 1)));
+    }
+    return false;
+  }, [sync]);
+
+  // Deliver whatever a previous page load left behind
+  useEffect(() => {
+    if (!sessionId) return;
+    sync();
+    return () => window.clearTimeout(retryTimeoutRef.current);
+  }, [sessionId, sync]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      failuresRef.current = 0;
+      sync();
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [sync]);
+
+  const status: AnswerSyncStatus = !online
+    ? 'offline'
+    : rejectedCount > 0
+      ? 'rejected'
+      : pendingCount > 0
+        ? 'pending'
+        : 'saved';
+
+  return { status, pendingCount, rejectedCount, queueAnswer, flush };
+};
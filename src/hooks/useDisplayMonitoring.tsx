@@ -0,0 +1,37 @@
+import { useEffect, useRef, useState } from 'react';
+import { watchDisplays, type DisplayStatus } from '@/proctoring';
+
+interface UseDisplayMonitoringProps {
+  isActive: boolean;
+  // Called each time a second display appears, not on every re-check while it stays connected
+  onViolation: (type: 'secondary_display', details: { displays: number | null }) => void;
+}
+
+export const useDisplayMonitoring = ({ isActive, onViolation }: UseDisplayMonitoringProps) => {
+  const onViolationRef = useRef(onViolation);
+  const [status, setStatus] = useState<DisplayStatus | null>(null);
+  // Outlives restarts of the watcher, so pausing and resuming monitoring doesn't
+  // report a display that was already connected (and reported) as a new one
+  const wasExtendedRef = useRef(false);
+
+  onViolationRef.current = onViolation;
+
+  useEffect(() => {
+    if (!isActive) return;
+
+    const stop = watchDisplays((next) => {
+      setStatus(next);
+      if (next.extended && !wasExtendedRef.current) {
+        onViolationRef.current('secondary_display', { displays: next.count });
+      }
+      wasExtendedRef.current = next.extended;
+    });
+
+    return () => {
+      stop();
+      setStatus(null);
+    };
+  }, [isActive]);
+
+  return status;
+};
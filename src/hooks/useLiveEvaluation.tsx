@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/components/ui/use-toast';
 
@@ -34,6 +34,10 @@ export const useLiveEvaluation = (testId: string) => {
   const [sessions, setSessions] = useState<LiveSession[]>([]);
   const [answers, setAnswers] = useState<LiveAnswer[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  // The answers channel isn't filtered by test, so inserts are matched against these sessions
+  const sessionIdsRef = useRef(new Set<string>());
+
+  sessionIdsRef.current = new Set(sessions.map(s => s.id));
 
   // Fetch initial data
   const fetchData = useCallback(async () => {
@@ -172,7 +176,9 @@ export const useLiveEvaluation = (testId: string) => {
           console.log('Answer change:', payload);
           
           if (payload.eventType === 'INSERT') {
-            setAnswers(prev => [...prev, payload.new as LiveAnswer]);
+            const answer = payload.new as LiveAnswer;
+            if (!sessionIdsRef.current.has(answer.session_id)) return;
+            setAnswers(prev => (prev.some(a => a.id === answer.id) ? prev : [...prev, answer]));
           } else if (payload.eventType === 'UPDATE') {
             setAnswers(prev =>
               prev.map(a =>
@@ -222,7 +228,7 @@ export const useLiveEvaluation = (testId: string) => {
     };
   }, [sessions, answers]);
 
-  // Grade an answer
+  // Grade an answer; the session's test_results row is recomputed by a database trigger
   const gradeAnswer = useCallback(
     async (answerId: string, marks: number, graderId: string) => {
       try {
@@ -0,0 +1,30 @@
+import { useEffect, useRef } from 'react';
+import { Lockdown, type LockdownListener, type LockdownSettings } from '@/proctoring';
+
+interface UseLockdownProps {
+  isActive: boolean;
+  settings: LockdownSettings;
+  // Watch the window size for a docked devtools panel
+  detectDevtools: boolean;
+  onEvent: LockdownListener;
+}
+
+export const useLockdown = ({ isActive, settings, detectDevtools, onEvent }: UseLockdownProps) => {
+  const onEventRef = useRef(onEvent);
+  const { blockCopy, paste, blockSelection, blockPrint, blockContextMenu, blockShortcuts } = settings;
+
+  onEventRef.current = onEvent;
+
+  // Restarting on a settings change is cheap: it only re-adds listeners
+  useEffect(() => {
+    if (!isActive) return;
+
+    const lockdown = new Lockdown(
+      { blockCopy, paste, blockSelection, blockPrint, blockContextMenu, blockShortcuts, detectDevtools },
+      (type, data) => onEventRef.current(type, data)
+    );
+    lockdown.start();
+
+    return () => lockdown.stop();
+  }, [isActive, blockCopy, paste, blockSelection, blockPrint, blockContextMenu, blockShortcuts, detectDevtools]);
+};
@@ -0,0 +1,76 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { MonitoringLog } from "@/hooks/useRealtimeTestSessions";
+
+// A session logs a few hundred events at most; this keeps a runaway one bounded
+const MAX_LOGS = 2000;
+
+/**
+ * Full chronological monitoring log for one session, kept live while open
+ */
+export function useMonitoringLogs(sessionId: string | null) {
+  const [logs, setLogs] = useState<MonitoringLog[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchLogs = useCallback(async () => {
+    if (!sessionId) {
+      setLogs([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("monitoring_logs")
+        .select("*")
+        .eq("session_id", sessionId)
+        .order("timestamp", { ascending: true })
+        .limit(MAX_LOGS);
+
+      if (error) {
+        console.error("Error fetching monitoring logs:", error);
+        return;
+      }
+
+      setLogs(data || []);
+    } catch (error) {
+      console.error("Error:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    fetchLogs();
+  }, [fetchLogs]);
+
+  // Events from a session still in progress arrive in batches
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const channel = supabase
+      .channel(`monitoring-logs-session-${sessionId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "monitoring_logs",
+          filter: `session_id=eq.${sessionId}`,
+        },
+        (payload) => {
+          const newLog = payload.new as MonitoringLog;
+          setLogs((prev) =>
+            [...prev, newLog].sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId]);
+
+  return { logs, isLoading, refetch: fetchLogs };
+}
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useRef } from 'react';
+import {
+  MonitoringLogWriter,
+  ProctoringEventBus,
+  type ProctoringEventData,
+  type ProctoringEventListener,
+  type ProctoringEventType,
+} from '@/proctoring';
+
+/**
+ * Event stream for one test session, persisted to monitoring_logs while a session id is known
+ */
+export const useProctoringEvents = (sessionId: string | null) => {
+  const busRef = useRef(new ProctoringEventBus());
+  const writerRef = useRef<MonitoringLogWriter | null>(null);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const writer = new MonitoringLogWriter(sessionId);
+    writer.attach(busRef.current);
+    writerRef.current = writer;
+
+    // Get queued events out before the page goes away or into the background
+    const handlePageHide = () => {
+      writer.flush();
+    };
+    const handleVisibilityChange = () => {
+      if (document.hidden) writer.flush();
+    };
+    window.addEventListener('pagehide', handlePageHide);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      writer.detach();
+      writerRef.current = null;
+    };
+  }, [sessionId]);
+
+  const publish = useCallback((type: ProctoringEventType, data?: ProctoringEventData, evidence?: Blob) => {
+    busRef.current.publish(type, data, evidence);
+  }, []);
+
+  const subscribe = useCallback((listener: ProctoringEventListener) => {
+    return busRef.current.subscribe(listener);
+  }, []);
+
+  const flush = useCallback(async () => {
+    await writerRef.current?.flush();
+  }, []);
+
+  return { publish, subscribe, flush };
+};
@@ -0,0 +1,150 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  ACTION_LABELS,
+  ProctoringPolicyEngine,
+  type PolicyDecision,
+  type ProctoringPolicy,
+  type ViolationType,
+} from '@/proctoring';
+
+type ViolationDetails = Record<string, unknown>;
+
+interface UseProctoringPolicyOptions {
+  policy: ProctoringPolicy;
+  onDecision?: (decision: PolicyDecision, details?: ViolationDetails) => void;
+  onFlag?: (decision: PolicyDecision) => void;
+  onPause?: (decision: PolicyDecision) => void;
+  onTerminate?: (decision: PolicyDecision) => void;
+}
+
+const describeViolation = (type: ViolationType, details?: ViolationDetails) => {
+  switch (type) {
+    case 'tab_switch':
+      return 'Please stay on this tab during the test.';
+    case 'window_blur':
+      return 'Please keep the test window focused.';
+    case 'fullscreen_exit':
+      return 'Please return to fullscreen mode immediately.';
+    case 'face_not_detected':
+      return 'Your face is not visible. Please face the camera.';
+    case 'multiple_faces':
+      return `${details?.count || 'Multiple'} people detected. You should be alone during the test.`;
+    case 'face_away':
+      return `You appear to be looking ${String(details?.direction || 'away').toLowerCase()}. Please look at the screen.`;
+    case 'speech_detected':
+      return details?.multipleSpeakers
+        ? 'A conversation was detected. Talking is not allowed during the test.'
+        : 'Talking was detected. Please stay silent during the test.';
+    case 'prohibited_object':
+      return `${details?.description || 'A prohibited object'} detected. Please put it away.`;
+    case 'identity_mismatch':
+      return 'The person at the camera does not match the enrolled student. This has been reported.';
+    case 'screen_share_stopped':
+      return 'Screen sharing stopped. Please share your entire screen again to continue.';
+    case 'secondary_display':
+      return `${details?.displays || 'More than one'} displays detected. Please disconnect any extra monitors.`;
+    case 'devtools_opened':
+      return 'Developer tools were opened. Please close them and return to the test.';
+  }
+};
+
+export const useProctoringPolicy = ({
+  policy,
+  onDecision,
+  onFlag,
+  onPause,
+  onTerminate,
+}: UseProctoringPolicyOptions) => {
+  const { toast } = useToast();
+  const engineRef = useRef(new ProctoringPolicyEngine(policy));
+  const [counts, setCounts] = useState<Partial<Record<ViolationType, number>>>({});
+  const [score, setScore] = useState(0);
+  const [isFlagged, setIsFlagged] = useState(false);
+  const [pausedUntil, setPausedUntil] = useState<number | null>(null);
+
+  // Handlers change every render in the caller; read them through a ref so
+  // reportViolation stays stable for the monitoring sources that hold it
+  const handlersRef = useRef({ onDecision, onFlag, onPause, onTerminate });
+  handlersRef.current = { onDecision, onFlag, onPause, onTerminate };
+
+  useEffect(() => {
+    engineRef.current.setPolicy(policy);
+  }, [policy]);
+
+  // Lift the pause once it runs out
+  useEffect(() => {
+    if (pausedUntil === null) return;
+    const timeout = setTimeout(() => setPausedUntil(null), Math.max(0, pausedUntil - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [pausedUntil]);
+
+  const reportViolation = useCallback((type: ViolationType, details?: ViolationDetails) => {
+    const engine = engineRef.current;
+    const decision = engine.record(type);
+    if (!decision) return null;
+
+    setCounts(prev => ({ ...prev, [type]: decision.count }));
+    setScore(decision.score);
+
+    const rule = policy.rules[type];
+    const handlers = handlersRef.current;
+    handlers.onDecision?.(decision, details);
+
+    switch (decision.action) {
+      case 'warn':
+        toast({
+          title: `Warning ${decision.count}/${rule.warnings}`,
+          description: decision.warningsLeft === 0
+            ? `${describeViolation(type, details)} Next time: ${ACTION_LABELS[rule.action].toLowerCase()}.`
+            : describeViolation(type, details),
+          variant: 'destructive',
+        });
+        break;
+      case 'flag':
+        setIsFlagged(true);
+        toast({
+          title: 'Flagged for Review',
+          description: `${describeViolation(type, details)} Your session has been flagged for your instructor.`,
+          variant: 'destructive',
+        });
+        handlers.onFlag?.(decision);
+        break;
+      case 'pause':
+        setPausedUntil(Date.now() + policy.pauseSeconds * 1000);
+        toast({
+          title: 'Test Paused',
+          description: `${describeViolation(type, details)} The test is locked for ${policy.pauseSeconds} seconds.`,
+          variant: 'destructive',
+        });
+        handlers.onPause?.(decision);
+        break;
+      case 'terminate':
+        handlers.onTerminate?.(decision);
+        break;
+    }
+
+    return decision;
+  }, [policy, toast]);
+
+  const reset = useCallback(() => {
+    engineRef.current.reset();
+    setCounts({});
+    setScore(0);
+    setIsFlagged(false);
+    setPausedUntil(null);
+  }, []);
+
+  const violationCount = Object.values(counts).reduce((sum, count) => sum + (count || 0), 0);
+
+  return {
+    reportViolation,
+    reset,
+    counts,
+    score,
+    violationCount,
+    isFlagged,
+    isPaused: pausedUntil !== null,
+    pausedUntil,
+  };
+};
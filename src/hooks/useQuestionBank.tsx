@@ -0,0 +1,94 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import type { BankQuestionRow } from "@/utils/questionMapping";
+
+export type BankQuestionUsage = Database["public"]["Views"]["bank_question_usage"]["Row"];
+
+export interface QuestionBankFilters {
+  // Free text in web search syntax: words, "quoted phrases", -excluded
+  query: string;
+  subject?: string;
+  difficulty?: string;
+  bloomLevel?: string;
+}
+
+// Enough to browse; narrowing the search is faster than paging
+const MAX_RESULTS = 50;
+
+/**
+ * Searches the shared question bank and reports which tests used each result
+ */
+export function useQuestionBank({ query, subject, difficulty, bloomLevel }: QuestionBankFilters) {
+  const [questions, setQuestions] = useState<BankQuestionRow[]>([]);
+  const [usage, setUsage] = useState<Record<string, BankQuestionUsage[]>>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchQuestions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      let request = supabase.from("bank_questions").select("*");
+      if (query.trim()) {
+        request = request.textSearch("search", query.trim(), { type: "websearch", config: "english" });
+      }
+      if (subject) request = request.eq("subject", subject);
+      if (difficulty) request = request.eq("difficulty", difficulty);
+      if (bloomLevel) request = request.eq("bloom_level", bloomLevel);
+
+      const { data, error } = await request.order("updated_at", { ascending: false }).limit(MAX_RESULTS);
+      if (error) {
+        console.error("Error searching question bank:", error);
+        return;
+      }
+
+      const rows = data || [];
+      setQuestions(rows);
+
+      if (rows.length === 0) {
+        setUsage({});
+        return;
+      }
+
+      const { data: usageRows, error: usageError } = await supabase
+        .from("bank_question_usage")
+        .select("*")
+        .in("bank_question_id", rows.map((row) => row.id))
+        .order("created_at", { ascending: false });
+
+      if (usageError) {
+        console.error("Error fetching question bank usage:", usageError);
+        return;
+      }
+
+      const byQuestion: Record<string, BankQuestionUsage[]> = {};
+      for (const row of usageRows || []) {
+        if (!row.bank_question_id) continue;
+        const tests = byQuestion[row.bank_question_id] ?? [];
+        // A test that includes the question twice still counts once
+        if (!tests.some((test) => test.test_id === row.test_id)) tests.push(row);
+        byQuestion[row.bank_question_id] = tests;
+      }
+      setUsage(byQuestion);
+    } catch (error) {
+      console.error("Error:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [query, subject, difficulty, bloomLevel]);
+
+  useEffect(() => {
+    fetchQuestions();
+  }, [fetchQuestions]);
+
+  // Tests keep their copies; linked questions turn into plain copies
+  const deleteQuestion = useCallback(
+    async (id: string) => {
+      const { error } = await supabase.from("bank_questions").delete().eq("id", id);
+      if (error) throw error;
+      await fetchQuestions();
+    },
+    [fetchQuestions]
+  );
+
+  return { questions, usage, isLoading, refetch: fetchQuestions, deleteQuestion };
+}
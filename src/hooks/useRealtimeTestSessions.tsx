@@ -12,6 +12,8 @@ export interface TestSession {
   total_warnings: number;
   tab_switch_count: number;
   fullscreen_exit_count: number;
+  extra_minutes: number;
+  flagged_for_review: boolean;
   created_at: string;
   student_name?: string;
   student_email?: string;
@@ -23,6 +25,7 @@ export interface MonitoringLog {
   event_type: string;
   event_data: any;
   timestamp: string;
+  evidence_path?: string | null;
 }
 
 export function useRealtimeTestSessions(testId: string) {
@@ -36,6 +39,12 @@ export function useRealtimeTestSessions(testId: string) {
     const fetchSessions = async () => {
       setIsLoading(true);
       try {
+        // Close sessions whose time ran out while the student was away
+        const { error: finalizeError } = await supabase.rpc("finalize_overdue_sessions", { _test_id: testId });
+        if (finalizeError) {
+          console.error("Error finalizing overdue sessions:", finalizeError);
+        }
+
         const { data, error } = await supabase
           .from("test_sessions")
           .select(`
@@ -60,6 +69,8 @@ export function useRealtimeTestSessions(testId: string) {
           total_warnings: session.total_warnings,
           tab_switch_count: session.tab_switch_count,
           fullscreen_exit_count: session.fullscreen_exit_count,
+          extra_minutes: session.extra_minutes,
+          flagged_for_review: session.flagged_for_review,
           created_at: session.created_at,
           student_name: session.profiles?.full_name || "Unknown Student",
           student_email: session.profiles?.email || "",
@@ -234,12 +245,37 @@ export function useRealtimeTestSessions(testId: string) {
     });
   };
 
+  // Give a student extra time; their deadline is recomputed on the next resync
+  const grantExtension = async (sessionId: string, minutes: number) => {
+    const session = sessions.find(s => s.id === sessionId);
+    const { error } = await supabase
+      .from("test_sessions")
+      .update({ extra_minutes: (session?.extra_minutes || 0) + minutes })
+      .eq("id", sessionId);
+
+    if (error) {
+      console.error("Error granting extension:", error);
+      toast({
+        title: "Error",
+        description: "Failed to grant extra time",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Extra Time Granted",
+      description: `The student has ${minutes} more minutes`,
+    });
+  };
+
   return {
     sessions,
     monitoringLogs,
     isLoading,
     terminateStudent,
     allowContinue,
+    grantExtension,
     updateSessionStatus,
   };
 }
@@ -3,10 +3,8 @@ import { useState, useEffect, useCallback } from 'react';
 import { useToast } from '@/components/ui/use-toast';
 
 interface TestMonitoringOptions {
-  onFullscreenExit?: () => void;
-  onTabSwitch?: () => void;
-  warningThreshold?: number;
-  autoTerminateOnThreshold?: boolean;
+  // Consequences are decided by the test's proctoring policy, not here
+  onViolation?: (type: 'fullscreen_exit' | 'tab_switch') => void;
 }
 
 export const useTestMonitoring = (options: TestMonitoringOptions = {}) => {
@@ -16,12 +14,7 @@ export const useTestMonitoring = (options: TestMonitoringOptions = {}) => {
   const [tabSwitchCount, setTabSwitchCount] = useState(0);
   const [isMonitoring, setIsMonitoring] = useState(false);
 
-  const {
-    onFullscreenExit,
-    onTabSwitch,
-    warningThreshold = 3,
-    autoTerminateOnThreshold = true
-  } = options;
+  const { onViolation } = options;
 
   // Check if currently in fullscreen
   const checkFullscreenStatus = useCallback(() => {
@@ -86,38 +79,18 @@ export const useTestMonitoring = (options: TestMonitoringOptions = {}) => {
     setIsFullscreen(isCurrentlyFullscreen);
 
     if (!isCurrentlyFullscreen && isMonitoring) {
-      const newWarningCount = warningCount + 1;
-      setWarningCount(newWarningCount);
-
-      toast({
-        title: `Warning ${newWarningCount}/${warningThreshold}`,
-        description: "Please return to fullscreen mode immediately.",
-        variant: "destructive",
-      });
-
-      if (newWarningCount >= warningThreshold && autoTerminateOnThreshold) {
-        onFullscreenExit?.();
-      }
+      setWarningCount(prev => prev + 1);
+      onViolation?.('fullscreen_exit');
     }
-  }, [checkFullscreenStatus, isMonitoring, warningCount, warningThreshold, autoTerminateOnThreshold, onFullscreenExit, toast]);
+  }, [checkFullscreenStatus, isMonitoring, onViolation]);
 
   // Handle tab visibility change
   const handleVisibilityChange = useCallback(() => {
     if (document.hidden && isMonitoring) {
-      const newTabSwitchCount = tabSwitchCount + 1;
-      setTabSwitchCount(newTabSwitchCount);
-
-      toast({
-        title: `Tab Switch Detected ${newTabSwitchCount}/${warningThreshold}`,
-        description: "Please stay on this tab during the test.",
-        variant: "destructive",
-      });
-
-      if (newTabSwitchCount >= warningThreshold && autoTerminateOnThreshold) {
-        onTabSwitch?.();
-      }
+      setTabSwitchCount(prev => prev + 1);
+      onViolation?.('tab_switch');
     }
-  }, [isMonitoring, tabSwitchCount, warningThreshold, autoTerminateOnThreshold, onTabSwitch, toast]);
+  }, [isMonitoring, onViolation]);
 
   // Start monitoring
   const startMonitoring = useCallback(() => {
@@ -1,13 +1,23 @@
 import { useState, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/components/ui/use-toast';
+import { getTestWindowStatus } from '@/utils/testWindow';
 
-interface SubmitAnswerData {
+export interface SubmitAnswerData {
   sessionId: string;
   questionId: string;
-  answer: string;
+  // null clears the stored answer
+  answer: string | null;
+  // Outbox revision; a retried or late write never overwrites a newer answer
+  revision?: number;
 }
 
+// "retry" covers network and server hiccups; "rejected" writes will never succeed, e.g. after the deadline
+export type AnswerWriteResult = 'saved' | 'retry' | 'rejected';
+
+// check_violation (deadline passed), foreign_key_violation (question removed), insufficient_privilege (RLS)
+const PERMANENT_ERROR_CODES = ['23514', '23503', '42501'];
+
 export const useTestSubmission = () => {
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -28,6 +38,24 @@ export const useTestSubmission = () => {
           return existingSession;
         }
 
+        // New sessions can only start inside the test's availability window;
+        // the database enforces the same rule on insert
+        const { data: test, error: testError } = await supabase
+          .from('tests')
+          .select('start_time, end_time')
+          .eq('id', testId)
+          .single();
+
+        if (testError) throw testError;
+
+        const windowStatus = getTestWindowStatus({ startTime: test.start_time, endTime: test.end_time });
+        if (windowStatus === 'upcoming') {
+          throw new Error(`This test opens at ${new Date(test.start_time).toLocaleString()}`);
+        }
+        if (windowStatus === 'closed') {
+          throw new Error('This test has closed');
+        }
+
         // Create new session
         const { data: newSession, error: createError } = await supabase
           .from('test_sessions')
@@ -54,73 +82,85 @@ export const useTestSubmission = () => {
     []
   );
 
-  // Submit or update an answer
+  // Fetch remaining time from the server-side deadline
+  const getSessionTime = useCallback(
+    async (sessionId: string) => {
+      try {
+        const { data, error } = await supabase.rpc('get_session_time', {
+          _session_id: sessionId,
+        });
+
+        if (error) throw error;
+
+        const row = data?.[0];
+        if (!row || row.remaining_seconds === null) return null;
+
+        return {
+          deadline: new Date(row.deadline),
+          remainingSeconds: row.remaining_seconds,
+        };
+      } catch (error) {
+        console.error('Error fetching session time:', error);
+        return null;
+      }
+    },
+    []
+  );
+
+  // Insert or update an answer
   const submitAnswer = useCallback(
-    async ({ sessionId, questionId, answer }: SubmitAnswerData) => {
+    async ({ sessionId, questionId, answer, revision }: SubmitAnswerData): Promise<AnswerWriteResult> => {
       try {
-        // Check for existing answer
-        const { data: existingAnswer } = await supabase
+        // One row per question; autosave and retries just overwrite it
+        const { error } = await supabase
           .from('answers')
-          .select('id')
-          .eq('session_id', sessionId)
-          .eq('question_id', questionId)
-          .single();
-
-        if (existingAnswer) {
-          // Update existing answer
-          const { error } = await supabase
-            .from('answers')
-            .update({
-              student_answer: answer,
-              updated_at: new Date().toISOString(),
-            })
-            .eq('id', existingAnswer.id);
-
-          if (error) throw error;
-        } else {
-          // Insert new answer
-          const { error } = await supabase
-            .from('answers')
-            .insert({
+          .upsert(
+            {
               session_id: sessionId,
               question_id: questionId,
               student_answer: answer,
-            });
+              client_revision: revision,
+            },
+            { onConflict: 'session_id,question_id' }
+          );
 
-          if (error) throw error;
-        }
+        if (error) throw error;
 
-        return true;
+        return 'saved';
       } catch (error) {
         console.error('Error submitting answer:', error);
-        return false;
+        const code = (error as { code?: string } | null)?.code;
+        return code && PERMANENT_ERROR_CODES.includes(code) ? 'rejected' : 'retry';
       }
     },
     []
   );
 
-  // Submit all answers and complete the test
+  // Complete the test once every answer has been delivered
   const submitTest = useCallback(
     async (
       sessionId: string,
-      answers: Record<string, string>,
+      // Replays the answer outbox; resolves false if answers are still waiting
+      flushAnswers: () => Promise<boolean>,
       forced = false
     ) => {
       setIsSubmitting(true);
 
       try {
-        // Submit all answers
-        const answerPromises = Object.entries(answers).map(([questionId, answer]) =>
-          submitAnswer({
-            sessionId,
-            questionId,
-            answer: String(answer),
-          })
-        );
-
-        await Promise.all(answerPromises);
+        // Finishing the session grades it, so unsent answers would be lost for good
+        if (!(await flushAnswers())) {
+          // A termination is retried by the caller, which shows its own status
+          if (forced) return false;
+          toast({
+            title: 'Answers Not Sent',
+            description: 'You appear to be offline. Your answers are saved on this device; submit again once you are reconnected.',
+            variant: 'destructive',
+          });
+          return false;
+        }
 
-        // Update session status
+        // Update session status; finishing the session auto-grades objective
+        // answers and writes test_results on the server
         const { error: sessionError } = await supabase
           .from('test_sessions')
           .update({
@@ -145,6 +185,7 @@ export const useTestSubmission = () => {
         return true;
       } catch (error) {
         console.error('Error submitting test:', error);
+        if (forced) return false;
         toast({
           title: 'Submission Error',
           description: 'Failed to submit your test. Please try again.',
@@ -155,15 +196,13 @@ export const useTestSubmission = () => {
         setIsSubmitting(false);
       }
     },
-    [submitAnswer, toast]
+    [toast]
   );
 
-  // Update session warnings
+  // Raise the review flag; total_warnings is derived from monitoring_logs on the server
   const updateSessionWarnings = useCallback(
     async (sessionId: string, warningData: {
-      total_warnings?: number;
-      tab_switch_count?: number;
-      fullscreen_exit_count?: number;
+      flagged_for_review?: boolean;
     }) => {
       try {
         const { error } = await supabase
@@ -181,34 +220,12 @@ export const useTestSubmission = () => {
     []
   );
 
-  // Log monitoring event
-  const logMonitoringEvent = useCallback(
-    async (sessionId: string, eventType: string, eventData?: any) => {
-      try {
-        const { error } = await supabase
-          .from('monitoring_logs')
-          .insert({
-            session_id: sessionId,
-            event_type: eventType,
-            event_data: eventData,
-          });
-
-        if (error) throw error;
-        return true;
-      } catch (error) {
-        console.error('Error logging event:', error);
-        return false;
-      }
-    },
-    []
-  );
-
   return {
     isSubmitting,
     getOrCreateSession,
+    getSessionTime,
     submitAnswer,
     submitTest,
     updateSessionWarnings,
-    logMonitoringEvent,
   };
 };
@@ -1,8 +1,9 @@
 import { useState, useCallback, useRef } from 'react';
 import { useToast } from '@/components/ui/use-toast';
+import type { ViolationType } from '@/proctoring';
 
 interface WebcamViolation {
-  type: 'multiple_people' | 'no_face' | 'looking_away';
+  type: 'multiple_people' | 'no_face' | 'looking_away' | 'prohibited_object' | 'identity_mismatch';
   timestamp: number;
   details?: any;
 }
@@ -14,15 +15,21 @@ interface WebcamStatus {
 }
 
 interface UseWebcamMonitoringProps {
-  onViolationThreshold?: (violations: WebcamViolation[]) => void;
-  violationThreshold?: number;
-  warningThreshold?: number;
+  // Consequences are decided by the test's proctoring policy, not here
+  onViolation?: (type: ViolationType, details?: Record<string, unknown>, evidence?: Blob) => void;
 }
 
+// WebcamMonitor's detector names mapped onto the shared violation vocabulary
+const VIOLATION_TYPE_MAP: Record<WebcamViolation['type'], ViolationType> = {
+  multiple_people: 'multiple_faces',
+  no_face: 'face_not_detected',
+  looking_away: 'face_away',
+  prohibited_object: 'prohibited_object',
+  identity_mismatch: 'identity_mismatch',
+};
+
 export const useWebcamMonitoring = ({
-  onViolationThreshold,
-  violationThreshold = 5,
-  warningThreshold = 3
+  onViolation
 }: UseWebcamMonitoringProps = {}) => {
   const { toast } = useToast();
   const [violations, setViolations] = useState<WebcamViolation[]>([]);
@@ -34,7 +41,7 @@ export const useWebcamMonitoring = ({
   const [isMonitoring, setIsMonitoring] = useState(false);
   const violationCooldownRef = useRef<Set<string>>(new Set());
 
-  const addViolation = useCallback((type: WebcamViolation['type'], details?: any) => {
+  const addViolation = useCallback((type: WebcamViolation['type'], details?: any, evidence?: Blob) => {
     const violation: WebcamViolation = {
       type,
       timestamp: Date.now(),
@@ -48,46 +55,9 @@ export const useWebcamMonitoring = ({
     }
     violationCooldownRef.current.add(cooldownKey);
 
-    setViolations(prev => {
-      const newViolations = [...prev, violation];
-      
-      // Show warning toast
-      if (newViolations.length === warningThreshold) {
-        toast({
-          title: "Monitoring Warning",
-          description: `${warningThreshold} violations detected. Test may be terminated if violations continue.`,
-          variant: "destructive",
-        });
-      }
-
-      // Check if threshold reached
-      if (newViolations.length >= violationThreshold) {
-        onViolationThreshold?.(newViolations);
-      }
-
-      return newViolations;
-    });
-
-    // Show specific violation message
-    let message = '';
-    switch (type) {
-      case 'multiple_people':
-        message = `${details?.count || 'Multiple'} people detected in frame`;
-        break;
-      case 'no_face':
-        message = 'No person detected in camera view';
-        break;
-      case 'looking_away':
-        message = 'Looking away from screen detected';
-        break;
-    }
-
-    toast({
-      title: "Monitoring Alert",
-      description: message,
-      variant: "destructive",
-    });
-  }, [toast, violationThreshold, warningThreshold, onViolationThreshold]);
+    setViolations(prev => [...prev, violation]);
+    onViolation?.(VIOLATION_TYPE_MAP[type], details, evidence);
+  }, [onViolation]);
 
   const updateStatus = useCallback((newStatus: WebcamStatus) => {
     setStatus(newStatus);
@@ -138,8 +108,7 @@ export const useWebcamMonitoring = ({
     hasMultiplePeopleViolations: violations.some(v => v.type === 'multiple_people'),
     hasNoFaceViolations: violations.some(v => v.type === 'no_face'),
     hasLookingAwayViolations: violations.some(v => v.type === 'looking_away'),
-    recentViolationCount: getRecentViolations().length,
-    isAtWarningThreshold: violations.length >= warningThreshold,
-    isAtViolationThreshold: violations.length >= violationThreshold
+    hasProhibitedObjectViolations: violations.some(v => v.type === 'prohibited_object'),
+    recentViolationCount: getRecentViolations().length
   };
 };
\ No newline at end of file
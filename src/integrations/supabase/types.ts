@@ -16,6 +16,7 @@ export type Database = {
     Tables: {
       answers: {
         Row: {
+          client_revision: number
           created_at: string
           graded_at: string | null
           graded_by: string | null
@@ -28,6 +29,7 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          client_revision?: number
           created_at?: string
           graded_at?: string | null
           graded_by?: string | null
@@ -40,6 +42,7 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          client_revision?: number
           created_at?: string
           graded_at?: string | null
           graded_by?: string | null
@@ -75,10 +78,129 @@ export type Database = {
           },
         ]
       }
+      bank_questions: {
+        Row: {
+          answer_hint: string | null
+          bloom_level: string | null
+          coding_language: string | null
+          correct_answer: string | null
+          created_at: string
+          created_by: string
+          difficulty: string
+          expected_output: string | null
+          id: string
+          image_prompt: string | null
+          marks: number
+          options: Json | null
+          question_image_url: string | null
+          question_text: string
+          question_type: Database["public"]["Enums"]["question_type"]
+          search: unknown
+          starter_code: string | null
+          subject: string
+          tags: string[]
+          test_cases: Json | null
+          topic: string | null
+          updated_at: string
+        }
+        Insert: {
+          answer_hint?: string | null
+          bloom_level?: string | null
+          coding_language?: string | null
+          correct_answer?: string | null
+          created_at?: string
+          created_by: string
+          difficulty?: string
+          expected_output?: string | null
+          id?: string
+          image_prompt?: string | null
+          marks?: number
+          options?: Json | null
+          question_image_url?: string | null
+          question_text: string
+          question_type: Database["public"]["Enums"]["question_type"]
+          search?: unknown
+          starter_code?: string | null
+          subject: string
+          tags?: string[]
+          test_cases?: Json | null
+          topic?: string | null
+          updated_at?: string
+        }
+        Update: {
+          answer_hint?: string | null
+          bloom_level?: string | null
+          coding_language?: string | null
+          correct_answer?: string | null
+          created_at?: string
+          created_by?: string
+          difficulty?: string
+          expected_output?: string | null
+          id?: string
+          image_prompt?: string | null
+          marks?: number
+          options?: Json | null
+          question_image_url?: string | null
+          question_text?: string
+          question_type?: Database["public"]["Enums"]["question_type"]
+          search?: unknown
+          starter_code?: string | null
+          subject?: string
+          tags?: string[]
+          test_cases?: Json | null
+          topic?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_questions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      face_enrollments: {
+        Row: {
+          created_at: string
+          embedding: number[]
+          model: string
+          profile_id: string
+          reference_path: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          embedding: number[]
+          model: string
+          profile_id: string
+          reference_path?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          embedding?: number[]
+          model?: string
+          profile_id?: string
+          reference_path?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "face_enrollments_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       monitoring_logs: {
         Row: {
           event_data: Json | null
           event_type: string
+          evidence_path: string | null
           id: string
           session_id: string
           timestamp: string
@@ -86,6 +208,7 @@ export type Database = {
         Insert: {
           event_data?: Json | null
           event_type: string
+          evidence_path?: string | null
           id?: string
           session_id: string
           timestamp?: string
@@ -93,6 +216,7 @@ export type Database = {
         Update: {
           event_data?: Json | null
           event_type?: string
+          evidence_path?: string | null
           id?: string
           session_id?: string
           timestamp?: string
@@ -136,42 +260,73 @@ export type Database = {
       }
       questions: {
         Row: {
+          answer_hint: string | null
+          bank_linked: boolean
+          bank_question_id: string | null
+          coding_language: string | null
           correct_answer: string | null
           created_at: string
+          expected_output: string | null
           id: string
+          image_prompt: string | null
           marks: number
           options: Json | null
           order_number: number
           question_image_url: string | null
           question_text: string
           question_type: Database["public"]["Enums"]["question_type"]
+          starter_code: string | null
+          test_cases: Json | null
           test_id: string
         }
         Insert: {
+          answer_hint?: string | null
+          bank_linked?: boolean
+          bank_question_id?: string | null
+          coding_language?: string | null
           correct_answer?: string | null
           created_at?: string
+          expected_output?: string | null
           id?: string
+          image_prompt?: string | null
           marks?: number
           options?: Json | null
           order_number: number
           question_image_url?: string | null
           question_text: string
           question_type: Database["public"]["Enums"]["question_type"]
+          starter_code?: string | null
+          test_cases?: Json | null
           test_id: string
         }
         Update: {
+          answer_hint?: string | null
+          bank_linked?: boolean
+          bank_question_id?: string | null
+          coding_language?: string | null
           correct_answer?: string | null
           created_at?: string
+          expected_output?: string | null
           id?: string
+          image_prompt?: string | null
           marks?: number
           options?: Json | null
           order_number?: number
           question_image_url?: string | null
           question_text?: string
           question_type?: Database["public"]["Enums"]["question_type"]
+          starter_code?: string | null
+          test_cases?: Json | null
           test_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "questions_bank_question_id_fkey"
+            columns: ["bank_question_id"]
+            isOneToOne: false
+            referencedRelation: "bank_questions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "questions_test_id_fkey"
             columns: ["test_id"]
@@ -258,6 +413,8 @@ export type Database = {
       test_sessions: {
         Row: {
           created_at: string
+          extra_minutes: number
+          flagged_for_review: boolean
           fullscreen_exit_count: number
           id: string
           started_at: string | null
@@ -270,6 +427,8 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          extra_minutes?: number
+          flagged_for_review?: boolean
           fullscreen_exit_count?: number
           id?: string
           started_at?: string | null
@@ -282,6 +441,8 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          extra_minutes?: number
+          flagged_for_review?: boolean
           fullscreen_exit_count?: number
           id?: string
           started_at?: string | null
@@ -317,8 +478,10 @@ export type Database = {
           duration_minutes: number
           enable_monitoring: boolean
           end_time: string | null
+          evidence_retention_days: number
           id: string
           passing_marks: number
+          proctoring_policy: Json | null
           start_time: string | null
           subject: string
           test_id: string
@@ -335,8 +498,10 @@ export type Database = {
           duration_minutes: number
           enable_monitoring?: boolean
           end_time?: string | null
+          evidence_retention_days?: number
           id?: string
           passing_marks?: number
+          proctoring_policy?: Json | null
           start_time?: string | null
           subject: string
           test_id: string
@@ -353,8 +518,10 @@ export type Database = {
           duration_minutes?: number
           enable_monitoring?: boolean
           end_time?: string | null
+          evidence_retention_days?: number
           id?: string
           passing_marks?: number
+          proctoring_policy?: Json | null
           start_time?: string | null
           subject?: string
           test_id?: string
@@ -397,9 +564,128 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      bank_question_usage: {
+        Row: {
+          bank_linked: boolean | null
+          bank_question_id: string | null
+          created_at: string | null
+          start_time: string | null
+          subject: string | null
+          test_id: string | null
+          title: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "questions_bank_question_id_fkey"
+            columns: ["bank_question_id"]
+            isOneToOne: false
+            referencedRelation: "bank_questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_questions: {
+        Row: {
+          answer_hint: string | null
+          coding_language: string | null
+          created_at: string | null
+          id: string | null
+          image_prompt: string | null
+          marks: number | null
+          options: Json | null
+          order_number: number | null
+          question_image_url: string | null
+          question_text: string | null
+          question_type: Database["public"]["Enums"]["question_type"] | null
+          sample_test_cases: Json | null
+          starter_code: string | null
+          test_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "questions_test_id_fkey"
+            columns: ["test_id"]
+            isOneToOne: false
+            referencedRelation: "tests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      test_question_counts: {
+        Row: {
+          question_count: number | null
+          test_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "questions_test_id_fkey"
+            columns: ["test_id"]
+            isOneToOne: false
+            referencedRelation: "tests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      compute_test_result: {
+        Args: { _session_id: string }
+        Returns: {
+          created_at: string
+          evaluated_at: string | null
+          evaluated_by: string | null
+          grade: string | null
+          id: string
+          is_passed: boolean
+          marks_obtained: number
+          percentage: number
+          session_id: string
+          student_id: string
+          test_id: string
+          total_marks: number
+        }
+      }
+      evidence_is_retained: { Args: { _path: string }; Returns: boolean }
+      expired_evidence: {
+        Args: { _limit?: number }
+        Returns: {
+          evidence_path: string
+          log_id: string
+        }[]
+      }
+      finalize_overdue_sessions: {
+        Args: { _test_id: string }
+        Returns: number
+      }
+      get_session_time: {
+        Args: { _session_id: string }
+        Returns: {
+          deadline: string
+          remaining_seconds: number
+          server_now: string
+        }[]
+      }
+      grade_for_percentage: {
+        Args: { _is_passed: boolean; _percentage: number }
+        Returns: string
+      }
+      grade_session: {
+        Args: { _session_id: string }
+        Returns: {
+          created_at: string
+          evaluated_at: string | null
+          evaluated_by: string | null
+          grade: string | null
+          id: string
+          is_passed: boolean
+          marks_obtained: number
+          percentage: number
+          session_id: string
+          student_id: string
+          test_id: string
+          total_marks: number
+        }
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -407,10 +693,29 @@ export type Database = {
         }
         Returns: boolean
       }
+      normalize_answer: {
+        Args: { _value: string }
+        Returns: string
+      }
+      session_deadline: {
+        Args: { _session_id: string }
+        Returns: string
+      }
+      session_is_overdue: {
+        Args: { _session_id: string }
+        Returns: boolean
+      }
     }
     Enums: {
       app_role: "admin" | "faculty" | "student"
-      question_type: "mcq" | "truefalse" | "short" | "descriptive" | "image"
+      question_type:
+        | "mcq"
+        | "truefalse"
+        | "short"
+        | "descriptive"
+        | "image"
+        | "essay"
+        | "coding"
       test_type: "mcq" | "descriptive" | "mixed"
     }
     CompositeTypes: {
@@ -540,7 +845,15 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "faculty", "student"],
-      question_type: ["mcq", "truefalse", "short", "descriptive", "image"],
+      question_type: [
+        "mcq",
+        "truefalse",
+        "short",
+        "descriptive",
+        "image",
+        "essay",
+        "coding",
+      ],
       test_type: ["mcq", "descriptive", "mixed"],
     },
   },
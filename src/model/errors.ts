@@ -0,0 +1,43 @@
+export type ProctoringBackendErrorCode =
+  // The backend did not answer within its time budget
+  | "timeout"
+  // The server could not be reached or the in-browser models failed to load
+  | "unavailable"
+  // The server answered with a non-2xx status
+  | "http_error"
+  // The answer did not have the expected shape
+  | "bad_response"
+  // The image passed in could not be decoded
+  | "invalid_image";
+
+export class ProctoringBackendError extends Error {
+  readonly code: ProctoringBackendErrorCode;
+  readonly status?: number;
+  readonly cause?: unknown;
+
+  constructor(code: ProctoringBackendErrorCode, message: string, options: { status?: number; cause?: unknown } = {}) {
+    super(message);
+    this.name = "ProctoringBackendError";
+    this.code = code;
+    this.status = options.status;
+    this.cause = options.cause;
+  }
+}
+
+export const isProctoringBackendError = (error: unknown): error is ProctoringBackendError =>
+  error instanceof ProctoringBackendError;
+
+/**
+ * Rejects with a "timeout" error if the promise hasn't settled in time
+ * @param what Operation name used in the error message
+ */
+export const withTimeout = <T>(promise: Promise<T>, timeoutMs: number, what: string): Promise<T> => {
+  let timer: number;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = window.setTimeout(
+      () => reject(new ProctoringBackendError("timeout", `${what} timed out after ${timeoutMs} ms`)),
+      timeoutMs
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => window.clearTimeout(timer));
+};
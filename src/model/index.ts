@@ -1,96 +1,45 @@
-
 /**
  * Model index file
  * 
  * This file exports all model-related components, types, and utilities
  * from the model directory to provide a clean import interface.
+ *
+ * Frame analysis goes through a `ProctoringBackend`: the self-hosted
+ * MediaPipe models in the browser, or a remote inference server such as
+ * `app.py`, chosen with `VITE_PROCTORING_BACKEND`.
  */
 
-// Export API for pose detection service
-export const API_ENDPOINT = 'http://localhost:8080';
+import { MediaPipeBackend } from "./mediapipeBackend";
+import { RemoteBackend } from "./remoteBackend";
+import type { ProctoringBackend, ProctoringBackendConfig } from "./types";
 
-// Face detection and pose estimation types
-export interface PoseDetectionResponse {
-  img?: string;
-  pose?: string;
-  message?: string;
-}
+export * from "./types";
+export * from "./errors";
+export { MediaPipeBackend } from "./mediapipeBackend";
+export { RemoteBackend } from "./remoteBackend";
 
-/**
- * Sends an image to the pose detection API and gets back pose information
- * @param imageData Base64 encoded image data
- * @returns Promise with pose detection results
- */
-export const detectPose = async (imageData: string): Promise<PoseDetectionResponse> => {
-  try {
-    const response = await fetch(`${API_ENDPOINT}/predict_pose`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ img: imageData }),
-    });
-    
-    if (!response.ok) {
-      throw new Error('Failed to detect pose');
-    }
-    
-    return await response.json();
-  } catch (error) {
-    console.error('Error in pose detection:', error);
-    return { message: 'Failed to detect pose' };
-  }
+const DEFAULT_TIMEOUT_MS = 15000;
+
+export const DEFAULT_BACKEND_CONFIG: ProctoringBackendConfig = {
+  kind: import.meta.env.VITE_PROCTORING_BACKEND === "remote" ? "remote" : "mediapipe",
+  endpoint: import.meta.env.VITE_PROCTORING_API_URL || "http://localhost:8080",
+  timeoutMs: Number(import.meta.env.VITE_PROCTORING_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS,
 };
 
 /**
- * Detects number of people in the frame
- * @param imageData Base64 encoded image data
- * @returns Promise with count of people detected
+ * Builds a backend for the given configuration
+ * @param overrides Fields to change from the environment's configuration
  */
-export const detectPeople = async (imageData: string): Promise<{people: number}> => {
-  try {
-    const response = await fetch(`${API_ENDPOINT}/predict_people`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ img: imageData }),
-    });
-    
-    if (!response.ok) {
-      throw new Error('Failed to detect people');
-    }
-    
-    return await response.json();
-  } catch (error) {
-    console.error('Error detecting people:', error);
-    return { people: 0 };
-  }
+export const createProctoringBackend = (overrides: Partial<ProctoringBackendConfig> = {}): ProctoringBackend => {
+  const config = { ...DEFAULT_BACKEND_CONFIG, ...overrides };
+  return config.kind === "remote"
+    ? new RemoteBackend(config.endpoint.replace(/\/+$/, ""), config.timeoutMs)
+    : new MediaPipeBackend(config.timeoutMs);
 };
 
+let sharedBackend: ProctoringBackend | null = null;
+
 /**
- * Save image to the server for monitoring purposes
- * @param imageData Base64 encoded image data
- * @param userId User identifier
- * @returns Promise with path to saved image
+ * Backend configured by the environment, shared across the app
  */
-export const saveImage = async (imageData: string, userId: string): Promise<{path: string}> => {
-  try {
-    const response = await fetch(`${API_ENDPOINT}/save_img`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ img: imageData, user: userId }),
-    });
-    
-    if (!response.ok) {
-      throw new Error('Failed to save image');
-    }
-    
-    return await response.json();
-  } catch (error) {
-    console.error('Error saving image:', error);
-    return { path: '' };
-  }
-};
+export const getProctoringBackend = () => (sharedBackend ??= createProctoringBackend());
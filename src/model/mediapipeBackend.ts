@@ -0,0 +1,122 @@
+import type { FaceLandmarker, ObjectDetector } from "@mediapipe/tasks-vision";
+import { createFaceLandmarker, createObjectDetector, headPoseFromMatrix, uploadEvidence } from "@/proctoring";
+import { ProctoringBackendError, withTimeout } from "./errors";
+import type { BackendHealth, HeadDirection, PeopleResult, PoseResult, ProctoringBackend, SavedImage } from "./types";
+
+// Same limits as the pose server (0.3 and 0.4 rad)
+const PITCH_THRESHOLD_DEGREES = 17;
+const YAW_THRESHOLD_DEGREES = 23;
+// The pose server counts a person from this score
+const PERSON_MIN_SCORE = 0.5;
+
+const classifyPose = (yaw: number, pitch: number): HeadDirection => {
+  if (pitch > PITCH_THRESHOLD_DEGREES) return "down";
+  if (pitch < -PITCH_THRESHOLD_DEGREES) return "up";
+  // headPoseFromMatrix yaw is positive towards the camera image's right, which is the student's left
+  if (yaw > YAW_THRESHOLD_DEGREES) return "left";
+  if (yaw < -YAW_THRESHOLD_DEGREES) return "right";
+  return "straight";
+};
+
+const decodeImage = async (image: string) => {
+  try {
+    const blob = await (await fetch(image)).blob();
+    return { blob, bitmap: await createImageBitmap(blob) };
+  } catch (error) {
+    throw new ProctoringBackendError("invalid_image", "Image could not be decoded", { cause: error });
+  }
+};
+
+/**
+ * Runs the self-hosted MediaPipe models in the page. Models load on first
+ * use. Inference itself is synchronous, so the time budget covers loading
+ * the models and storing images.
+ */
+export class MediaPipeBackend implements ProctoringBackend {
+  readonly kind = "mediapipe" as const;
+  private faceLandmarker: Promise<FaceLandmarker> | null = null;
+  private personDetector: Promise<ObjectDetector> | null = null;
+
+  constructor(private readonly timeoutMs: number) {}
+
+  async health(): Promise<BackendHealth> {
+    const startedAt = performance.now();
+    try {
+      await withTimeout(this.getFaceLandmarker(), this.timeoutMs, "Loading the face model");
+      return { ok: true, kind: this.kind, latencyMs: Math.round(performance.now() - startedAt) };
+    } catch (error) {
+      return {
+        ok: false,
+        kind: this.kind,
+        latencyMs: Math.round(performance.now() - startedAt),
+        detail: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  async detectPose(image: string): Promise<PoseResult> {
+    const landmarker = await withTimeout(this.getFaceLandmarker(), this.timeoutMs, "Loading the face model");
+    const { bitmap } = await decodeImage(image);
+
+    try {
+      const result = landmarker.detectForVideo(bitmap, performance.now());
+      const matrix = result.facialTransformationMatrixes?.[0]?.data;
+      if (result.faceLandmarks.length === 0 || !matrix) {
+        return { faceFound: false, direction: null, angles: null };
+      }
+
+      const { yaw, pitch } = headPoseFromMatrix(Array.from(matrix));
+      return { faceFound: true, direction: classifyPose(yaw, pitch), angles: { yaw, pitch } };
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  async detectPeople(image: string): Promise<PeopleResult> {
+    const detector = await withTimeout(this.getPersonDetector(), this.timeoutMs, "Loading the person model");
+    const { bitmap } = await decodeImage(image);
+
+    try {
+      const { detections } = detector.detectForVideo(bitmap, performance.now());
+      const people = detections.filter((detection) => (detection.categories[0]?.score ?? 0) >= PERSON_MIN_SCORE);
+      return { people: people.length };
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  async saveImage(image: string, sessionId: string): Promise<SavedImage> {
+    const { blob, bitmap } = await decodeImage(image);
+    bitmap.close();
+
+    try {
+      return { path: await withTimeout(uploadEvidence(sessionId, blob), this.timeoutMs, "Saving the image") };
+    } catch (error) {
+      if (error instanceof ProctoringBackendError) throw error;
+      throw new ProctoringBackendError("unavailable", "Image could not be stored", { cause: error });
+    }
+  }
+
+  close() {
+    this.faceLandmarker?.then((landmarker) => landmarker.close()).catch(() => undefined);
+    this.personDetector?.then((detector) => detector.close()).catch(() => undefined);
+    this.faceLandmarker = null;
+    this.personDetector = null;
+  }
+
+  private getFaceLandmarker() {
+    this.faceLandmarker ??= createFaceLandmarker().catch((error) => {
+      this.faceLandmarker = null;
+      throw new ProctoringBackendError("unavailable", "Face model could not be loaded", { cause: error });
+    });
+    return this.faceLandmarker;
+  }
+
+  private getPersonDetector() {
+    this.personDetector ??= createObjectDetector(["person"]).catch((error) => {
+      this.personDetector = null;
+      throw new ProctoringBackendError("unavailable", "Person detection model could not be loaded", { cause: error });
+    });
+    return this.personDetector;
+  }
+}
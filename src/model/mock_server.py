@@ -0,0 +1,100 @@
+"""
+Mock proctoring inference server for local testing.
+
+Speaks the same contract as app.py without loading any models, so the
+remote backend can be exercised without TensorFlow. Canned answers can be
+changed at runtime through POST /mock, e.g. to simulate a slow or failing
+server:
+
+    curl -X POST localhost:8080/mock -d '{"delay_ms": 20000}'
+    curl -X POST localhost:8080/mock -d '{"status": 500}'
+"""
+import os
+import time
+
+from flask import Flask, request, jsonify
+
+app = Flask(__name__)
+
+DEFAULTS = {
+    # 'straight', 'up', 'down', 'left', 'right', or None for no face
+    'direction': 'straight',
+    'people': 1,
+    # Added before every answer; longer than the client timeout simulates a hung server
+    'delay_ms': 0,
+    # Non-200 values make every inference endpoint fail with that status
+    'status': 200,
+}
+
+state = dict(DEFAULTS)
+
+
+def respond(body):
+    time.sleep(state['delay_ms'] / 1000)
+    if state['status'] != 200:
+        return jsonify({'error': 'mock failure'}), state['status']
+    return jsonify(body)
+
+
+@app.route('/mock', methods=['POST'])
+def configure():
+    data = request.get_json(force=True) or {}
+    if data.get('reset'):
+        state.update(DEFAULTS)
+    state.update({key: value for key, value in data.items() if key in DEFAULTS})
+    return jsonify(state)
+
+
+@app.route('/health', methods=['GET'])
+def health():
+    return respond({'status': 'ok', 'models': ['mock']})
+
+
+@app.route('/predict_pose', methods=['POST'])
+def predict_pose():
+    request.get_json(force=True)
+    direction = state['direction']
+    if direction is None:
+        return respond({'status': 'face_not_found', 'head_direction': None, 'warnings': ['No face detected in frame']})
+
+    # Radians, past app.py's thresholds in the requested direction
+    pitch = {'up': -0.5, 'down': 0.5}.get(direction, 0.0)
+    yaw = {'left': 0.6, 'right': -0.6}.get(direction, 0.0)
+    return respond({
+        'status': 'face_found',
+        'head_direction': {
+            'looking_up': direction == 'up',
+            'looking_down': direction == 'down',
+            'looking_left': direction == 'left',
+            'looking_right': direction == 'right',
+            'looking_straight': direction == 'straight',
+            'pitch': pitch,
+            'yaw': yaw,
+            'roll': 0.0,
+        },
+        'pose': {'rotation': [[pitch], [yaw], [0.0]], 'translation': [[0.0], [0.0], [0.0]]},
+        'warnings': [],
+    })
+
+
+@app.route('/predict_people', methods=['POST'])
+def predict_people():
+    request.get_json(force=True)
+    return respond({'people': state['people'], 'image': 'image'})
+
+
+@app.route('/save_img', methods=['POST'])
+def save_img():
+    data = request.get_json(force=True)
+    return respond({'path': 'mock/{}.jpg'.format(data.get('user', 'unknown'))})
+
+
+@app.after_request
+def add_cors_headers(response):
+    response.headers['Access-Control-Allow-Origin'] = '*'
+    response.headers['Access-Control-Allow-Headers'] = 'content-type'
+    return response
+
+
+if __name__ == '__main__':
+    app.run(host='0.0.0.0', port=int(os.environ.get('PORT', 8080)))
@@ -0,0 +1,128 @@
+import { ProctoringBackendError } from "./errors";
+import type { BackendHealth, HeadDirection, PeopleResult, PoseResult, ProctoringBackend, SavedImage } from "./types";
+
+const toDegrees = (radians: number) => radians * (180 / Math.PI);
+
+// Response of app.py's /predict_pose; angles are in radians
+interface PoseResponse {
+  status: "face_found" | "face_not_found";
+  head_direction: {
+    looking_up: boolean;
+    looking_down: boolean;
+    looking_left: boolean;
+    looking_right: boolean;
+    pitch: number;
+    yaw: number;
+  } | null;
+}
+
+const directionFromFlags = (flags: NonNullable<PoseResponse["head_direction"]>): HeadDirection => {
+  if (flags.looking_down) return "down";
+  if (flags.looking_up) return "up";
+  if (flags.looking_right) return "right";
+  if (flags.looking_left) return "left";
+  return "straight";
+};
+
+/**
+ * Sends frames to an inference server speaking the `app.py` contract
+ * (see `mock_server.py` for a stand-in without models)
+ */
+export class RemoteBackend implements ProctoringBackend {
+  readonly kind = "remote" as const;
+
+  constructor(private readonly endpoint: string, private readonly timeoutMs: number) {}
+
+  async health(): Promise<BackendHealth> {
+    const startedAt = performance.now();
+    try {
+      const body = await this.request<{ status?: string }>("/health");
+      return {
+        ok: body.status === "ok",
+        kind: this.kind,
+        latencyMs: Math.round(performance.now() - startedAt),
+        detail: body.status,
+      };
+    } catch (error) {
+      return {
+        ok: false,
+        kind: this.kind,
+        latencyMs: Math.round(performance.now() - startedAt),
+        detail: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  async detectPose(image: string): Promise<PoseResult> {
+    const body = await this.request<PoseResponse>("/predict_pose", { img: image });
+    if (body.status === "face_not_found") {
+      return { faceFound: false, direction: null, angles: null };
+    }
+    if (body.status !== "face_found" || !body.head_direction) {
+      throw new ProctoringBackendError("bad_response", "Pose response is missing the head direction");
+    }
+
+    const { pitch, yaw } = body.head_direction;
+    return {
+      faceFound: true,
+      direction: directionFromFlags(body.head_direction),
+      angles: { yaw: toDegrees(yaw), pitch: toDegrees(pitch) },
+    };
+  }
+
+  async detectPeople(image: string): Promise<PeopleResult> {
+    const body = await this.request<{ people: number }>("/predict_people", { img: image });
+    if (typeof body.people !== "number") {
+      throw new ProctoringBackendError("bad_response", "People response is missing the count");
+    }
+    return { people: body.people };
+  }
+
+  async saveImage(image: string, sessionId: string): Promise<SavedImage> {
+    const body = await this.request<{ path: string }>("/save_img", { img: image, user: sessionId });
+    if (typeof body.path !== "string") {
+      throw new ProctoringBackendError("bad_response", "Save response is missing the path");
+    }
+    return { path: body.path };
+  }
+
+  close() {}
+
+  private async request<T>(path: string, payload?: unknown): Promise<T> {
+    const controller = new AbortController();
+    const timeout = window.setTimeout(() => controller.abort(), this.timeoutMs);
+    const timedOut = () => new ProctoringBackendError("timeout", `${path} timed out after ${this.timeoutMs} ms`);
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(`${this.endpoint}${path}`, {
+          method: payload === undefined ? "GET" : "POST",
+          headers: payload === undefined ? undefined : { "Content-Type": "application/json" },
+          body: payload === undefined ? undefined : JSON.stringify(payload),
+          signal: controller.signal,
+        });
+      } catch (error) {
+        throw controller.signal.aborted
+          ? timedOut()
+          : new ProctoringBackendError("unavailable", `Inference server unreachable at ${this.endpoint}`, { cause: error });
+      }
+
+      if (!response.ok) {
+        throw new ProctoringBackendError("http_error", `${path} responded with ${response.status}`, {
+          status: response.status,
+        });
+      }
+
+      try {
+        return await response.json();
+      } catch (error) {
+        throw controller.signal.aborted
+          ? timedOut()
+          : new ProctoringBackendError("bad_response", `${path} did not return JSON`, { cause: error });
+      }
+    } finally {
+      window.clearTimeout(timeout);
+    }
+  }
+}
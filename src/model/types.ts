@@ -1,4 +1,3 @@
-
 /**
  * Model type definitions
  * 
@@ -12,4 +11,55 @@ export interface BaseModel {
   updatedAt: Date;
 }
 
-// Add more model types as needed
+export type ProctoringBackendKind = "mediapipe" | "remote";
+
+export interface ProctoringBackendConfig {
+  kind: ProctoringBackendKind;
+  // Base URL of the inference server; only used by the remote backend
+  endpoint: string;
+  // Budget for one request, after which it fails with a "timeout" error
+  timeoutMs: number;
+}
+
+// Sides are the student's own, as the pose server reports them
+export type HeadDirection = "straight" | "up" | "down" | "left" | "right";
+
+export interface PoseResult {
+  faceFound: boolean;
+  // null when no face was found
+  direction: HeadDirection | null;
+  // Head rotation in degrees; pitch is positive when the head tips down, yaw when it turns to the student's left
+  angles: { yaw: number; pitch: number } | null;
+}
+
+export interface PeopleResult {
+  people: number;
+}
+
+export interface SavedImage {
+  path: string;
+}
+
+export interface BackendHealth {
+  ok: boolean;
+  kind: ProctoringBackendKind;
+  latencyMs: number;
+  // Why the backend is unhealthy, or extra status it reported
+  detail?: string;
+}
+
+/**
+ * Frame analysis used by proctoring. Images are base64 data URLs, as
+ * produced by `canvas.toDataURL()`.
+ *
+ * Every method except `health` rejects with a `ProctoringBackendError`.
+ */
+export interface ProctoringBackend {
+  readonly kind: ProctoringBackendKind;
+  health(): Promise<BackendHealth>;
+  detectPose(image: string): Promise<PoseResult>;
+  detectPeople(image: string): Promise<PeopleResult>;
+  // Stores a snapshot as evidence for the given session
+  saveImage(image: string, sessionId: string): Promise<SavedImage>;
+  close(): void;
+}
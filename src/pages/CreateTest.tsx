@@ -12,6 +12,14 @@ import ThreeDBackground from "@/components/3d/ThreeDBackground";
 import { useAuth } from "@/context/AuthContext";
 import { useTest, Question } from "@/context/TestContext";
 import CodingConsole from "@/components/CodingConsole";
+import ProctoringPolicyEditor from "@/components/ProctoringPolicyEditor";
+import QuestionImage from "@/components/QuestionImage";
+import QuestionBankDialog from "@/components/QuestionBankDialog";
+import SaveToBankDialog from "@/components/SaveToBankDialog";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { uploadQuestionImage } from "@/utils/questionImages";
+import { createDefaultPolicy, type ProctoringPolicy } from "@/proctoring";
 import { 
   Plus, 
   Minus, 
@@ -27,7 +35,9 @@ import {
   Code,
   Upload,
   Sparkles,
-  Loader2
+  Loader2,
+  Link2,
+  Unlink
 } from "lucide-react";
 
 const subjects = [
@@ -59,6 +69,11 @@ const CreateTest = () => {
   const [testTitle, setTestTitle] = useState("");
   const [subject, setSubject] = useState<string>("");
   const [duration, setDuration] = useState(60);
+  // Optional availability window, as datetime-local strings
+  const [startTime, setStartTime] = useState("");
+  const [endTime, setEndTime] = useState("");
+  const [proctoringPolicy, setProctoringPolicy] = useState<ProctoringPolicy>(() => createDefaultPolicy());
+  const [evidenceRetentionDays, setEvidenceRetentionDays] = useState(30);
   const [questions, setQuestions] = useState<Omit<Question, "id">[]>([
     {
       type: "mcq",
@@ -74,6 +89,8 @@ const CreateTest = () => {
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
   const [numberOfQuestions, setNumberOfQuestions] = useState(10);
   const [difficulty, setDifficulty] = useState("medium");
+  // Question whose image is being uploaded
+  const [uploadingImageIndex, setUploadingImageIndex] = useState<number | null>(null);
 
   // Redirect if not authenticated
   useEffect(() => {
@@ -95,6 +112,13 @@ const CreateTest = () => {
     ]);
   };
 
+  // Bank questions replace the untouched starter question rather than following it
+  const handleAddFromBank = (question: Omit<Question, "id">) => {
+    setQuestions(prev =>
+      prev.length === 1 && !prev[0].text.trim() && !prev[0].bankQuestionId ? [question] : [...prev, question]
+    );
+  };
+
   const handleRemoveQuestion = (index: number) => {
     if (questions.length > 1) {
       const newQuestions = [...questions];
@@ -273,7 +297,8 @@ const CreateTest = () => {
           {
             input: "",
             expectedOutput: "",
-            description: "Test case 1"
+            description: "Test case 1",
+            sample: true
           }
         ]
       };
@@ -296,6 +321,27 @@ const CreateTest = () => {
     setQuestions(newQuestions);
   };
 
+  const handleQuestionImageUpload = async (index: number, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !user) return;
+
+    setUploadingImageIndex(index);
+    try {
+      const path = await uploadQuestionImage(user.id, file);
+      setQuestions(prev => prev.map((q, i) => (i === index ? { ...q, imagePath: path } : q)));
+    } catch (error) {
+      console.error("Error uploading question image:", error);
+      toast({
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : "The image could not be uploaded.",
+        variant: "destructive",
+      });
+    } finally {
+      setUploadingImageIndex(null);
+    }
+  };
+
   const handleOptionChange = (questionIndex: number, optionIndex: number, value: string) => {
     const newQuestions = [...questions];
     if (newQuestions[questionIndex].options) {
@@ -310,7 +356,7 @@ const CreateTest = () => {
     setQuestions(newQuestions);
   };
 
-  const handleTestCaseChange = (questionIndex: number, testCaseIndex: number, field: string, value: string) => {
+  const handleTestCaseChange = (questionIndex: number, testCaseIndex: number, field: string, value: string | boolean) => {
     const newQuestions = [...questions];
     if (newQuestions[questionIndex].testCases) {
       newQuestions[questionIndex].testCases![testCaseIndex] = {
@@ -351,6 +397,24 @@ const CreateTest = () => {
       return false;
     }
 
+    if (startTime && endTime && new Date(endTime) <= new Date(startTime)) {
+      toast({
+        title: "Error",
+        description: "The test must close after it opens",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    if (endTime && new Date(endTime).getTime() <= Date.now()) {
+      toast({
+        title: "Error",
+        description: "The closing time is already in the past",
+        variant: "destructive",
+      });
+      return false;
+    }
+
     for (let i = 0; i < questions.length; i++) {
       const q = questions[i];
       if (!q.text || q.marks <= 0) {
@@ -413,6 +477,11 @@ const CreateTest = () => {
       title: testTitle || "Untitled Test",
       subject: subject || "Unspecified",
       duration,
+      startTime: startTime ? new Date(startTime) : undefined,
+      endTime: endTime ? new Date(endTime) : undefined,
+      warningThreshold: proctoringPolicy.scoreThreshold,
+      proctoringPolicy,
+      evidenceRetentionDays,
       questions: questionsWithIds,
       createdBy: user.id,
       status,
@@ -650,6 +719,59 @@ const CreateTest = () => {
                 />
               </div>
             </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+              <div className="space-y-2">
+                <Label htmlFor="start-time">Opens At (optional)</Label>
+                <Input
+                  id="start-time"
+                  type="datetime-local"
+                  value={startTime}
+                  onChange={(e) => setStartTime(e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="end-time">Closes At (optional)</Label>
+                <Input
+                  id="end-time"
+                  type="datetime-local"
+                  value={endTime}
+                  min={startTime || undefined}
+                  onChange={(e) => setEndTime(e.target.value)}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">
+              Students can only start the test inside this window, and time left is cut short at closing time.
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-card/90 backdrop-blur-md border-primary/20 mb-6">
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2">
+              <Shield className="h-5 w-5 text-primary" />
+              Proctoring Policy
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ProctoringPolicyEditor policy={proctoringPolicy} onChange={setProctoringPolicy} />
+
+            <div className="space-y-2 mt-4 max-w-xs">
+              <Label htmlFor="evidence-retention">Keep Webcam Evidence (days)</Label>
+              <Input
+                id="evidence-retention"
+                type="number"
+                min="1"
+                max="365"
+                value={evidenceRetentionDays}
+                onChange={(e) => setEvidenceRetentionDays(Math.min(365, Math.max(1, parseInt(e.target.value) || 30)))}
+              />
+              <p className="text-xs text-muted-foreground">
+                Snapshots taken on webcam violations expire after this and are deleted.
+              </p>
+            </div>
           </CardContent>
         </Card>
         
@@ -658,15 +780,41 @@ const CreateTest = () => {
           {questions.map((question, index) => (
             <Card key={index} className="bg-card/90 backdrop-blur-md border-primary/20">
               <CardHeader className="pb-2 flex flex-row items-center justify-between">
-                <CardTitle>Question {index + 1}</CardTitle>
-                <Button 
-                  variant="ghost" 
-                  size="sm"
-                  onClick={() => handleRemoveQuestion(index)}
-                  className="h-8 w-8 p-0 text-destructive"
-                >
-                  <Trash className="h-4 w-4" />
-                </Button>
+                <CardTitle className="flex items-center gap-2">
+                  Question {index + 1}
+                  {question.bankQuestionId && (
+                    <Badge variant="outline" className="font-normal">
+                      {question.bankLinked ? "Linked to bank" : "From bank"}
+                    </Badge>
+                  )}
+                </CardTitle>
+                <div className="flex items-center gap-1">
+                  {question.bankLinked ? (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleQuestionChange(index, "bankLinked", false)}
+                      className="flex items-center gap-1"
+                    >
+                      <Unlink className="h-4 w-4" />
+                      Unlink to Edit
+                    </Button>
+                  ) : !question.bankQuestionId && (
+                    <SaveToBankDialog
+                      question={question}
+                      subject={subject}
+                      onSaved={(bankQuestionId) => handleQuestionChange(index, "bankQuestionId", bankQuestionId)}
+                    />
+                  )}
+                  <Button 
+                    variant="ghost" 
+                    size="sm"
+                    onClick={() => handleRemoveQuestion(index)}
+                    className="h-8 w-8 p-0 text-destructive"
+                  >
+                    <Trash className="h-4 w-4" />
+                  </Button>
+                </div>
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
@@ -675,6 +823,7 @@ const CreateTest = () => {
                       <Label>Question Type</Label>
                       <Select 
                         value={question.type} 
+                        disabled={question.bankLinked}
                         onValueChange={(value) => handleQuestionTypeChange(
                           index, 
                           value as "mcq" | "essay" | "truefalse" | "short" | "long" | "image" | "coding"
@@ -742,246 +891,305 @@ const CreateTest = () => {
                       />
                     </div>
                   </div>
-                  
-                  <div className="space-y-2">
-                    <Label htmlFor={`q${index}-text`}>Question Text</Label>
-                    <Textarea
-                      id={`q${index}-text`}
-                      rows={3}
-                      placeholder="Enter your question here"
-                      value={question.text}
-                      onChange={(e) => handleQuestionChange(index, "text", e.target.value)}
-                    />
-                  </div>
-                  
-                  {question.type === "mcq" && (
-                    <div className="space-y-4">
-                      <Label>Options</Label>
-                      
-                      {question.options?.map((option, optIndex) => (
-                        <div key={optIndex} className="flex items-center gap-3">
+
+                  {question.bankLinked && (
+                    <p className="text-sm text-muted-foreground flex items-center gap-2">
+                      <Link2 className="h-4 w-4" />
+                      Content comes from the question bank and follows its edits until students start the test. Marks stay per test.
+                    </p>
+                  )}
+
+                  {/* Linked questions are read-only here; edit the bank entry or unlink */}
+                  <fieldset disabled={question.bankLinked} className="space-y-4 disabled:opacity-70">
+                    <div className="space-y-2">
+                      <Label htmlFor={`q${index}-text`}>Question Text</Label>
+                      <Textarea
+                        id={`q${index}-text`}
+                        rows={3}
+                        placeholder="Enter your question here"
+                        value={question.text}
+                        onChange={(e) => handleQuestionChange(index, "text", e.target.value)}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor={`q${index}-image`}>Question Image (optional)</Label>
+                      {question.imagePath ? (
+                        <div className="space-y-2">
+                          <QuestionImage path={question.imagePath} className="max-h-64" />
                           <Button
-                            variant={question.correctAnswer === option ? "default" : "outline"}
+                            variant="outline"
                             size="sm"
-                            className="w-8 h-8 p-0 flex-shrink-0"
-                            onClick={() => handleCorrectAnswerChange(index, option || "")}
+                            onClick={() => handleQuestionChange(index, "imagePath", undefined)}
                           >
-                            {question.correctAnswer === option && <Check className="h-4 w-4" />}
+                            <Trash className="h-4 w-4 mr-2" />
+                            Remove Image
                           </Button>
-                          
-                          <Input
-                            placeholder={`Option ${optIndex + 1}`}
-                            value={option}
-                            onChange={(e) => handleOptionChange(index, optIndex, e.target.value)}
-                          />
                         </div>
-                      ))}
+                      ) : (
+                        <>
+                          <label
+                            htmlFor={`q${index}-image`}
+                            className="border border-dashed rounded-md p-4 flex items-center justify-center gap-2 cursor-pointer text-sm text-muted-foreground hover:bg-accent/50 transition-colors"
+                          >
+                            {uploadingImageIndex === index ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <Upload className="h-4 w-4" />
+                            )}
+                            {uploadingImageIndex === index ? "Uploading..." : "Attach a diagram or figure (PNG or JPG)"}
+                          </label>
+                          <input
+                            id={`q${index}-image`}
+                            type="file"
+                            className="hidden"
+                            accept="image/png, image/jpeg"
+                            disabled={uploadingImageIndex !== null}
+                            onChange={(e) => handleQuestionImageUpload(index, e)}
+                          />
+                        </>
+                      )}
                     </div>
-                  )}
                   
-                  {question.type === "truefalse" && (
-                    <div className="space-y-2">
-                      <Label>Correct Answer</Label>
-                      <div className="flex gap-3">
-                        <Button
-                          variant={question.correctAnswer === true ? "default" : "outline"}
-                          onClick={() => handleCorrectAnswerChange(index, true)}
-                          className="w-full"
-                        >
-                          True
-                        </Button>
-                        <Button
-                          variant={question.correctAnswer === false ? "default" : "outline"}
-                          onClick={() => handleCorrectAnswerChange(index, false)}
-                          className="w-full"
-                        >
-                          False
-                        </Button>
+                    {question.type === "mcq" && (
+                      <div className="space-y-4">
+                        <Label>Options</Label>
+                      
+                        {question.options?.map((option, optIndex) => (
+                          <div key={optIndex} className="flex items-center gap-3">
+                            <Button
+                              variant={question.correctAnswer === option ? "default" : "outline"}
+                              size="sm"
+                              className="w-8 h-8 p-0 flex-shrink-0"
+                              onClick={() => handleCorrectAnswerChange(index, option || "")}
+                            >
+                              {question.correctAnswer === option && <Check className="h-4 w-4" />}
+                            </Button>
+                          
+                            <Input
+                              placeholder={`Option ${optIndex + 1}`}
+                              value={option}
+                              onChange={(e) => handleOptionChange(index, optIndex, e.target.value)}
+                            />
+                          </div>
+                        ))}
                       </div>
-                    </div>
-                  )}
+                    )}
+                  
+                    {question.type === "truefalse" && (
+                      <div className="space-y-2">
+                        <Label>Correct Answer</Label>
+                        <div className="flex gap-3">
+                          <Button
+                            variant={question.correctAnswer === true ? "default" : "outline"}
+                            onClick={() => handleCorrectAnswerChange(index, true)}
+                            className="w-full"
+                          >
+                            True
+                          </Button>
+                          <Button
+                            variant={question.correctAnswer === false ? "default" : "outline"}
+                            onClick={() => handleCorrectAnswerChange(index, false)}
+                            className="w-full"
+                          >
+                            False
+                          </Button>
+                        </div>
+                      </div>
+                    )}
 
-                  {question.type === "short" && (
-                    <div className="space-y-2">
-                      <Label>Expected Answer Format</Label>
-                      <Input
-                        placeholder="e.g., A single word or short phrase"
-                        value={question.answerHint || ""}
-                        onChange={(e) => handleQuestionChange(index, "answerHint", e.target.value)}
-                      />
-                      <div className="p-3 bg-muted/50 rounded-md">
-                        <div className="text-sm font-medium">Preview:</div>
-                        <div className="mt-2 border rounded-md p-2 bg-background h-10">
-                          <div className="text-sm text-muted-foreground italic">Short answer field</div>
+                    {question.type === "short" && (
+                      <div className="space-y-2">
+                        <Label>Expected Answer Format</Label>
+                        <Input
+                          placeholder="e.g., A single word or short phrase"
+                          value={question.answerHint || ""}
+                          onChange={(e) => handleQuestionChange(index, "answerHint", e.target.value)}
+                        />
+                        <div className="p-3 bg-muted/50 rounded-md">
+                          <div className="text-sm font-medium">Preview:</div>
+                          <div className="mt-2 border rounded-md p-2 bg-background h-10">
+                            <div className="text-sm text-muted-foreground italic">Short answer field</div>
+                          </div>
                         </div>
                       </div>
-                    </div>
-                  )}
+                    )}
                   
-                  {question.type === "long" && (
-                    <div className="space-y-2">
-                      <Label>Expected Answer Format</Label>
-                      <Input
-                        placeholder="e.g., A detailed explanation with at least 300 words"
-                        value={question.answerHint || ""}
-                        onChange={(e) => handleQuestionChange(index, "answerHint", e.target.value)}
-                      />
-                      <div className="p-3 bg-muted/50 rounded-md">
-                        <div className="text-sm font-medium">Preview:</div>
-                        <div className="mt-2 border rounded-md p-2 bg-background h-32">
-                          <div className="text-sm text-muted-foreground italic">Long answer field</div>
+                    {question.type === "long" && (
+                      <div className="space-y-2">
+                        <Label>Expected Answer Format</Label>
+                        <Input
+                          placeholder="e.g., A detailed explanation with at least 300 words"
+                          value={question.answerHint || ""}
+                          onChange={(e) => handleQuestionChange(index, "answerHint", e.target.value)}
+                        />
+                        <div className="p-3 bg-muted/50 rounded-md">
+                          <div className="text-sm font-medium">Preview:</div>
+                          <div className="mt-2 border rounded-md p-2 bg-background h-32">
+                            <div className="text-sm text-muted-foreground italic">Long answer field</div>
+                          </div>
                         </div>
                       </div>
-                    </div>
-                  )}
+                    )}
                   
-                  {question.type === "image" && (
-                    <div className="space-y-2">
-                      <Label>Image Upload Instructions</Label>
-                      <Textarea
-                        rows={2}
-                        placeholder="e.g., Upload a diagram showing the water cycle"
-                        value={question.imagePrompt || ""}
-                        onChange={(e) => handleQuestionChange(index, "imagePrompt", e.target.value)}
-                      />
-                      <div className="p-3 bg-muted/50 rounded-md">
-                        <div className="text-sm font-medium">Preview:</div>
-                        <div className="mt-2 border border-dashed rounded-md p-4 bg-background flex flex-col items-center justify-center">
-                          <FileImage className="h-8 w-8 text-muted-foreground mb-2" />
-                          <div className="text-sm text-center text-muted-foreground">
-                            Click to upload an image or drag and drop
-                          </div>
-                          <div className="text-xs text-center text-muted-foreground mt-1">
-                            (PNG or JPG up to 5MB)
+                    {question.type === "image" && (
+                      <div className="space-y-2">
+                        <Label>Image Upload Instructions</Label>
+                        <Textarea
+                          rows={2}
+                          placeholder="e.g., Upload a diagram showing the water cycle"
+                          value={question.imagePrompt || ""}
+                          onChange={(e) => handleQuestionChange(index, "imagePrompt", e.target.value)}
+                        />
+                        <div className="p-3 bg-muted/50 rounded-md">
+                          <div className="text-sm font-medium">Preview:</div>
+                          <div className="mt-2 border border-dashed rounded-md p-4 bg-background flex flex-col items-center justify-center">
+                            <FileImage className="h-8 w-8 text-muted-foreground mb-2" />
+                            <div className="text-sm text-center text-muted-foreground">
+                              Click to upload an image or drag and drop
+                            </div>
+                            <div className="text-xs text-center text-muted-foreground mt-1">
+                              (PNG or JPG up to 5MB)
+                            </div>
                           </div>
                         </div>
                       </div>
-                    </div>
-                  )}
+                    )}
 
-                  {question.type === "coding" && (
-                    <div className="space-y-4">
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        <div className="space-y-2">
-                          <Label>Programming Language</Label>
-                          <Select 
-                            value={question.codingLanguage || "python"} 
-                            onValueChange={(value) => handleQuestionChange(index, "codingLanguage", value)}
-                          >
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select language" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              {CODING_LANGUAGES.map((lang) => (
-                                <SelectItem key={lang.value} value={lang.value}>
-                                  {lang.label}
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
+                    {question.type === "coding" && (
+                      <div className="space-y-4">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <div className="space-y-2">
+                            <Label>Programming Language</Label>
+                            <Select 
+                              value={question.codingLanguage || "python"} 
+                              onValueChange={(value) => handleQuestionChange(index, "codingLanguage", value)}
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select language" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {CODING_LANGUAGES.map((lang) => (
+                                  <SelectItem key={lang.value} value={lang.value}>
+                                    {lang.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label>Expected Output</Label>
+                            <Input
+                              placeholder="e.g., factorial(5) should return 120"
+                              value={question.expectedOutput || ""}
+                              onChange={(e) => handleQuestionChange(index, "expectedOutput", e.target.value)}
+                            />
+                          </div>
                         </div>
 
                         <div className="space-y-2">
-                          <Label>Expected Output</Label>
-                          <Input
-                            placeholder="e.g., factorial(5) should return 120"
-                            value={question.expectedOutput || ""}
-                            onChange={(e) => handleQuestionChange(index, "expectedOutput", e.target.value)}
+                          <Label>Starter Code</Label>
+                          <Textarea
+                            rows={6}
+                            placeholder="Enter starter code template for students..."
+                            value={question.starterCode || ""}
+                            onChange={(e) => handleQuestionChange(index, "starterCode", e.target.value)}
+                            className="font-mono text-sm"
                           />
                         </div>
-                      </div>
 
-                      <div className="space-y-2">
-                        <Label>Starter Code</Label>
-                        <Textarea
-                          rows={6}
-                          placeholder="Enter starter code template for students..."
-                          value={question.starterCode || ""}
-                          onChange={(e) => handleQuestionChange(index, "starterCode", e.target.value)}
-                          className="font-mono text-sm"
-                        />
-                      </div>
-
-                      {/* Test Cases */}
-                      <div className="space-y-3">
-                        <div className="flex items-center justify-between">
-                          <Label>Test Cases</Label>
-                          <Button
-                            type="button"
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleAddTestCase(index)}
-                          >
-                            <Plus className="h-4 w-4 mr-1" />
-                            Add Test Case
-                          </Button>
-                        </div>
+                        {/* Test Cases */}
+                        <div className="space-y-3">
+                          <div className="flex items-center justify-between">
+                            <Label>Test Cases</Label>
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleAddTestCase(index)}
+                            >
+                              <Plus className="h-4 w-4 mr-1" />
+                              Add Test Case
+                            </Button>
+                          </div>
 
-                        {question.testCases?.map((testCase, testCaseIndex) => (
-                          <Card key={testCaseIndex} className="p-4">
-                            <div className="flex items-center justify-between mb-3">
-                              <h4 className="font-medium">Test Case {testCaseIndex + 1}</h4>
-                              {question.testCases && question.testCases.length > 1 && (
-                                <Button
-                                  type="button"
-                                  variant="ghost"
-                                  size="sm"
-                                  onClick={() => handleRemoveTestCase(index, testCaseIndex)}
-                                  className="text-destructive"
-                                >
-                                  <Minus className="h-4 w-4" />
-                                </Button>
-                              )}
-                            </div>
-                            
-                            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-                              <div className="space-y-1">
-                                <Label className="text-xs">Input</Label>
-                                <Input
-                                  placeholder="Test input"
-                                  value={testCase.input}
-                                  onChange={(e) => handleTestCaseChange(index, testCaseIndex, "input", e.target.value)}
-                                />
+                          {question.testCases?.map((testCase, testCaseIndex) => (
+                            <Card key={testCaseIndex} className="p-4">
+                              <div className="flex items-center justify-between mb-3">
+                                <h4 className="font-medium">Test Case {testCaseIndex + 1}</h4>
+                                <div className="flex items-center gap-2 ml-auto mr-2">
+                                  <Switch
+                                    id={`sample-${index}-${testCaseIndex}`}
+                                    checked={!!testCase.sample}
+                                    onCheckedChange={(checked) => handleTestCaseChange(index, testCaseIndex, "sample", checked)}
+                                  />
+                                  <Label htmlFor={`sample-${index}-${testCaseIndex}`} className="text-xs">
+                                    Visible to students
+                                  </Label>
+                                </div>
+                                {question.testCases && question.testCases.length > 1 && (
+                                  <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleRemoveTestCase(index, testCaseIndex)}
+                                    className="text-destructive"
+                                  >
+                                    <Minus className="h-4 w-4" />
+                                  </Button>
+                                )}
                               </div>
+                            
+                              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                                <div className="space-y-1">
+                                  <Label className="text-xs">Input</Label>
+                                  <Input
+                                    placeholder="Test input"
+                                    value={testCase.input}
+                                    onChange={(e) => handleTestCaseChange(index, testCaseIndex, "input", e.target.value)}
+                                  />
+                                </div>
                               
-                              <div className="space-y-1">
-                                <Label className="text-xs">Expected Output</Label>
-                                <Input
-                                  placeholder="Expected result"
-                                  value={testCase.expectedOutput}
-                                  onChange={(e) => handleTestCaseChange(index, testCaseIndex, "expectedOutput", e.target.value)}
-                                />
-                              </div>
+                                <div className="space-y-1">
+                                  <Label className="text-xs">Expected Output</Label>
+                                  <Input
+                                    placeholder="Expected result"
+                                    value={testCase.expectedOutput}
+                                    onChange={(e) => handleTestCaseChange(index, testCaseIndex, "expectedOutput", e.target.value)}
+                                  />
+                                </div>
                               
-                              <div className="space-y-1">
-                                <Label className="text-xs">Description (Optional)</Label>
-                                <Input
-                                  placeholder="Test description"
-                                  value={testCase.description || ""}
-                                  onChange={(e) => handleTestCaseChange(index, testCaseIndex, "description", e.target.value)}
-                                />
+                                <div className="space-y-1">
+                                  <Label className="text-xs">Description (Optional)</Label>
+                                  <Input
+                                    placeholder="Test description"
+                                    value={testCase.description || ""}
+                                    onChange={(e) => handleTestCaseChange(index, testCaseIndex, "description", e.target.value)}
+                                  />
+                                </div>
                               </div>
-                            </div>
-                          </Card>
-                        ))}
-                      </div>
+                            </Card>
+                          ))}
+                        </div>
 
-                      {/* Preview */}
-                      <div className="space-y-2">
-                        <Label>Preview</Label>
-                        <div className="border rounded-md p-3 bg-muted/30">
-                          <CodingConsole
-                            language={question.codingLanguage || "python"}
-                            starterCode={question.starterCode || "# Write your code here\n"}
-                            testCases={question.testCases}
-                            expectedOutput={question.expectedOutput}
-                            onCodeChange={() => {}}
-                            readOnly={true}
-                          />
+                        {/* Preview */}
+                        <div className="space-y-2">
+                          <Label>Preview</Label>
+                          <div className="border rounded-md p-3 bg-muted/30">
+                            <CodingConsole
+                              language={question.codingLanguage || "python"}
+                              starterCode={question.starterCode || "# Write your code here\n"}
+                              testCases={question.testCases}
+                              expectedOutput={question.expectedOutput}
+                              onCodeChange={() => {}}
+                              readOnly={true}
+                            />
+                          </div>
                         </div>
                       </div>
-                    </div>
-                  )}
+                    )}
+                  </fieldset>
                 </div>
               </CardContent>
             </Card>
@@ -995,6 +1203,8 @@ const CreateTest = () => {
             <Plus className="h-4 w-4" />
             Add Question
           </Button>
+
+          <QuestionBankDialog subjects={subjects} defaultSubject={subject} onAdd={handleAddFromBank} />
         </div>
         
         {/* Action Buttons */}
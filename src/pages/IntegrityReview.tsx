@@ -0,0 +1,211 @@
+import { useEffect, useMemo, useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, Flag, MonitorOff, Maximize, ScanFace, ShieldCheck } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/context/AuthContext";
+import { useTest } from "@/context/TestContext";
+import { useRealtimeTestSessions } from "@/hooks/useRealtimeTestSessions";
+import ThreeDBackground from "@/components/3d/ThreeDBackground";
+import StudentMonitoringData from "@/components/StudentMonitoringData";
+import { resetFaceEnrollment } from "@/proctoring";
+
+const IntegrityReview = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { getTestById } = useTest();
+  const { sessions, isLoading } = useRealtimeTestSessions(id || "");
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+  const [isResettingFace, setIsResettingFace] = useState(false);
+  const { toast } = useToast();
+
+  const test = getTestById(id || "");
+  const warningThreshold = test?.warningThreshold ?? 3;
+
+  useEffect(() => {
+    if (!user || (user.role !== "faculty" && user.role !== "admin")) {
+      navigate("/login");
+    }
+  }, [user, navigate]);
+
+  // Flagged sessions first, then by integrity score
+  const sortedSessions = useMemo(
+    () => [...sessions].sort((a, b) =>
+      Number(b.flagged_for_review) - Number(a.flagged_for_review) || b.total_warnings - a.total_warnings
+    ),
+    [sessions]
+  );
+
+  useEffect(() => {
+    if (!selectedSessionId && sortedSessions.length > 0) {
+      setSelectedSessionId(sortedSessions[0].id);
+    }
+  }, [sortedSessions, selectedSessionId]);
+
+  if (!test) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const selectedSession = sessions.find((session) => session.id === selectedSessionId);
+
+  // Students can't replace their own enrollment, so a bad or disputed one is cleared here
+  const handleResetFace = async () => {
+    if (!selectedSession) return;
+    setIsResettingFace(true);
+    try {
+      await resetFaceEnrollment(selectedSession.student_id);
+      toast({
+        title: "Face Enrollment Reset",
+        description: `${selectedSession.student_name} can now enroll again.`,
+      });
+    } catch (error) {
+      console.error("Error resetting face enrollment:", error);
+      toast({
+        title: "Reset Failed",
+        description: "The face enrollment could not be reset. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsResettingFace(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen p-4 md:p-6 relative overflow-hidden">
+      <ThreeDBackground />
+
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex items-center gap-4 mb-6 relative z-10"
+      >
+        <Button variant="outline" size="sm" onClick={() => navigate(`/test-dashboard/${id}`)}>
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold">Integrity Review</h1>
+          <p className="text-sm text-muted-foreground">{test.title} • {test.subject}</p>
+        </div>
+      </motion.div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 relative z-10">
+        <Card className="bg-card/90 backdrop-blur-md border-primary/20">
+          <CardHeader className="pb-2">
+            <CardTitle>Attempts</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-center py-8 text-muted-foreground">Loading attempts...</p>
+            ) : sortedSessions.length === 0 ? (
+              <p className="text-center py-8 text-muted-foreground">No students have taken this test yet.</p>
+            ) : (
+              <ScrollArea className="h-[600px] pr-3">
+                <div className="space-y-2">
+                  {sortedSessions.map((session) => (
+                    <button
+                      key={session.id}
+                      type="button"
+                      onClick={() => setSelectedSessionId(session.id)}
+                      className={`w-full text-left border rounded-lg p-3 transition-colors ${
+                        session.id === selectedSessionId ? "border-primary bg-primary/10" : "hover:bg-muted/50"
+                      }`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">{session.student_name}</span>
+                        {session.flagged_for_review ? (
+                          <Badge variant="destructive" className="gap-1">
+                            <Flag className="h-3 w-3" />
+                            Flagged
+                          </Badge>
+                        ) : session.total_warnings < warningThreshold ? (
+                          <ShieldCheck className="h-4 w-4 text-green-500" />
+                        ) : null}
+                      </div>
+                      <div className="flex items-center gap-3 mt-1 text-xs text-muted-foreground">
+                        <span className={session.total_warnings >= warningThreshold ? "text-red-500 font-medium" : ""}>
+                          Score {session.total_warnings}/{warningThreshold}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <MonitorOff className="h-3 w-3" />
+                          {session.tab_switch_count}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <Maximize className="h-3 w-3" />
+                          {session.fullscreen_exit_count}
+                        </span>
+                        <span className="capitalize">{session.status.replace(/_/g, " ")}</span>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-2">
+          {selectedSession ? (
+            <div className="space-y-3">
+              <div className="flex justify-end">
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" size="sm" disabled={isResettingFace}>
+                      <ScanFace className="h-4 w-4 mr-1" />
+                      Reset Face Enrollment
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Reset face enrollment?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        {selectedSession.student_name}'s reference face and photo will be deleted. They will enroll again before their next test.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={handleResetFace}>Reset</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+              <StudentMonitoringData
+                key={selectedSession.id}
+                testId={test.id}
+                sessionId={selectedSession.id}
+              />
+            </div>
+          ) : (
+            <Card className="bg-card/90 backdrop-blur-md border-primary/20">
+              <CardContent className="py-12 text-center text-muted-foreground">
+                Select an attempt to review its timeline.
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IntegrityReview;
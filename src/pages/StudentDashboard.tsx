@@ -1,19 +1,42 @@
 
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { motion } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
 import { useAuth } from "@/context/AuthContext";
 import { useTest } from "@/context/TestContext";
 import ThreeDBackground from "@/components/3d/ThreeDBackground";
 import FloatingShield from "@/components/3d/FloatingShield";
-import { LogOut, Shield, Clock, Calendar } from "lucide-react";
+import FaceIdentityCheck from "@/components/FaceIdentityCheck";
+import { LogOut, Shield, Clock, Calendar, ScanFace } from "lucide-react";
+import { format } from "date-fns";
+import { getTestWindowStatus, formatCountdown } from "@/utils/testWindow";
+import { fetchFaceEnrollment } from "@/proctoring";
 
 const StudentDashboard = () => {
   const { user, logout } = useAuth();
   const { tests } = useTest();
   const navigate = useNavigate();
+  const { toast } = useToast();
+  const [now, setNow] = useState(Date.now());
+  const [enrolledAt, setEnrolledAt] = useState<string | null>(null);
+  const [isEnrolling, setIsEnrolling] = useState(false);
+
+  // Tick once a second so window countdowns stay current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchFaceEnrollment(user.id)
+      .then((enrollment) => setEnrolledAt(enrollment?.updatedAt ?? null))
+      .catch((error) => console.error("Error loading face enrollment:", error));
+  }, [user]);
 
   // Redirect if not authenticated
   useEffect(() => {
@@ -26,8 +49,22 @@ const StudentDashboard = () => {
     return null;
   }
 
-  // Get only published tests that students can take
-  const availableTests = tests.filter(test => test.status === "published");
+  // Get only published tests, live ones first, then upcoming, then closed
+  const windowOrder = { live: 0, upcoming: 1, closed: 2 };
+  const availableTests = tests
+    .filter(test => test.status === "published")
+    .map(test => ({ test, windowStatus: getTestWindowStatus(test, now) }))
+    .sort((a, b) => windowOrder[a.windowStatus] - windowOrder[b.windowStatus]);
+  const liveTestCount = availableTests.filter(({ windowStatus }) => windowStatus === "live").length;
+
+  const handleEnrolled = () => {
+    setIsEnrolling(false);
+    setEnrolledAt(new Date().toISOString());
+    toast({
+      title: "Face Enrolled",
+      description: "Your face will be checked when you start a test.",
+    });
+  };
 
   const handleLogout = () => {
     logout();
@@ -88,9 +125,9 @@ const StudentDashboard = () => {
                     <Calendar className="h-5 w-5 text-primary" />
                     <h4 className="font-medium">Available Tests</h4>
                   </div>
-                  <p className="text-2xl font-bold">{availableTests.length}</p>
+                  <p className="text-2xl font-bold">{liveTestCount}</p>
                   <p className="text-sm text-muted-foreground">
-                    {availableTests.length > 0
+                    {liveTestCount > 0
                       ? "You have tests available to take"
                       : "No tests available at the moment"}
                   </p>
@@ -106,6 +143,23 @@ const StudentDashboard = () => {
                   </p>
                 </div>
                 
+                <div className="p-4 rounded-lg bg-accent">
+                  <div className="flex items-center gap-3 mb-3">
+                    <ScanFace className="h-5 w-5 text-primary" />
+                    <h4 className="font-medium">Face ID</h4>
+                  </div>
+                  <p className="text-sm text-muted-foreground mb-3">
+                    {enrolledAt
+                      ? `Enrolled on ${format(new Date(enrolledAt), "PPP")}. Ask your instructor if it needs resetting.`
+                      : "Not enrolled yet. Tests you start without enrolling are sent to your instructor for review."}
+                  </p>
+                  {!enrolledAt && (
+                    <Button variant="outline" size="sm" onClick={() => setIsEnrolling(true)}>
+                      Enroll Now
+                    </Button>
+                  )}
+                </div>
+                
                 <div className="w-full h-48">
                   <FloatingShield />
                 </div>
@@ -128,23 +182,49 @@ const StudentDashboard = () => {
             <CardContent>
               <div className="space-y-4">
                 {availableTests.length > 0 ? (
-                  availableTests.map((test) => (
+                  availableTests.map(({ test, windowStatus }) => (
                     <div
                       key={test.id}
-                      className="p-4 rounded-lg bg-accent hover:bg-accent/80 cursor-pointer transition-colors"
-                      onClick={() => navigate(`/take-test/${test.id}`)}
+                      className={`p-4 rounded-lg bg-accent transition-colors ${
+                        windowStatus === "live" ? "hover:bg-accent/80 cursor-pointer" : "opacity-75"
+                      }`}
+                      onClick={() => windowStatus === "live" && navigate(`/take-test/${test.id}`)}
                     >
                       <div className="flex justify-between items-center mb-2">
                         <h4 className="text-lg font-medium">{test.title}</h4>
-                        <span className="px-3 py-1 bg-primary/20 text-primary text-xs rounded-full">
-                          {test.duration} minutes
-                        </span>
+                        <div className="flex items-center gap-2">
+                          <span
+                            className={`px-3 py-1 text-xs rounded-full ${
+                              windowStatus === "live"
+                                ? "bg-green-500/20 text-green-600"
+                                : windowStatus === "upcoming"
+                                ? "bg-yellow-500/20 text-yellow-600"
+                                : "bg-muted text-muted-foreground"
+                            }`}
+                          >
+                            {windowStatus === "live" ? "Live" : windowStatus === "upcoming" ? "Upcoming" : "Closed"}
+                          </span>
+                          <span className="px-3 py-1 bg-primary/20 text-primary text-xs rounded-full">
+                            {test.duration} minutes
+                          </span>
+                        </div>
                       </div>
+                      <p className="text-sm text-muted-foreground mb-1">
+                        {test.subject} • {test.questionCount ?? test.questions.length} Questions
+                      </p>
                       <p className="text-sm text-muted-foreground mb-3">
-                        {test.subject} • {test.questions.length} Questions
+                        {windowStatus === "upcoming" && test.startTime && (
+                          <>Opens {format(test.startTime, "PPp")} • starts in {formatCountdown(test.startTime.getTime() - now)}</>
+                        )}
+                        {windowStatus === "live" && test.endTime && (
+                          <>Closes {format(test.endTime, "PPp")} • {formatCountdown(test.endTime.getTime() - now)} left</>
+                        )}
+                        {windowStatus === "closed" && test.endTime && (
+                          <>Closed {format(test.endTime, "PPp")}</>
+                        )}
                       </p>
-                      <Button className="w-full">
-                        Start Test
+                      <Button className="w-full" disabled={windowStatus !== "live"}>
+                        {windowStatus === "live" ? "Start Test" : windowStatus === "upcoming" ? "Not Open Yet" : "Closed"}
                       </Button>
                     </div>
                   ))
@@ -162,6 +242,15 @@ const StudentDashboard = () => {
           </Card>
         </motion.div>
       </div>
+
+      <Dialog open={isEnrolling} onOpenChange={setIsEnrolling}>
+        <DialogContent className="max-w-lg p-0 border-0 bg-transparent">
+          <DialogTitle className="sr-only">Face Enrollment</DialogTitle>
+          {isEnrolling && (
+            <FaceIdentityCheck profileId={user.id} mode="enroll" onComplete={handleEnrolled} />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -1,26 +1,63 @@
-import { useEffect, useState, useRef } from "react";
+import { useCallback, useEffect, useState, useRef } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { motion } from "framer-motion";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/components/ui/use-toast";
 import { useAuth } from "@/context/AuthContext";
 import { useTest } from "@/context/TestContext";
-import { FullscreenIcon, Timer, Eye, FileImage, Camera, TabletSmartphone, AlertTriangle } from "lucide-react";
+import { FullscreenIcon, Timer, Eye, FileImage, Camera, TabletSmartphone, AlertTriangle, Cloud, CloudOff, RefreshCw } from "lucide-react";
 import ThreeDBackground from "@/components/3d/ThreeDBackground";
 import { TestIDVerification } from "@/components/TestIDVerification";
+import FaceIdentityCheck, { type IdentityCheckResult } from "@/components/FaceIdentityCheck";
 
-import { detectPose, detectPeople, saveImage } from "@/model";
 import { useTestMonitoring } from "@/hooks/useTestMonitoring";
 import TestMonitoringStatus from "@/components/TestMonitoringStatus";
 import BackgroundAppManager from "@/components/BackgroundAppManager";
 import { backgroundAppController } from "@/utils/backgroundAppController";
+import { answerOutbox } from "@/utils/answerOutbox";
+import { compressImage, deleteAnswerImage, getAnswerImageUrl, isAnswerImagePath, uploadAnswerImage } from "@/utils/answerImages";
 import WebcamMonitor from "@/components/WebcamMonitor";
+import AudioMonitor from "@/components/AudioMonitor";
+import ScreenShareMonitor from "@/components/ScreenShareMonitor";
 import { useWebcamMonitoring } from "@/hooks/useWebcamMonitoring";
+import { useDisplayMonitoring } from "@/hooks/useDisplayMonitoring";
+import { useLockdown } from "@/hooks/useLockdown";
 import { WebcamStatus } from "@/components/ui/webcam-status";
 import { useTestSubmission } from "@/hooks/useTestSubmission";
+import { useAnswerSync, type AnswerSyncStatus } from "@/hooks/useAnswerSync";
 import { supabase } from "@/integrations/supabase/client";
+import { mapQuestionFromDb } from "@/utils/questionMapping";
+import { getCappedSeconds } from "@/utils/testWindow";
+import CodingConsole from "@/components/CodingConsole";
+import QuestionImage from "@/components/QuestionImage";
+import { useProctoringPolicy } from "@/hooks/useProctoringPolicy";
+import { useProctoringEvents } from "@/hooks/useProctoringEvents";
+import { createDefaultPolicy, isViolationEvent, normalizePolicy, type ProctoringPolicy, type VisionModel } from "@/proctoring";
+
+// How often the countdown is corrected against the server
+const TIMER_RESYNC_INTERVAL_MS = 30000;
+// Pause in typing before changed answers are saved and sent
+const AUTOSAVE_DELAY_MS = 1000;
+// Wait between attempts to record a termination the server hasn't accepted yet
+const TERMINATE_RETRY_MS = 5000;
+
+const ANSWER_SYNC_BADGES: Record<AnswerSyncStatus, { label: string; title: string; className: string }> = {
+  saved: { label: "Saved", title: "All answers are saved to the server", className: "bg-green-500/20 text-green-500" },
+  pending: { label: "Saving...", title: "Some answers are still being sent", className: "bg-yellow-500/20 text-yellow-500" },
+  offline: {
+    label: "Offline",
+    title: "Answers are kept on this device and sent when you reconnect",
+    className: "bg-red-500/20 text-red-500",
+  },
+  rejected: {
+    label: "Not Saved",
+    title: "The server refused some answers. They are kept on this device; tell your invigilator before leaving.",
+    className: "bg-red-500/20 text-red-500",
+  },
+};
 
 const TakeTest = () => {
   const { id } = useParams();
@@ -34,54 +71,95 @@ const TakeTest = () => {
   const [answers, setAnswers] = useState<Record<string, string | boolean>>({});
   const [timeLeft, setTimeLeft] = useState<number | null>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
-  const [warningCount, setWarningCount] = useState(0);
-  const [imageFiles, setImageFiles] = useState<Record<string, File | null>>({});
+  // Upload progress (0 to 1) per question while an image answer is being sent
+  const [imageUploadProgress, setImageUploadProgress] = useState<Record<string, number>>({});
   const [imagePreviewUrls, setImagePreviewUrls] = useState<Record<string, string>>({});
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Set the moment the policy terminates the test; the server may only hear about it later
+  const [isTerminated, setIsTerminated] = useState(false);
+  const terminatingRef = useRef(false);
   const [evaluations, setEvaluations] = useState<Record<string, any>>({});
   const [testIdVerified, setTestIdVerified] = useState(false);
+  const [identityChecked, setIdentityChecked] = useState(false);
+  const [referenceEmbedding, setReferenceEmbedding] = useState<number[] | null>(null);
   const [systemReady, setSystemReady] = useState(false);
   const [systemWarnings, setSystemWarnings] = useState<string[]>([]);
+  const [canProceedAnyway, setCanProceedAnyway] = useState(true);
+
+  const [policy, setPolicy] = useState<ProctoringPolicy>(() => createDefaultPolicy());
+
+  // Every detector below publishes here; the stream is batched into monitoring_logs
+  const { publish, subscribe, flush: flushEvents } = useProctoringEvents(sessionId);
+
+  // Proctoring policy - decides what every violation below leads to
+  const proctoring = useProctoringPolicy({
+    policy,
+    onDecision: (decision) => {
+      updateLocalSessionWarnings(decision.score);
+    },
+    onFlag: (decision) => {
+      publish('session_flagged', { cause: decision.type, score: decision.score });
+      if (sessionId) {
+        updateSessionWarnings(sessionId, { flagged_for_review: true });
+      }
+    },
+    onPause: (decision) => {
+      publish('session_paused', { cause: decision.type, score: decision.score, seconds: policy.pauseSeconds });
+    },
+    onTerminate: () => terminateTest(),
+  });
+  const { reportViolation } = proctoring;
+
+  // The policy only sees violations through the event stream
+  useEffect(() => {
+    return subscribe((event) => {
+      if (isViolationEvent(event)) {
+        reportViolation(event.type, event.data);
+      }
+    });
+  }, [subscribe, reportViolation]);
 
-  // Simplified state - webcam handled by WebcamMonitor component
-  const [lastTabSwitchTime, setLastTabSwitchTime] = useState<number | null>(null);
-  const [rapidTabSwitches, setRapidTabSwitches] = useState(0);
-  
   // Test monitoring hook
   const {
     isFullscreen: monitorFullscreen,
-    warningCount: monitoringWarnings,
-    tabSwitchCount,
     isMonitoring,
     requestFullscreen,
     startMonitoring,
     stopMonitoring,
-    resetWarnings,
-    totalViolations
   } = useTestMonitoring({
-    onFullscreenExit: () => handleSubmit(true),
-    onTabSwitch: () => handleSubmit(true),
-    warningThreshold: 1, // Immediate termination on first violation
-    autoTerminateOnThreshold: true
+    onViolation: publish,
   });
 
   // Webcam monitoring hook
   const webcamMonitoring = useWebcamMonitoring({
-    onViolationThreshold: (violations) => {
-      toast({
-        title: "Test Terminated",
-        description: `Test terminated due to excessive violations (${violations.length}).`,
-        variant: "destructive",
-      });
-      handleSubmit(true);
-    },
-    violationThreshold: 5,
-    warningThreshold: 3
+    onViolation: publish,
+  });
+
+  // Extra monitors, re-checked for the whole session
+  useDisplayMonitoring({
+    isActive: isMonitoring && policy.rules.secondary_display.enabled,
+    onViolation: (type, details) => publish(type, details),
   });
 
-  // Update existing warningCount to include webcam violations
-  const totalWarningCount = warningCount + monitoringWarnings + webcamMonitoring.violationCount;
+  // Clipboard, print, shortcut and devtools restrictions for the whole session
+  useLockdown({
+    isActive: isMonitoring,
+    settings: policy.lockdown,
+    detectDevtools: policy.rules.devtools_opened.enabled,
+    onEvent: (type, data) => {
+      const question = test?.questions[currentQuestionIndex];
+      publish(type, { ...data, question_id: question?.id, question_type: question?.type });
+
+      if (type === 'shortcut_blocked' || type === 'copy_blocked' || type === 'paste_blocked' || type === 'print_blocked') {
+        toast({
+          title: "Action Blocked",
+          description: "This action is not allowed during the test.",
+          variant: "destructive",
+        });
+      }
+    },
+  });
 
   // System preparation handlers
   const handleSystemReady = () => {
@@ -93,9 +171,10 @@ const TakeTest = () => {
     });
   };
 
-  const handleSystemNotReady = (warnings: string[]) => {
+  const handleSystemNotReady = (warnings: string[], canProceed: boolean) => {
     setSystemReady(false);
     setSystemWarnings(warnings);
+    setCanProceedAnyway(canProceed);
     toast({
       title: "System Issues Detected",
       description: `${warnings.length} issue(s) need attention before starting the exam.`,
@@ -107,12 +186,50 @@ const TakeTest = () => {
   const {
     isSubmitting: submissionInProgress,
     getOrCreateSession,
+    getSessionTime,
     submitAnswer: submitAnswerToDb,
     submitTest: submitTestToDb,
     updateSessionWarnings,
-    logMonitoringEvent,
   } = useTestSubmission();
 
+  // Answers are journaled on the device and delivered in the background
+  const { status: answerSyncStatus, rejectedCount, queueAnswer, flush: flushAnswers } = useAnswerSync({
+    sessionId,
+    submitAnswer: submitAnswerToDb,
+  });
+
+  // The badge alone is easy to miss when an answer the student thinks is saved was refused
+  useEffect(() => {
+    if (rejectedCount === 0) return;
+    toast({
+      title: "Answers Not Saved",
+      description: `The server refused ${rejectedCount} answer(s). They are kept on this device; please tell your invigilator.`,
+      variant: "destructive",
+    });
+  }, [rejectedCount, toast]);
+  // Last answer journaled per question, so unchanged answers aren't queued again
+  const queuedAnswersRef = useRef<Record<string, string>>({});
+
+  const queueChangedAnswers = useCallback(
+    (current: Record<string, string | boolean>) => {
+      const changed = Object.entries(current)
+        .filter(([questionId, value]) => queuedAnswersRef.current[questionId] !== String(value))
+        .map(([questionId, value]) => {
+          queuedAnswersRef.current[questionId] = String(value);
+          return queueAnswer(questionId, String(value));
+        });
+      // An answer the student removed is cleared on the server rather than left behind
+      const cleared = Object.keys(queuedAnswersRef.current)
+        .filter((questionId) => !(questionId in current))
+        .map((questionId) => {
+          delete queuedAnswersRef.current[questionId];
+          return queueAnswer(questionId, null);
+        });
+      return Promise.all([...changed, ...cleared]);
+    },
+    [queueAnswer]
+  );
+
   // Redirect if not authenticated as student
   useEffect(() => {
     if (!user || user.role !== "student") {
@@ -127,19 +244,49 @@ const TakeTest = () => {
       try {
         const { data: supabaseTest, error } = await supabase
           .from("tests")
-          .select(`
-            *,
-            questions(*)
-          `)
+          .select("*")
           .eq("id", id)
           .single();
 
         if (supabaseTest && !error) {
-          // Sort questions by order
-          if (supabaseTest.questions) {
-            supabaseTest.questions.sort((a: any, b: any) => a.order_number - b.order_number);
+          // Questions are only readable once this student's session is open
+          let session;
+          try {
+            session = await getOrCreateSession(supabaseTest.id, user.id);
+          } catch (sessionError) {
+            console.error("Session error:", sessionError);
+            toast({
+              title: "Error",
+              description: sessionError instanceof Error
+                ? sessionError.message
+                : "Could not start your test session. Please try again.",
+              variant: "destructive",
+            });
+            navigate("/student-dashboard");
+            return;
           }
-          
+
+          if (session.status === 'completed' || session.status === 'submitted' || session.status === 'terminated') {
+            toast({
+              title: "Test already submitted",
+              description: "You have already completed this test.",
+              variant: "destructive",
+            });
+            navigate("/student-dashboard");
+            return;
+          }
+
+          // Student-facing view without the answer key
+          const { data: questionRows, error: questionsError } = await supabase
+            .from("student_questions")
+            .select("*")
+            .eq("test_id", supabaseTest.id)
+            .order("order_number", { ascending: true });
+
+          if (questionsError) {
+            console.error("Error loading questions:", questionsError);
+          }
+
           // Map to expected format
           const mappedTest = {
             id: supabaseTest.id,
@@ -148,41 +295,20 @@ const TakeTest = () => {
             duration: supabaseTest.duration_minutes,
             unique_id: supabaseTest.test_id,
             status: "published",
-            questions: (supabaseTest.questions || []).map((q: any) => ({
-              id: q.id,
-              text: q.question_text,
-              type: q.question_type,
-              options: q.options,
-              correct_answer: q.correct_answer,
-              marks: q.marks,
-            })),
+            endTime: supabaseTest.end_time,
+            questions: (questionRows || []).map(mapQuestionFromDb),
           };
           
           setTest(mappedTest);
-          setTimeLeft(mappedTest.duration * 60);
-
-          // Create or get session from Supabase
-          try {
-            const session = await getOrCreateSession(supabaseTest.id, user.id);
-            if (session) {
-              setSessionId(session.id);
-              if (session.status === 'completed' || session.status === 'submitted') {
-                toast({
-                  title: "Test already submitted",
-                  description: "You have already completed this test.",
-                  variant: "destructive",
-                });
-                navigate("/student-dashboard");
-                return;
-              }
-              // Load any existing answers
-              loadPreviousAnswersFromDb(session.id);
-            }
-          } catch (sessionError) {
-            console.error("Session error:", sessionError);
-            // Fall back to local session
-            createLocalSession(mappedTest);
-          }
+          setPolicy(normalizePolicy(supabaseTest.proctoring_policy, supabaseTest.warning_threshold));
+          // The server derives remaining time from started_at, so reloads keep the same clock
+          const sessionTime = await getSessionTime(session.id);
+          setTimeLeft(sessionTime
+            ? sessionTime.remainingSeconds
+            : getCappedSeconds(mappedTest.duration, mappedTest.endTime));
+          setSessionId(session.id);
+          // Load any existing answers
+          loadPreviousAnswersFromDb(session.id);
           
           return;
         }
@@ -203,7 +329,8 @@ const TakeTest = () => {
       }
 
       setTest(t);
-      setTimeLeft(t.duration * 60);
+      setPolicy(t.proctoringPolicy || createDefaultPolicy(t.warningThreshold));
+      setTimeLeft(getCappedSeconds(t.duration, t.endTime));
       createLocalSession(t);
     };
 
@@ -242,14 +369,14 @@ const TakeTest = () => {
     };
 
     loadTest();
-  }, [id, user, navigate, getTestById, toast, getOrCreateSession]);
+  }, [id, user, navigate, getTestById, toast, getOrCreateSession, getSessionTime]);
 
   // Load evaluations (local placeholder)
   const loadEvaluations = async (_testId: string) => {
     setEvaluations({});
   };
 
-  // Load previously saved answers from Supabase
+  // Load previously saved answers from Supabase, plus any the outbox hasn't delivered yet
   const loadPreviousAnswersFromDb = async (testSessionId: string) => {
     try {
       const { data: answersData, error } = await supabase
@@ -262,20 +389,32 @@ const TakeTest = () => {
         return;
       }
 
-      if (answersData && answersData.length > 0) {
-        const loadedAnswers: Record<string, string | boolean> = {};
-        answersData.forEach((a) => {
-          if (a.student_answer) {
-            // Try to parse as boolean if it's true/false
-            if (a.student_answer === "true") {
-              loadedAnswers[a.question_id] = true;
-            } else if (a.student_answer === "false") {
-              loadedAnswers[a.question_id] = false;
-            } else {
-              loadedAnswers[a.question_id] = a.student_answer;
-            }
-          }
-        });
+      // Unsent answers from before a reload or crash are newer than the server's copy
+      const pending = await answerOutbox.pending(testSessionId);
+      const stored: Record<string, string> = {};
+      (answersData || []).forEach((a) => {
+        if (a.student_answer) stored[a.question_id] = a.student_answer;
+      });
+      pending.forEach((entry) => {
+        if (entry.answer === null) delete stored[entry.questionId];
+        else stored[entry.questionId] = entry.answer;
+      });
+
+      // Already on the server or in the outbox, so autosave doesn't queue them again
+      queuedAnswersRef.current = { ...stored };
+
+      const loadedAnswers: Record<string, string | boolean> = {};
+      Object.entries(stored).forEach(([questionId, answer]) => {
+        // Try to parse as boolean if it's true/false
+        if (answer === "true") {
+          loadedAnswers[questionId] = true;
+        } else if (answer === "false") {
+          loadedAnswers[questionId] = false;
+        } else {
+          loadedAnswers[questionId] = answer;
+        }
+      });
+      if (Object.keys(loadedAnswers).length > 0) {
         setAnswers(loadedAnswers);
       }
     } catch (error) {
@@ -288,35 +427,42 @@ const TakeTest = () => {
     if (!user || !id) return;
     try {
       const answersKey = `pariksha_answers_${id}_${user.id}`;
-      const imagesKey = `pariksha_images_${id}_${user.id}`;
       const savedAnswers = JSON.parse(localStorage.getItem(answersKey) || '{}');
-      const savedImages = JSON.parse(localStorage.getItem(imagesKey) || '{}');
       setAnswers(savedAnswers);
-      setImagePreviewUrls(savedImages);
     } catch (error) {
       console.error("Error loading previous answers (local):", error);
     }
   };
 
-  // Timer effect
+  // Timer effect - counts down locally between server resyncs
   useEffect(() => {
-    if (!timeLeft || timeLeft <= 0) return;
+    if (timeLeft === null) return;
+    if (timeLeft <= 0) {
+      handleSubmit();
+      return;
+    }
     
-    const timer = setInterval(() => {
-      setTimeLeft(prev => {
-        if (prev && prev > 0) {
-          return prev - 1;
-        } else {
-          clearInterval(timer);
-          handleSubmit(false);
-          return 0;
-        }
-      });
+    const timer = setTimeout(() => {
+      setTimeLeft(prev => (prev !== null ? Math.max(0, prev - 1) : prev));
     }, 1000);
     
-    return () => clearInterval(timer);
+    return () => clearTimeout(timer);
   }, [timeLeft]);
 
+  // Resync with the server deadline so a throttled tab or a changed clock cannot drift
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const interval = setInterval(async () => {
+      const sessionTime = await getSessionTime(sessionId);
+      if (sessionTime) {
+        setTimeLeft(sessionTime.remainingSeconds);
+      }
+    }, TIMER_RESYNC_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [sessionId, getSessionTime]);
+
   // Format time as MM:SS
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -333,28 +479,8 @@ const TakeTest = () => {
         (document as any).mozFullScreenElement
       );
       
+      // Exits are reported to the proctoring policy by useTestMonitoring
       setIsFullscreen(isCurrentlyFullscreen);
-      
-      // Warn if exiting fullscreen
-      if (!isCurrentlyFullscreen && test) {
-        const newWarningCount = warningCount + 1;
-        setWarningCount(newWarningCount);
-        
-        toast({
-          title: `Warning (${newWarningCount}/3)`,
-          description: "Please return to fullscreen mode or your test may be invalidated.",
-          variant: "destructive",
-        });
-        
-        if (newWarningCount >= 3) {
-          handleSubmit(true);
-        }
-        
-        // Update warning count in session
-        if (sessionId) {
-          updateLocalSessionWarnings(newWarningCount);
-        }
-      }
     };
     
     document.addEventListener("fullscreenchange", handleFullscreenChange);
@@ -366,13 +492,12 @@ const TakeTest = () => {
       document.removeEventListener("webkitfullscreenchange", handleFullscreenChange);
       document.removeEventListener("mozfullscreenchange", handleFullscreenChange);
     };
-  }, [test, warningCount, toast, sessionId]);
+  }, []);
 
-  // Update session warnings (local + Supabase)
-  const updateLocalSessionWarnings = async (count: number) => {
+  // Mirror the score locally; the server keeps its own total_warnings from the monitoring log
+  const updateLocalSessionWarnings = (count: number) => {
     if (!sessionId) return;
     try {
-      // Update local storage
       const SESS_KEY = "pariksha_sessions";
       const sessions: any[] = JSON.parse(localStorage.getItem(SESS_KEY) || "[]");
       const idx = sessions.findIndex(s => s.id === sessionId);
@@ -380,19 +505,48 @@ const TakeTest = () => {
         sessions[idx].warnings = count;
         localStorage.setItem(SESS_KEY, JSON.stringify(sessions));
       }
-      
-      // Also update in Supabase
-      await updateSessionWarnings(sessionId, { total_warnings: count });
     } catch (error) {
       console.error("Error updating session warnings:", error);
     }
   };
 
+  // Outcome of the face check at exam start; a mismatch or a missing enrollment still lets the test go ahead but is reported
+  const handleIdentityChecked = (result: IdentityCheckResult) => {
+    setIdentityChecked(true);
+
+    if (result.status === 'unenrolled') {
+      // Nothing to re-verify against, so faculty review the snapshot instead
+      publish('identity_unverified', { stage: 'start' }, result.evidence ?? undefined);
+      return;
+    }
+
+    setReferenceEmbedding(result.reference);
+    if (result.status === 'mismatch') {
+      publish('identity_mismatch', { distance: result.distance, stage: 'start' }, result.evidence ?? undefined);
+    } else {
+      publish('identity_verified', result.status === 'enrolled' ? { enrolled: true } : { distance: result.distance });
+    }
+  };
+
+  const identityRequired = policy.rules.identity_mismatch.enabled;
+  const isVerified = testIdVerified && (identityChecked || !identityRequired);
+  const visionModels: VisionModel[] = [
+    "face_landmarker",
+    ...(policy.rules.prohibited_object.enabled ? ["object_detector" as const] : []),
+    ...(identityRequired ? ["face_recognizer" as const] : []),
+  ];
+
   // Monitoring integration
+  const hasStartedRef = useRef(false);
   useEffect(() => {
-    if (test && testIdVerified && monitorFullscreen && !isMonitoring) {
+    if (test && isVerified && monitorFullscreen && !isMonitoring) {
       startMonitoring();
       webcamMonitoring.startMonitoring();
+      // Monitoring restarts after every return to fullscreen; log the start once
+      if (!hasStartedRef.current) {
+        hasStartedRef.current = true;
+        publish('test_started');
+      }
       toast({
         title: "Monitoring Active",
         description: "AI-powered test monitoring is now active. Stay in fullscreen and on this tab.",
@@ -403,21 +557,11 @@ const TakeTest = () => {
       stopMonitoring();
       webcamMonitoring.stopMonitoring();
     }
-  }, [test, testIdVerified, monitorFullscreen, isMonitoring, startMonitoring, stopMonitoring, toast]);
+  }, [test, isVerified, monitorFullscreen, isMonitoring, startMonitoring, stopMonitoring, toast, publish]);
 
-  // Enhanced tab switching prevention
+  // Enhanced tab switching prevention (tab switches themselves are reported by useTestMonitoring)
   useEffect(() => {
-    const handleVisibilityChange = () => {
-      if (document.visibilityState === 'hidden' && test && isFullscreen) {
-        // Immediate termination on any tab switch during test
-        toast({
-          title: "Test Terminated",
-          description: "Tab switching detected. Test has been automatically terminated.",
-          variant: "destructive",
-        });
-        handleSubmit(true);
-      }
-    };
+    let blurTimeout: ReturnType<typeof setTimeout> | undefined;
 
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
       if (test && isFullscreen) {
@@ -429,56 +573,27 @@ const TakeTest = () => {
 
     const handleBlur = () => {
       if (test && isFullscreen) {
-        toast({
-          title: "Test Terminated", 
-          description: "Window lost focus. Test has been automatically terminated.",
-          variant: "destructive",
-        });
-        handleSubmit(true);
-      }
-    };
-
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (test && isFullscreen) {
-        // Prevent common shortcuts that might exit fullscreen or switch tabs
-        if (
-          (e.ctrlKey && (e.key === 't' || e.key === 'w' || e.key === 'Tab')) ||
-          (e.altKey && e.key === 'Tab') ||
-          e.key === 'F11' ||
-          (e.ctrlKey && e.shiftKey && e.key === 'T')
-        ) {
-          e.preventDefault();
-          toast({
-            title: "Action Blocked",
-            description: "This action is not allowed during the test.",
-            variant: "destructive",
-          });
-        }
+        // A tab switch blurs the window too; only count focus lost to another window
+        clearTimeout(blurTimeout);
+        blurTimeout = setTimeout(() => {
+          if (!document.hidden) {
+            publish('window_blur');
+          }
+        }, 250);
       }
     };
 
-    const handleContextMenu = (e: MouseEvent) => {
-      if (test && isFullscreen) {
-        e.preventDefault();
-      }
-    };
-    
     if (test && isFullscreen) {
-      document.addEventListener('visibilitychange', handleVisibilityChange);
       window.addEventListener('beforeunload', handleBeforeUnload);
       window.addEventListener('blur', handleBlur);
-      document.addEventListener('keydown', handleKeyDown);
-      document.addEventListener('contextmenu', handleContextMenu);
     }
     
     return () => {
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      clearTimeout(blurTimeout);
       window.removeEventListener('beforeunload', handleBeforeUnload);
       window.removeEventListener('blur', handleBlur);
-      document.removeEventListener('keydown', handleKeyDown);
-      document.removeEventListener('contextmenu', handleContextMenu);
     };
-  }, [test, isFullscreen, toast, sessionId]);
+  }, [test, isFullscreen, toast, sessionId, publish]);
 
   // Handle when multiple people are detected (now handled by WebcamMonitor)
   const handleMultiplePeopleDetected = (count: number) => {
@@ -500,27 +615,31 @@ const TakeTest = () => {
     });
   };
 
-  // Save answer after change (debounced)
+  // Log navigation so the integrity review can place events on the question being answered
+  useEffect(() => {
+    if (!test || !isMonitoring) return;
+    const question = test.questions[currentQuestionIndex];
+    if (!question) return;
+    publish('question_viewed', { question_id: question.id, question_number: currentQuestionIndex + 1 });
+  }, [test, isMonitoring, currentQuestionIndex, publish]);
+
+  // Save changed answers shortly after typing stops; the outbox streams them to the server
   useEffect(() => {
     const saveTimeout = setTimeout(async () => {
       if (!user || !test || !sessionId) return;
-      const currentQuestion = test.questions[currentQuestionIndex];
-      if (!currentQuestion) return;
-      const answer = answers[currentQuestion.id];
-      if (answer === undefined) return;
 
       try {
         const answersKey = `pariksha_answers_${test.id}_${user.id}`;
-        const existing = JSON.parse(localStorage.getItem(answersKey) || '{}');
-        existing[currentQuestion.id] = answer;
-        localStorage.setItem(answersKey, JSON.stringify(existing));
+        localStorage.setItem(answersKey, JSON.stringify(answers));
       } catch (error) {
-        console.error("Error saving answer (local):", error);
+        console.error("Error saving answers (local):", error);
       }
-    }, 500);
+
+      queueChangedAnswers(answers);
+    }, AUTOSAVE_DELAY_MS);
 
     return () => clearTimeout(saveTimeout);
-  }, [answers, currentQuestionIndex, test, user, sessionId]);
+  }, [answers, test, user, sessionId, queueChangedAnswers]);
 
   const handleAnswerChange = (questionId: string, value: string | boolean) => {
     setAnswers(prev => ({
@@ -530,63 +649,69 @@ const TakeTest = () => {
   };
 
   const handleImageUpload = async (questionId: string, e: React.ChangeEvent<HTMLInputElement>) => {
-    if (!e.target.files || !e.target.files[0] || !user || !test) return;
-    
-    const file = e.target.files[0];
-    
-    // Create a preview URL
-    const previewUrl = URL.createObjectURL(file);
-    
-    setImageFiles(prev => ({
-      ...prev,
-      [questionId]: file
-    }));
-    
-    setImagePreviewUrls(prev => ({
-      ...prev,
-      [questionId]: previewUrl
-    }));
-    
-    // Set a placeholder answer to track that this question has been answered
-    setAnswers(prev => ({
-      ...prev,
-      [questionId]: "image_uploaded"
-    }));
-    
-    try {
-      // Save image locally (base64) for this user/test/question
-      const reader = new FileReader();
-      const dataUrl: string = await new Promise((resolve, reject) => {
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = reject;
-        reader.readAsDataURL(file);
-      });
+    const file = e.target.files?.[0];
+    // Let the same file be picked again after a failed upload
+    e.target.value = '';
+    if (!file || !user || !test || !sessionId) return;
+
+    setImageUploadProgress(prev => ({ ...prev, [questionId]: 0 }));
 
-      const imagesKey = `pariksha_images_${test.id}_${user.id}`;
-      const existingImages = JSON.parse(localStorage.getItem(imagesKey) || '{}');
-      existingImages[questionId] = dataUrl;
-      localStorage.setItem(imagesKey, JSON.stringify(existingImages));
+    try {
+      const image = await compressImage(file);
+      const path = await uploadAnswerImage(sessionId, questionId, image, (fraction) =>
+        setImageUploadProgress(prev => ({ ...prev, [questionId]: fraction }))
+      );
 
-      // Also persist the placeholder answer so reloading restores state
-      const answersKey = `pariksha_answers_${test.id}_${user.id}`;
-      const existingAnswers = JSON.parse(localStorage.getItem(answersKey) || '{}');
-      existingAnswers[questionId] = "image_uploaded";
-      localStorage.setItem(answersKey, JSON.stringify(existingAnswers));
+      setImagePreviewUrls(prev => ({
+        ...prev,
+        [questionId]: URL.createObjectURL(image)
+      }));
 
-      toast({
-        title: "Image saved",
-        description: "Your image has been saved locally for this test.",
-      });
+      // The answer is the stored object's path; autosave sends it like any other answer
+      setAnswers(prev => ({
+        ...prev,
+        [questionId]: path
+      }));
     } catch (error) {
-      console.error("Error processing image upload (local):", error);
+      console.error("Error uploading image answer:", error);
       toast({
-        title: "Save failed",
-        description: "An error occurred while saving your image locally.",
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : "Your image could not be uploaded. Please try again.",
         variant: "destructive",
       });
+    } finally {
+      setImageUploadProgress(prev => {
+        const next = { ...prev };
+        delete next[questionId];
+        return next;
+      });
     }
   };
 
+  // Show image answers restored from the server or a previous page load
+  useEffect(() => {
+    if (!test || !sessionId) return;
+
+    let cancelled = false;
+    test.questions
+      .filter((q: { id: string; type: string }) => q.type === "image")
+      .forEach(async (q: { id: string }) => {
+        const answer = answers[q.id];
+        if (typeof answer !== "string" || !isAnswerImagePath(answer, sessionId) || imagePreviewUrls[q.id]) return;
+
+        try {
+          const url = await getAnswerImageUrl(answer);
+          if (!cancelled) setImagePreviewUrls(prev => ({ ...prev, [q.id]: url }));
+        } catch (error) {
+          console.error("Error loading image answer:", error);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [test, sessionId, answers, imagePreviewUrls]);
+
   const handleNextQuestion = () => {
     if (test && currentQuestionIndex < test.questions.length - 1) {
       setCurrentQuestionIndex(prev => prev + 1);
@@ -599,11 +724,64 @@ const TakeTest = () => {
     }
   };
 
-  const handleSubmit = async (forced = false) => {
+  // A termination can't wait for the network: the test locks now and the server is told once it is reachable
+  const terminateTest = async () => {
+    if (terminatingRef.current) return;
+    terminatingRef.current = true;
+    setIsTerminated(true);
+
+    stopMonitoring();
+    webcamMonitoring.stopMonitoring();
+    Object.values(imagePreviewUrls).forEach(url => {
+      if (url.startsWith('blob:')) {
+        URL.revokeObjectURL(url);
+      }
+    });
+
+    if (sessionId) {
+      const SESS_KEY = "pariksha_sessions";
+      const sessions: any[] = JSON.parse(localStorage.getItem(SESS_KEY) || "[]");
+      const idx = sessions.findIndex(s => s.id === sessionId);
+      if (idx !== -1) {
+        sessions[idx].status = 'terminated';
+        sessions[idx].ended_at = new Date().toISOString();
+        localStorage.setItem(SESS_KEY, JSON.stringify(sessions));
+      }
+
+      publish('test_terminated', {
+        total_violations: proctoring.violationCount,
+        integrity_score: proctoring.score,
+      });
+
+      await queueChangedAnswers(answers).catch((error) => {
+        console.error("Error saving answers before termination:", error);
+      });
+      while (!(await submitTestToDb(sessionId, flushAnswers, true))) {
+        await new Promise(resolve => window.setTimeout(resolve, TERMINATE_RETRY_MS));
+      }
+      await flushEvents();
+    }
+
+    navigate("/student-dashboard");
+    toast({
+      title: "Test Terminated",
+      description: `Test terminated due to security violations. Total violations: ${proctoring.violationCount}`,
+      variant: "destructive",
+    });
+  };
+
+  const handleSubmit = async () => {
     if (isSubmitting) return;
     setIsSubmitting(true);
     
     try {
+      if (sessionId) {
+        // Journal anything the autosave hasn't picked up yet; submitTest replays the whole outbox
+        await queueChangedAnswers(answers);
+        const submitted = await submitTestToDb(sessionId, flushAnswers);
+        if (!submitted) return;
+      }
+
       // Stop monitoring
       stopMonitoring();
       webcamMonitoring.stopMonitoring();
@@ -616,37 +794,27 @@ const TakeTest = () => {
       });
       
       if (sessionId) {
-        // Submit to Supabase - convert answers to strings
-        const stringAnswers: Record<string, string> = {};
-        Object.entries(answers).forEach(([key, value]) => {
-          stringAnswers[key] = String(value);
-        });
-        const submitted = await submitTestToDb(sessionId, stringAnswers, forced);
-        
         // Also update local storage
         const SESS_KEY = "pariksha_sessions";
         const sessions: any[] = JSON.parse(localStorage.getItem(SESS_KEY) || "[]");
         const idx = sessions.findIndex(s => s.id === sessionId);
         if (idx !== -1) {
-          sessions[idx].status = forced ? 'terminated' : 'completed';
+          sessions[idx].status = 'completed';
           sessions[idx].ended_at = new Date().toISOString();
           localStorage.setItem(SESS_KEY, JSON.stringify(sessions));
         }
         
-        // Log monitoring event
-        await logMonitoringEvent(sessionId, forced ? 'test_terminated' : 'test_submitted', {
-          total_violations: totalViolations,
-          warning_count: warningCount,
+        publish('test_submitted', {
+          total_violations: proctoring.violationCount,
+          integrity_score: proctoring.score,
         });
+        await flushEvents();
       }
       
       navigate("/student-dashboard");
       toast({
-        title: forced ? "Test Terminated" : "Test Submitted",
-        description: forced 
-          ? `Test terminated due to security violations. Total violations: ${totalViolations}` 
-          : "Your answers have been submitted successfully.",
-        variant: forced ? "destructive" : "default",
+        title: "Test Submitted",
+        description: "Your answers have been submitted successfully.",
       });
     } catch (error) {
       console.error("Error submitting test:", error);
@@ -662,7 +830,7 @@ const TakeTest = () => {
 
   // Create wrapper functions for onClick handlers
   const handleSubmitClick = () => {
-    handleSubmit(false);
+    handleSubmit();
   };
 
   if (!test) {
@@ -683,6 +851,36 @@ const TakeTest = () => {
     <>
       <ThreeDBackground />
       <div className="min-h-screen p-4 relative z-10">
+        {proctoring.isPaused && (
+          // The exam timer keeps ticking every second, which also refreshes this countdown
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/95 backdrop-blur-md">
+            <Card className="max-w-md bg-card/90 border-destructive/20">
+              <CardContent className="p-6 text-center space-y-3">
+                <AlertTriangle className="h-10 w-10 text-destructive mx-auto" />
+                <h2 className="text-2xl font-bold">Test Paused</h2>
+                <p className="text-muted-foreground">
+                  A proctoring violation locked the test. You can continue in{" "}
+                  {Math.max(0, Math.ceil((proctoring.pausedUntil - Date.now()) / 1000))} seconds.
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+        {isTerminated && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/95 backdrop-blur-md">
+            <Card className="max-w-md bg-card/90 border-destructive/20">
+              <CardContent className="p-6 text-center space-y-3">
+                <AlertTriangle className="h-10 w-10 text-destructive mx-auto" />
+                <h2 className="text-2xl font-bold">Test Terminated</h2>
+                <p className="text-muted-foreground">
+                  Your test was terminated due to security violations. Keep this page open while it is
+                  recorded; if you are offline, it is sent as soon as you reconnect.
+                </p>
+                <RefreshCw className="h-5 w-5 animate-spin text-muted-foreground mx-auto" />
+              </CardContent>
+            </Card>
+          </div>
+        )}
         {!systemReady ? (
           <div className="flex items-center justify-center h-screen">
             <motion.div
@@ -693,6 +891,9 @@ const TakeTest = () => {
               <BackgroundAppManager
                 onSystemReady={handleSystemReady}
                 onSystemNotReady={handleSystemNotReady}
+                visionModels={visionModels}
+                requireScreenShare={policy.rules.screen_share_stopped.enabled}
+                checkDisplays={policy.rules.secondary_display.enabled}
               />
               
               {systemWarnings.length > 0 && (
@@ -721,10 +922,16 @@ const TakeTest = () => {
                         <Button 
                           onClick={() => setSystemReady(true)}
                           variant="destructive"
+                          disabled={!canProceedAnyway}
                         >
                           Proceed Anyway (Not Recommended)
                         </Button>
                       </div>
+                      {!canProceedAnyway && (
+                        <p className="text-sm text-muted-foreground">
+                          Disconnect the extra display and try again to start the exam.
+                        </p>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
@@ -796,6 +1003,14 @@ const TakeTest = () => {
               testTitle={test.title}
             />
           </div>
+        ) : !isVerified ? (
+          <div className="flex items-center justify-center h-screen">
+            <FaceIdentityCheck
+              profileId={user.id}
+              mode="verify"
+              onComplete={handleIdentityChecked}
+            />
+          </div>
         ) : (
           <motion.div 
             initial={{ opacity: 0 }}
@@ -816,6 +1031,20 @@ const TakeTest = () => {
               isActive={webcamMonitoring.isMonitoring}
               onViolation={webcamMonitoring.addViolation}
               onStatusUpdate={webcamMonitoring.updateStatus}
+              objectScanSeconds={policy.rules.prohibited_object.enabled ? policy.objectScanSeconds : 0}
+              referenceEmbedding={identityRequired ? referenceEmbedding : null}
+            />
+
+            <AudioMonitor
+              isActive={isMonitoring && policy.rules.speech_detected.enabled}
+              sensitivity={policy.audioSensitivity}
+              onViolation={(type, details) => publish(type, { ...details })}
+            />
+
+            <ScreenShareMonitor
+              isActive={isMonitoring && policy.rules.screen_share_stopped.enabled}
+              intervalSeconds={policy.screenshotSeconds}
+              onEvent={publish}
             />
 
             <div className="flex justify-between items-center mb-6">
@@ -831,21 +1060,30 @@ const TakeTest = () => {
                 </div>
               </div>
               <div className="flex items-center gap-4">
+                <div
+                  className={`flex items-center gap-2 p-2 rounded-md ${ANSWER_SYNC_BADGES[answerSyncStatus].className}`}
+                  title={ANSWER_SYNC_BADGES[answerSyncStatus].title}
+                >
+                  {answerSyncStatus === 'saved' && <Cloud className="h-5 w-5" />}
+                  {answerSyncStatus === 'pending' && <RefreshCw className="h-5 w-5 animate-spin" />}
+                  {(answerSyncStatus === 'offline' || answerSyncStatus === 'rejected') && <CloudOff className="h-5 w-5" />}
+                  {ANSWER_SYNC_BADGES[answerSyncStatus].label}
+                </div>
                 <div className="flex items-center gap-2 bg-primary/20 text-primary p-2 rounded-md">
                   <Timer className="h-5 w-5" />
                   {timeLeft !== null ? formatTime(timeLeft) : "00:00"}
                 </div>
                 <div className="flex items-center gap-2 bg-primary/20 text-primary p-2 rounded-md">
                   <AlertTriangle className="h-5 w-5" />
-                  Total Violations: {totalViolations}/9
+                  Violations: {proctoring.violationCount}
                 </div>
                 <div className="flex items-center gap-2 bg-primary/20 text-primary p-2 rounded-md">
                   <Eye className="h-5 w-5" />
-                  Warnings: {warningCount}/3
+                  Integrity Score: {proctoring.score}/{policy.scoreThreshold}
                 </div>
                 <div className="flex items-center gap-2 bg-primary/20 text-primary p-2 rounded-md">
                   <TabletSmartphone className="h-5 w-5" />
-                  Tab Shifts: {rapidTabSwitches}/3
+                  Tab Switches: {proctoring.counts.tab_switch || 0}
                 </div>
               </div>
             </div>
@@ -886,6 +1124,10 @@ const TakeTest = () => {
                       )}
                       
                       <h3 className="text-xl font-semibold mb-4">{currentQuestion.text}</h3>
+
+                      {currentQuestion.imagePath && (
+                        <QuestionImage key={currentQuestion.id} path={currentQuestion.imagePath} className="mb-4 max-h-96" />
+                      )}
                       
                       {/* MCQ Question */}
                       {currentQuestion.type === "mcq" && currentQuestion.options && (
@@ -976,6 +1218,18 @@ const TakeTest = () => {
                         </div>
                       )}
                       
+                      {/* Coding Question */}
+                      {currentQuestion.type === "coding" && (
+                        <CodingConsole
+                          key={currentQuestion.id}
+                          language={currentQuestion.codingLanguage || "javascript"}
+                          starterCode={(answers[currentQuestion.id] as string) || currentQuestion.starterCode || ""}
+                          testCases={currentQuestion.testCases}
+                          expectedOutput={currentQuestion.expectedOutput}
+                          onCodeChange={(code) => handleAnswerChange(currentQuestion.id, code)}
+                        />
+                      )}
+
                       {/* Image Upload Question */}
                       {currentQuestion.type === "image" && (
                         <div className="space-y-3">
@@ -991,15 +1245,16 @@ const TakeTest = () => {
                               <Button
                                 variant="outline"
                                 onClick={() => {
-                                  // Clear the image
-                                  if (imagePreviewUrls[currentQuestion.id]) {
+                                  // Clear the image; autosave clears the answer and the uploaded copy is deleted
+                                  if (imagePreviewUrls[currentQuestion.id]?.startsWith('blob:')) {
                                     URL.revokeObjectURL(imagePreviewUrls[currentQuestion.id]);
                                   }
-                                  
-                                  setImageFiles(prev => ({
-                                    ...prev,
-                                    [currentQuestion.id]: null
-                                  }));
+                                  const previous = answers[currentQuestion.id];
+                                  if (sessionId && typeof previous === "string" && isAnswerImagePath(previous, sessionId)) {
+                                    deleteAnswerImage(previous).catch((error) =>
+                                      console.error("Error deleting replaced image answer:", error)
+                                    );
+                                  }
                                   
                                   setImagePreviewUrls(prev => {
                                     const newUrls = {...prev};
@@ -1017,6 +1272,13 @@ const TakeTest = () => {
                                 Change Image
                               </Button>
                             </div>
+                          ) : imageUploadProgress[currentQuestion.id] !== undefined ? (
+                            <div className="border border-dashed rounded-lg p-8 space-y-3">
+                              <p className="text-center text-sm text-muted-foreground">
+                                Uploading... {Math.round(imageUploadProgress[currentQuestion.id] * 100)}%
+                              </p>
+                              <Progress value={imageUploadProgress[currentQuestion.id] * 100} />
+                            </div>
                           ) : (
                             <div className="space-y-2">
                               <label 
@@ -1028,7 +1290,7 @@ const TakeTest = () => {
                                   {currentQuestion.imagePrompt || "Click to upload an image or drag and drop"}
                                 </p>
                                 <p className="text-sm text-muted-foreground mt-2">
-                                  PNG or JPG (max. 5MB)
+                                  PNG or JPG; large photos are compressed before upload
                                 </p>
                               </label>
                               <input
@@ -82,7 +82,7 @@ const TestDashboard = () => {
           <LiveMonitoringDashboard
             testId={id || ""}
             testTitle={test.title}
-            warningThreshold={3}
+            warningThreshold={test.warningThreshold ?? 3}
             onBack={() => setShowFullMonitor(false)}
           />
         </div>
@@ -95,7 +95,7 @@ const TestDashboard = () => {
   const completedStudents = sessions.filter(s => s.status === "submitted").length;
   const terminatedStudents = sessions.filter(s => s.status === "terminated").length;
   const totalWarnings = sessions.reduce((acc, s) => acc + s.total_warnings, 0);
-  const highRiskStudents = sessions.filter(s => s.total_warnings >= 3).length;
+  const highRiskStudents = sessions.filter(s => s.total_warnings >= (test.warningThreshold ?? 3)).length;
 
   const handleCopyTestId = () => {
     if (test.unique_id) {
@@ -160,6 +160,14 @@ const TestDashboard = () => {
         </div>
 
         <div className="flex items-center gap-3">
+          <Button
+            variant="outline"
+            onClick={() => navigate(`/integrity-review/${id}`)}
+          >
+            <Shield className="h-4 w-4 mr-2" />
+            Integrity Review
+          </Button>
+
           {/* Full Monitor Button */}
           <Button
             onClick={() => setShowFullMonitor(true)}
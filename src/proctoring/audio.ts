@@ -0,0 +1,238 @@
+import type { AudioSensitivity } from "./types";
+
+export interface SpeechDetection {
+  // Voiced time inside the detection window
+  seconds: number;
+  multipleSpeakers: boolean;
+}
+
+export interface VoiceActivityStatus {
+  // 0..1 loudness of the speech band, for a level meter
+  level: number;
+  isSpeaking: boolean;
+}
+
+interface SensitivityProfile {
+  // dB above the tracked noise floor for a frame to count as voiced
+  marginDb: number;
+  // Fraction of the window that must be voiced to count as sustained speech
+  voicedRatio: number;
+}
+
+const SENSITIVITY_PROFILES: Record<AudioSensitivity, SensitivityProfile> = {
+  low: { marginDb: 18, voicedRatio: 0.6 },
+  medium: { marginDb: 12, voicedRatio: 0.45 },
+  high: { marginDb: 8, voicedRatio: 0.3 },
+};
+
+const FRAME_INTERVAL_MS = 100;
+const WINDOW_FRAMES = 30; // 3 seconds
+const COOLDOWN_MS = 10000;
+// The noise floor starts at the median level of this warm-up, during which nothing counts as voiced;
+// the median rides out the silent frames the analyser returns before audio arrives
+const WARMUP_FRAMES = 5;
+const SPEECH_BAND_HZ: [number, number] = [300, 3400];
+// Typical adult voice pitch range used for speaker separation
+const PITCH_RANGE_HZ: [number, number] = [75, 400];
+// Voice pitch sits far below this, so the waveform is averaged down to it before the
+// autocorrelation; at 48 kHz that is roughly 35 times less work per frame
+const PITCH_SAMPLE_RATE_HZ = 8000;
+// Pitch clusters further apart than this are treated as different speakers
+const SPEAKER_SEPARATION_HZ = 60;
+const MIN_CLUSTER_SHARE = 0.25;
+
+/**
+ * Browser-only voice activity detection on a microphone stream. Nothing is
+ * recorded or sent anywhere; only the resulting detections leave this class.
+ */
+export class VoiceActivityDetector {
+  private context: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private spectrum: Float32Array = new Float32Array(0);
+  private waveform: Float32Array = new Float32Array(0);
+  private pitchSamples: Float32Array = new Float32Array(0);
+  private decimation = 1;
+  private noiseFloorDb = -70;
+  private warmupLevels: number[] = [];
+  private frames: { voiced: boolean; pitch: number | null }[] = [];
+  private lastDetectionAt = 0;
+
+  constructor(
+    private sensitivity: AudioSensitivity,
+    private onSpeech: (detection: SpeechDetection) => void,
+    private onStatus?: (status: VoiceActivityStatus) => void
+  ) {}
+
+  async start(stream: MediaStream) {
+    this.stop();
+
+    this.context = new AudioContext();
+    // Created outside a user gesture, so it may start suspended
+    if (this.context.state === "suspended") {
+      await this.context.resume();
+    }
+
+    this.analyser = this.context.createAnalyser();
+    this.analyser.fftSize = 2048;
+    this.analyser.smoothingTimeConstant = 0.2;
+    this.source = this.context.createMediaStreamSource(stream);
+    this.source.connect(this.analyser);
+
+    this.spectrum = new Float32Array(this.analyser.frequencyBinCount);
+    this.waveform = new Float32Array(this.analyser.fftSize);
+    this.decimation = Math.max(1, Math.floor(this.context.sampleRate / PITCH_SAMPLE_RATE_HZ));
+    this.pitchSamples = new Float32Array(Math.floor(this.waveform.length / this.decimation));
+    this.frames = [];
+    this.noiseFloorDb = -70;
+    this.warmupLevels = [];
+    this.timer = setInterval(() => this.analyse(), FRAME_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.source?.disconnect();
+    this.source = null;
+    this.analyser = null;
+    this.context?.close();
+    this.context = null;
+  }
+
+  setSensitivity(sensitivity: AudioSensitivity) {
+    this.sensitivity = sensitivity;
+  }
+
+  private analyse() {
+    if (!this.analyser || !this.context) return;
+
+    this.analyser.getFloatFrequencyData(this.spectrum);
+    const bandDb = this.bandEnergyDb();
+
+    const warmingUp = this.warmupLevels.length < WARMUP_FRAMES;
+    if (warmingUp) {
+      this.warmupLevels.push(bandDb);
+      if (this.warmupLevels.length === WARMUP_FRAMES) {
+        const sorted = [...this.warmupLevels].sort((a, b) => a - b);
+        this.noiseFloorDb = sorted[Math.floor(WARMUP_FRAMES / 2)];
+      }
+    } else {
+      // Follow drops in background noise quickly and rises slowly, so speech doesn't become the floor
+      const rate = bandDb < this.noiseFloorDb ? 0.2 : 0.005;
+      this.noiseFloorDb += (bandDb - this.noiseFloorDb) * rate;
+    }
+
+    const { marginDb, voicedRatio } = SENSITIVITY_PROFILES[this.sensitivity];
+    const voiced = !warmingUp && bandDb - this.noiseFloorDb > marginDb;
+    const pitch = voiced ? this.estimatePitch() : null;
+
+    this.frames.push({ voiced, pitch });
+    if (this.frames.length > WINDOW_FRAMES) this.frames.shift();
+
+    const voicedFrames = this.frames.filter((frame) => frame.voiced).length;
+    const isSpeaking = this.frames.length === WINDOW_FRAMES && voicedFrames / WINDOW_FRAMES >= voicedRatio;
+
+    this.onStatus?.({
+      level: Math.min(1, Math.max(0, (bandDb - this.noiseFloorDb) / 40)),
+      isSpeaking,
+    });
+
+    const now = Date.now();
+    if (isSpeaking && now - this.lastDetectionAt > COOLDOWN_MS) {
+      this.lastDetectionAt = now;
+      this.onSpeech({
+        seconds: Math.round((voicedFrames * FRAME_INTERVAL_MS) / 100) / 10,
+        multipleSpeakers: this.hasMultipleSpeakers(),
+      });
+    }
+  }
+
+  // Mean power across the speech band, in dB
+  private bandEnergyDb() {
+    const binHz = this.context.sampleRate / this.analyser.fftSize;
+    const from = Math.floor(SPEECH_BAND_HZ[0] / binHz);
+    const to = Math.min(this.spectrum.length - 1, Math.ceil(SPEECH_BAND_HZ[1] / binHz));
+
+    let power = 0;
+    for (let i = from; i <= to; i++) {
+      power += Math.pow(10, this.spectrum[i] / 10);
+    }
+    return 10 * Math.log10(power / (to - from + 1) + 1e-12);
+  }
+
+  // Autocorrelation pitch estimate over the downsampled waveform; null when there's no clear period
+  private estimatePitch() {
+    this.analyser.getFloatTimeDomainData(this.waveform);
+    const samples = this.pitchSamples;
+    const factor = this.decimation;
+
+    // Averaging each block is a cheap low-pass filter ahead of the decimation
+    for (let i = 0; i < samples.length; i++) {
+      let sum = 0;
+      for (let j = i * factor; j < (i + 1) * factor; j++) sum += this.waveform[j];
+      samples[i] = sum / factor;
+    }
+
+    const sampleRate = this.context.sampleRate / factor;
+    const minLag = Math.max(1, Math.floor(sampleRate / PITCH_RANGE_HZ[1]));
+    const maxLag = Math.min(samples.length - 2, Math.ceil(sampleRate / PITCH_RANGE_HZ[0]));
+
+    let energy = 0;
+    for (let i = 0; i < samples.length; i++) energy += samples[i] * samples[i];
+    if (energy === 0) return null;
+
+    const correlate = (lag: number) => {
+      let correlation = 0;
+      for (let i = 0; i < samples.length - lag; i++) correlation += samples[i] * samples[i + lag];
+      return correlation / energy;
+    };
+
+    let bestLag = -1;
+    let bestCorrelation = 0;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      const correlation = correlate(lag);
+      if (correlation > bestCorrelation) {
+        bestCorrelation = correlation;
+        bestLag = lag;
+      }
+    }
+    if (bestLag <= 0 || bestCorrelation <= 0.5) return null;
+
+    // Fit a parabola through the peak to recover the precision lost to the coarser lag steps
+    const before = correlate(bestLag - 1);
+    const after = correlate(bestLag + 1);
+    const curvature = before - 2 * bestCorrelation + after;
+    const offset = curvature < 0 ? (before - after) / (2 * curvature) : 0;
+    return sampleRate / (bestLag + offset);
+  }
+
+  /**
+   * Splits the window's pitch samples at their widest gap; two well separated,
+   * well populated groups suggest more than one voice
+   */
+  private hasMultipleSpeakers() {
+    const pitches = this.frames
+      .map((frame) => frame.pitch)
+      .filter((pitch): pitch is number => pitch !== null)
+      .sort((a, b) => a - b);
+    if (pitches.length < 6) return false;
+
+    let gapIndex = 0;
+    let widestGap = 0;
+    for (let i = 1; i < pitches.length; i++) {
+      const gap = pitches[i] - pitches[i - 1];
+      if (gap > widestGap) {
+        widestGap = gap;
+        gapIndex = i;
+      }
+    }
+
+    const lower = gapIndex / pitches.length;
+    return widestGap >= SPEAKER_SEPARATION_HZ
+      && lower >= MIN_CLUSTER_SHARE
+      && 1 - lower >= MIN_CLUSTER_SHARE;
+  }
+}
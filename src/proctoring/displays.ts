@@ -0,0 +1,94 @@
+// Window Management API surface used here; not in TypeScript's DOM typings yet
+interface ScreenDetails extends EventTarget {
+  screens: unknown[];
+}
+
+type WindowWithScreenDetails = Window & { getScreenDetails?: () => Promise<ScreenDetails> };
+// Chromium fires "change" on window.screen when isExtended flips
+type ExtendedScreen = Screen & Partial<EventTarget> & { isExtended?: boolean };
+
+// Fallback for browsers that don't fire a change event when a display is plugged in
+const DISPLAY_POLL_MS = 10000;
+
+export interface DisplayStatus {
+  // False when the browser can't tell whether other displays are connected
+  supported: boolean;
+  extended: boolean;
+  // Number of displays, known only once window-management permission is granted
+  count: number | null;
+}
+
+const hasWindowManagementPermission = async () => {
+  try {
+    const status = await navigator.permissions.query({ name: "window-management" as PermissionName });
+    return status.state === "granted";
+  } catch {
+    return false;
+  }
+};
+
+const getScreenDetails = async (requestPermission: boolean) => {
+  const { getScreenDetails } = window as WindowWithScreenDetails;
+  if (!getScreenDetails) return null;
+  if (!requestPermission && !(await hasWindowManagementPermission())) return null;
+
+  try {
+    return await getScreenDetails.call(window);
+  } catch {
+    // Permission denied or dismissed; fall back to screen.isExtended
+    return null;
+  }
+};
+
+/**
+ * Whether more than one display is connected
+ * @param requestPermission Ask for window-management permission so displays can be counted.
+ * Shows a browser prompt, so only pass true from a user action such as the system check.
+ */
+export const checkDisplays = async (requestPermission = false): Promise<DisplayStatus> => {
+  const isExtended = (window.screen as ExtendedScreen).isExtended;
+  const details = await getScreenDetails(requestPermission);
+
+  if (details) {
+    const count = details.screens.length;
+    return { supported: true, extended: count > 1 || isExtended === true, count };
+  }
+  if (isExtended === undefined) {
+    return { supported: false, extended: false, count: null };
+  }
+  return { supported: true, extended: isExtended, count: null };
+};
+
+/**
+ * Re-checks the displays whenever one is added or removed
+ * @returns Function that stops watching
+ */
+export const watchDisplays = (onChange: (status: DisplayStatus) => void) => {
+  let stopped = false;
+  let details: ScreenDetails | null = null;
+  const screen = window.screen as ExtendedScreen;
+
+  const check = async () => {
+    const status = await checkDisplays();
+    if (!stopped) onChange(status);
+  };
+
+  screen.addEventListener?.("change", check);
+  const poll = window.setInterval(check, DISPLAY_POLL_MS);
+
+  // screenschange only fires once permission has been granted
+  getScreenDetails(false).then((result) => {
+    if (stopped || !result) return;
+    details = result;
+    details.addEventListener("screenschange", check);
+  });
+
+  check();
+
+  return () => {
+    stopped = true;
+    screen.removeEventListener?.("change", check);
+    window.clearInterval(poll);
+    details?.removeEventListener("screenschange", check);
+  };
+};
@@ -0,0 +1,63 @@
+import { mostSevere } from "./policy";
+import type { PolicyDecision, ProctoringPolicy, ViolationType } from "./types";
+
+/**
+ * Evaluates violations from every monitoring source against one test's policy.
+ * Holds only counters, so the same instance can be replayed or reset freely.
+ */
+export class ProctoringPolicyEngine {
+  private counts = new Map<ViolationType, number>();
+  private score = 0;
+
+  constructor(private policy: ProctoringPolicy) {}
+
+  setPolicy(policy: ProctoringPolicy) {
+    this.policy = policy;
+  }
+
+  /**
+   * Records one occurrence and decides what should happen
+   * @param type Violation raised by a monitoring source
+   * @returns The decision, or null when the policy ignores this type
+   */
+  record(type: ViolationType): PolicyDecision | null {
+    const rule = this.policy.rules[type];
+    if (!rule || !rule.enabled) return null;
+
+    const count = (this.counts.get(type) || 0) + 1;
+    this.counts.set(type, count);
+    this.score += rule.weight;
+
+    const ruleAction = count > rule.warnings ? rule.action : "warn";
+    const overScore = this.policy.scoreThreshold > 0 && this.score >= this.policy.scoreThreshold;
+    const action = overScore ? mostSevere(ruleAction, this.policy.scoreAction) : ruleAction;
+
+    return {
+      type,
+      action,
+      count,
+      warningsLeft: Math.max(0, rule.warnings - count),
+      score: this.score,
+      escalated: action !== ruleAction,
+    };
+  }
+
+  getCount(type: ViolationType) {
+    return this.counts.get(type) || 0;
+  }
+
+  getTotalCount() {
+    let total = 0;
+    this.counts.forEach((count) => (total += count));
+    return total;
+  }
+
+  getScore() {
+    return this.score;
+  }
+
+  reset() {
+    this.counts.clear();
+    this.score = 0;
+  }
+}
@@ -0,0 +1,88 @@
+import type { ViolationType } from "./types";
+import { VIOLATION_LABELS, VIOLATION_TYPES } from "./policy";
+
+// Everything written to monitoring_logs.event_type; keep in sync with its CHECK constraint
+export type ProctoringEventType =
+  | ViolationType
+  | "shortcut_blocked"
+  | "copy_blocked"
+  | "paste_blocked"
+  | "text_pasted"
+  | "print_blocked"
+  | "session_flagged"
+  | "session_paused"
+  | "question_viewed"
+  | "identity_verified"
+  | "identity_unverified"
+  | "screen_share_started"
+  | "screen_captured"
+  | "test_started"
+  | "test_submitted"
+  | "test_terminated";
+
+export type ProctoringEventData = Record<string, unknown>;
+
+export const EVENT_LABELS: Record<ProctoringEventType, string> = {
+  ...VIOLATION_LABELS,
+  shortcut_blocked: "Blocked shortcut",
+  copy_blocked: "Blocked copy",
+  paste_blocked: "Blocked paste",
+  text_pasted: "Pasted text",
+  print_blocked: "Blocked printing",
+  session_flagged: "Flagged for review",
+  session_paused: "Test paused",
+  question_viewed: "Opened question",
+  identity_verified: "Identity verified",
+  identity_unverified: "Identity not verified",
+  screen_share_started: "Screen sharing started",
+  screen_captured: "Desktop screenshot",
+  test_started: "Test started",
+  test_submitted: "Test submitted",
+  test_terminated: "Test terminated",
+};
+
+export interface ProctoringEvent {
+  type: ProctoringEventType;
+  // ISO time the detector saw it, not when the batch reached the server
+  timestamp: string;
+  data?: ProctoringEventData;
+  // Snapshot uploaded to the evidence bucket alongside the log row
+  evidence?: Blob;
+}
+
+export type ProctoringEventListener = (event: ProctoringEvent) => void;
+
+export const isViolationEvent = (
+  event: ProctoringEvent
+): event is ProctoringEvent & { type: ViolationType } =>
+  (VIOLATION_TYPES as string[]).includes(event.type);
+
+/**
+ * Single stream that every monitoring source publishes to during a session.
+ * The policy engine and the monitoring log writer are both just subscribers.
+ */
+export class ProctoringEventBus {
+  private listeners = new Set<ProctoringEventListener>();
+
+  /**
+   * @returns Unsubscribe function, suitable as a useEffect cleanup
+   */
+  subscribe(listener: ProctoringEventListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  publish(type: ProctoringEventType, data?: ProctoringEventData, evidence?: Blob) {
+    const event: ProctoringEvent = { type, timestamp: new Date().toISOString(), data, evidence };
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error("Proctoring event listener failed:", error);
+      }
+    });
+    return event;
+  }
+}
@@ -0,0 +1,84 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export const EVIDENCE_BUCKET = "proctoring-evidence";
+
+// Snapshots are for identifying what happened, not archiving video
+const MAX_EVIDENCE_WIDTH = 320;
+const EVIDENCE_QUALITY = 0.7;
+// Margin kept around the detected faces, as a fraction of the crop size
+const CROP_PADDING = 0.35;
+const SIGNED_URL_SECONDS = 300;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Crops and downscales the current video frame for a violation
+ * @param video Webcam video element
+ * @param faces Normalised landmarks of each detected face; the whole frame is kept when empty
+ * @returns JPEG blob, or null if the frame could not be captured
+ */
+export const captureEvidence = (video: HTMLVideoElement, faces: Point[][] = []): Promise<Blob | null> => {
+  const frameWidth = video.videoWidth;
+  const frameHeight = video.videoHeight;
+  if (!frameWidth || !frameHeight) return Promise.resolve(null);
+
+  let sx = 0;
+  let sy = 0;
+  let sw = frameWidth;
+  let sh = frameHeight;
+
+  const points = faces.flat();
+  if (points.length > 0) {
+    const minX = Math.min(...points.map((p) => p.x)) * frameWidth;
+    const maxX = Math.max(...points.map((p) => p.x)) * frameWidth;
+    const minY = Math.min(...points.map((p) => p.y)) * frameHeight;
+    const maxY = Math.max(...points.map((p) => p.y)) * frameHeight;
+    const padX = (maxX - minX) * CROP_PADDING;
+    const padY = (maxY - minY) * CROP_PADDING;
+
+    sx = Math.max(0, Math.floor(minX - padX));
+    sy = Math.max(0, Math.floor(minY - padY));
+    sw = Math.min(frameWidth, Math.ceil(maxX + padX)) - sx;
+    sh = Math.min(frameHeight, Math.ceil(maxY + padY)) - sy;
+  }
+
+  const scale = Math.min(1, MAX_EVIDENCE_WIDTH / sw);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(sw * scale);
+  canvas.height = Math.round(sh * scale);
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return Promise.resolve(null);
+  ctx.drawImage(video, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+
+  return new Promise((resolve) => canvas.toBlob(resolve, "image/jpeg", EVIDENCE_QUALITY));
+};
+
+/**
+ * Uploads a snapshot into the session's evidence folder
+ * @returns Object path to store in monitoring_logs.evidence_path
+ */
+export const uploadEvidence = async (sessionId: string, blob: Blob) => {
+  const path = `${sessionId}/${Date.now()}-${crypto.randomUUID()}.jpg`;
+  const { error } = await supabase.storage
+    .from(EVIDENCE_BUCKET)
+    .upload(path, blob, { contentType: "image/jpeg", upsert: false });
+
+  if (error) throw error;
+  return path;
+};
+
+/**
+ * Short-lived link for faculty; fails once the evidence is past its retention period
+ */
+export const getEvidenceUrl = async (path: string) => {
+  const { data, error } = await supabase.storage
+    .from(EVIDENCE_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_SECONDS);
+
+  if (error) throw error;
+  return data.signedUrl;
+};
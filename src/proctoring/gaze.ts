@@ -0,0 +1,157 @@
+import type { Category, NormalizedLandmark } from "@mediapipe/tasks-vision";
+
+export type GazeDirection = "Forward" | "Left" | "Right" | "Up" | "Down";
+
+// Horizontal values share one sign: positive towards the right of the camera image, reported as "Right"
+export interface GazeSample {
+  // Head rotation in degrees; pitch is positive when the head tips down
+  yaw: number;
+  pitch: number;
+  // Eye direction, roughly -1..1; eyeY is positive looking up
+  eyeX: number;
+  eyeY: number;
+}
+
+export interface GazeBaseline {
+  mean: GazeSample;
+  // Per-field standard deviation while the student sat still; widens the thresholds for jittery cameras
+  spread: GazeSample;
+}
+
+export interface GazeEvaluation {
+  direction: GazeDirection;
+  // Combined head + eye offset from the baseline, in degrees
+  horizontal: number;
+  vertical: number;
+}
+
+// Degrees of head rotation that a full sideways/vertical eye movement is treated as
+const EYE_RANGE_X_DEGREES = 30;
+const EYE_RANGE_Y_DEGREES = 20;
+const HORIZONTAL_THRESHOLD_DEGREES = 25;
+// Looking down (phone, notes) is the common case, so it trips earlier than looking up
+const DOWN_THRESHOLD_DEGREES = 15;
+const UP_THRESHOLD_DEGREES = 22;
+const SPREAD_ALLOWANCE = 2;
+
+// Eye corners and iris centers in the 478-point face mesh
+const RIGHT_EYE = { outer: 33, inner: 133, iris: 468 };
+const LEFT_EYE = { outer: 263, inner: 362, iris: 473 };
+
+const toDegrees = (radians: number) => radians * (180 / Math.PI);
+
+export const ZERO_SAMPLE: GazeSample = { yaw: 0, pitch: 0, eyeX: 0, eyeY: 0 };
+
+/**
+ * Head yaw and pitch from a FaceLandmarker facial transformation matrix (column-major 4x4)
+ */
+export const headPoseFromMatrix = (matrix: number[]) => {
+  // Third column is where the face's forward axis points
+  const [fx, fy, fz] = [matrix[8], matrix[9], matrix[10]];
+  return {
+    yaw: toDegrees(Math.atan2(fx, fz)),
+    pitch: toDegrees(Math.atan2(-fy, Math.hypot(fx, fz))),
+  };
+};
+
+/**
+ * Horizontal iris position summed over both eyes, 0 when centered;
+ * null when the mesh has no iris points
+ */
+export const irisOffset = (landmarks: NormalizedLandmark[]) => {
+  if (landmarks.length <= LEFT_EYE.iris) return null;
+
+  const offsetIn = (eye: typeof RIGHT_EYE) => {
+    const outer = landmarks[eye.outer];
+    const inner = landmarks[eye.inner];
+    const width = inner.x - outer.x;
+    if (Math.abs(width) < 1e-6) return 0;
+    // 0 at the outer corner, 1 at the inner corner, 0.5 centered
+    return (landmarks[eye.iris].x - outer.x) / width;
+  };
+
+  // The corners are mirrored between eyes, so flip one to measure both along the image x axis
+  const right = offsetIn(RIGHT_EYE) - 0.5;
+  const left = 0.5 - offsetIn(LEFT_EYE);
+  return right + left;
+};
+
+/**
+ * Eye direction from the face blendshapes, -1..1 on each axis
+ */
+export const eyeDirectionFromBlendshapes = (categories: Category[]) => {
+  const score = (name: string) => categories.find((c) => c.categoryName === name)?.score ?? 0;
+  return {
+    // Blendshape sides are the student's own, which is the image's right for their left eye
+    eyeX: ((score("eyeLookOutLeft") + score("eyeLookInRight")) - (score("eyeLookInLeft") + score("eyeLookOutRight"))) / 2,
+    eyeY: ((score("eyeLookUpLeft") + score("eyeLookUpRight")) - (score("eyeLookDownLeft") + score("eyeLookDownRight"))) / 2,
+  };
+};
+
+/**
+ * Combines head pose, blendshapes and iris position into one reading
+ */
+export const buildGazeSample = (
+  matrix: number[] | undefined,
+  landmarks: NormalizedLandmark[] | undefined,
+  blendshapes: Category[] | undefined
+): GazeSample => {
+  const head = matrix ? headPoseFromMatrix(matrix) : { yaw: 0, pitch: 0 };
+  const eyes = blendshapes ? eyeDirectionFromBlendshapes(blendshapes) : { eyeX: 0, eyeY: 0 };
+  const iris = landmarks ? irisOffset(landmarks) : null;
+
+  return {
+    ...head,
+    // Blendshapes and iris position disagree most on glances; averaging steadies both
+    eyeX: iris === null ? eyes.eyeX : (eyes.eyeX + iris) / 2,
+    eyeY: eyes.eyeY,
+  };
+};
+
+/**
+ * Neutral pose from samples taken while the student looked at the screen
+ */
+export const computeBaseline = (samples: GazeSample[]): GazeBaseline => {
+  if (samples.length === 0) return { mean: ZERO_SAMPLE, spread: ZERO_SAMPLE };
+
+  const fields = Object.keys(ZERO_SAMPLE) as (keyof GazeSample)[];
+  const mean = { ...ZERO_SAMPLE };
+  const spread = { ...ZERO_SAMPLE };
+
+  fields.forEach((field) => {
+    const values = samples.map((sample) => sample[field]);
+    mean[field] = values.reduce((sum, value) => sum + value, 0) / values.length;
+    spread[field] = Math.sqrt(values.reduce((sum, value) => sum + (value - mean[field]) ** 2, 0) / values.length);
+  });
+
+  return { mean, spread };
+};
+
+/**
+ * Compares a reading with the student's baseline. Eyes can offset the head, so
+ * a turned head with eyes still on the screen counts as looking forward.
+ */
+export const evaluateGaze = (sample: GazeSample, baseline: GazeBaseline): GazeEvaluation => {
+  const { mean, spread } = baseline;
+
+  const horizontal = (sample.yaw - mean.yaw) + (sample.eyeX - mean.eyeX) * EYE_RANGE_X_DEGREES;
+  const vertical = (sample.pitch - mean.pitch) - (sample.eyeY - mean.eyeY) * EYE_RANGE_Y_DEGREES;
+
+  const horizontalAllowance = SPREAD_ALLOWANCE * (spread.yaw + spread.eyeX * EYE_RANGE_X_DEGREES);
+  const verticalAllowance = SPREAD_ALLOWANCE * (spread.pitch + spread.eyeY * EYE_RANGE_Y_DEGREES);
+
+  let direction: GazeDirection = "Forward";
+  if (vertical > DOWN_THRESHOLD_DEGREES + verticalAllowance) {
+    direction = "Down";
+  } else if (vertical < -(UP_THRESHOLD_DEGREES + verticalAllowance)) {
+    direction = "Up";
+  } else if (Math.abs(horizontal) > HORIZONTAL_THRESHOLD_DEGREES + horizontalAllowance) {
+    direction = horizontal < 0 ? "Left" : "Right";
+  }
+
+  return {
+    direction,
+    horizontal: Math.round(horizontal),
+    vertical: Math.round(vertical),
+  };
+};
@@ -0,0 +1,177 @@
+import type { NormalizedLandmark } from "@mediapipe/tasks-vision";
+import { supabase } from "@/integrations/supabase/client";
+import { visionModelUrl } from "./vision";
+
+export const IDENTITY_BUCKET = "identity-references";
+// Stored with each enrollment so descriptors from a different model are never compared
+export const IDENTITY_MODEL = "dlib_resnet_128";
+// Euclidean distance between descriptors above which two faces are treated as different
+// people; 0.6 is the operating point the model was benchmarked at on LFW
+export const IDENTITY_MAX_DISTANCE = 0.6;
+export const REVERIFY_INTERVAL_MS = 30000;
+
+// The recognition network's input size
+const CROP_SIZE = 150;
+// Margin kept around the face mesh, close to the detector boxes the network was trained on
+const CROP_PADDING = 0.1;
+// Outer eye corners in the face mesh, used to level the face before cropping
+const LEFT_EYE_OUTER = 33;
+const RIGHT_EYE_OUTER = 263;
+
+export interface FaceEnrollment {
+  embedding: number[];
+  model: string;
+  updatedAt: string;
+}
+
+export interface FaceRecognizer {
+  // 128-d face descriptor of an aligned face crop
+  describe: (face: HTMLCanvasElement) => Promise<number[]>;
+  close: () => void;
+}
+
+/**
+ * Face recognition network used for both enrollment and verification. The library
+ * bundles its own TensorFlow.js, so it is only downloaded once a face check needs it;
+ * TensorFlow.js uses WebGL where it can and falls back to the CPU by itself
+ */
+export const createFaceRecognizer = async (): Promise<FaceRecognizer> => {
+  const faceapi = await import("@vladmandic/face-api");
+  const net = new faceapi.FaceRecognitionNet();
+  await net.loadFromUri(visionModelUrl("face_recognizer"));
+
+  return {
+    describe: async (face) => Array.from((await net.computeFaceDescriptor(face)) as Float32Array),
+    close: () => net.dispose(),
+  };
+};
+
+/**
+ * Describes one face from the current video frame, rotated so the eyes are level
+ * @param landmarks Face mesh of the face to describe, in normalized coordinates
+ * @returns Descriptor, or null if the frame could not be read
+ */
+export const embedFace = async (
+  recognizer: FaceRecognizer,
+  video: HTMLVideoElement,
+  landmarks: NormalizedLandmark[]
+): Promise<number[] | null> => {
+  const frameWidth = video.videoWidth;
+  const frameHeight = video.videoHeight;
+  if (!frameWidth || !frameHeight || landmarks.length <= RIGHT_EYE_OUTER) return null;
+
+  const points = landmarks.map((p) => ({ x: p.x * frameWidth, y: p.y * frameHeight }));
+  const leftEye = points[LEFT_EYE_OUTER];
+  const rightEye = points[RIGHT_EYE_OUTER];
+  let angle = Math.atan2(rightEye.y - leftEye.y, rightEye.x - leftEye.x);
+  // Keep the face upright whichever way round the eyes appear in the frame
+  if (angle > Math.PI / 2) angle -= Math.PI;
+  if (angle < -Math.PI / 2) angle += Math.PI;
+
+  // Face mesh bounds in the leveled frame
+  const cos = Math.cos(-angle);
+  const sin = Math.sin(-angle);
+  const xs = points.map((p) => p.x * cos - p.y * sin);
+  const ys = points.map((p) => p.x * sin + p.y * cos);
+  const centerX = (Math.min(...xs) + Math.max(...xs)) / 2;
+  const centerY = (Math.min(...ys) + Math.max(...ys)) / 2;
+  const side = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)) * (1 + CROP_PADDING * 2);
+  if (!side) return null;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = CROP_SIZE;
+  canvas.height = CROP_SIZE;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+  ctx.translate(CROP_SIZE / 2, CROP_SIZE / 2);
+  ctx.scale(CROP_SIZE / side, CROP_SIZE / side);
+  ctx.translate(-centerX, -centerY);
+  ctx.rotate(-angle);
+  ctx.drawImage(video, 0, 0, frameWidth, frameHeight);
+
+  return recognizer.describe(canvas);
+};
+
+/**
+ * Mean of several descriptors of the same face
+ */
+export const averageEmbeddings = (embeddings: number[][]) => {
+  if (embeddings.length === 0) return [];
+
+  return embeddings[0].map((_, i) => embeddings.reduce((total, embedding) => total + embedding[i], 0) / embeddings.length);
+};
+
+/**
+ * Euclidean distance between two descriptors; 0 is identical, Infinity if they can't be compared
+ */
+export const faceDistance = (a: number[], b: number[]) => {
+  if (a.length === 0 || a.length !== b.length) return Infinity;
+
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += (a[i] - b[i]) ** 2;
+  }
+  return Math.sqrt(sum);
+};
+
+/**
+ * Reference face for a student
+ * @returns The enrollment, or null if they haven't enrolled with the current model
+ */
+export const fetchFaceEnrollment = async (profileId: string): Promise<FaceEnrollment | null> => {
+  const { data, error } = await supabase
+    .from("face_enrollments")
+    .select("embedding, model, updated_at")
+    .eq("profile_id", profileId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data || data.model !== IDENTITY_MODEL) return null;
+  return { embedding: data.embedding, model: data.model, updatedAt: data.updated_at };
+};
+
+/**
+ * Records a student's reference face. Students enroll once; replacing it is a faculty reset
+ * @param photo Snapshot kept so faculty can see who was enrolled
+ */
+export const saveFaceEnrollment = async (profileId: string, embedding: number[], photo?: Blob | null) => {
+  let referencePath: string | null = null;
+
+  if (photo) {
+    // A fresh name each time, since students may only add reference photos, never overwrite them
+    referencePath = `${profileId}/${Date.now()}.jpg`;
+    const { error: uploadError } = await supabase.storage
+      .from(IDENTITY_BUCKET)
+      .upload(referencePath, photo, { contentType: "image/jpeg", upsert: false });
+    if (uploadError) throw uploadError;
+  }
+
+  const { error } = await supabase
+    .from("face_enrollments")
+    .insert({
+      profile_id: profileId,
+      embedding,
+      model: IDENTITY_MODEL,
+      reference_path: referencePath,
+    });
+
+  if (error) throw error;
+};
+
+/**
+ * Clears a student's enrollment so they can enroll again (faculty and admins only)
+ */
+export const resetFaceEnrollment = async (profileId: string) => {
+  const { data, error } = await supabase
+    .from("face_enrollments")
+    .delete()
+    .eq("profile_id", profileId)
+    .select("reference_path")
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data?.reference_path) {
+    const { error: removeError } = await supabase.storage.from(IDENTITY_BUCKET).remove([data.reference_path]);
+    if (removeError) console.error("Error removing reference photo:", removeError);
+  }
+};
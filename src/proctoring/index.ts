@@ -0,0 +1,32 @@
+/**
+ * Proctoring index file
+ *
+ * Per-test proctoring policy, the engine that applies it, and the event
+ * stream that fullscreen, focus, webcam and microphone monitoring publish
+ * violations to, plus the off-main-thread webcam inference behind them and
+ * the pre-flight check of its self-hosted models, gaze calibration,
+ * prohibited-object detection, face identity checks, screen sharing and
+ * display checks, the clipboard and devtools lockdown, webcam evidence
+ * snapshots and the helpers that lay a session's log out for review.
+ */
+
+export * from "./types";
+export * from "./policy";
+export * from "./events";
+export { ProctoringPolicyEngine } from "./engine";
+export * from "./timeline";
+export * from "./evidence";
+export { MonitoringLogWriter } from "./logWriter";
+export { VoiceActivityDetector } from "./audio";
+export type { SpeechDetection, VoiceActivityStatus } from "./audio";
+export * from "./gaze";
+export * from "./objects";
+export * from "./identity";
+export * from "./screen";
+export * from "./displays";
+export { Lockdown } from "./lockdown";
+export type { LockdownEventType, LockdownListener, LockdownOptions } from "./lockdown";
+export { createFaceLandmarker, createObjectDetector } from "./vision";
+export type { VisionModel } from "./vision";
+export { preflightVision, verifyVisionAssets } from "./visionAssets";
+export { VisionTracker, nextSampleInterval, MIN_SAMPLE_INTERVAL_MS, MAX_SAMPLE_INTERVAL_MS } from "./visionTracker";
@@ -0,0 +1,195 @@
+import type { ProctoringEventData } from "./events";
+import type { LockdownSettings } from "./types";
+
+// Everything the lockdown reports; devtools_opened is the only violation among them
+export type LockdownEventType =
+  | "shortcut_blocked"
+  | "copy_blocked"
+  | "paste_blocked"
+  | "text_pasted"
+  | "print_blocked"
+  | "devtools_opened";
+
+export type LockdownListener = (type: LockdownEventType, data?: ProctoringEventData) => void;
+
+export interface LockdownOptions extends LockdownSettings {
+  detectDevtools: boolean;
+}
+
+// A docked devtools panel makes the window's outer size exceed the page by at least this much
+const DEVTOOLS_GAP_PX = 160;
+const DEVTOOLS_POLL_MS = 1000;
+
+const TEXT_INPUT_TYPES = ["text", "search", "url", "email", "number", "tel", "password", ""];
+
+// Inputs, textareas and rich-text editors a student types answers into
+const isAnswerField = (target: EventTarget | null): target is HTMLElement => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement) return true;
+  return target instanceof HTMLInputElement && TEXT_INPUT_TYPES.includes(target.type);
+};
+
+const describeField = (field: HTMLElement) =>
+  field instanceof HTMLInputElement ? "input" : field instanceof HTMLTextAreaElement ? "textarea" : "editor";
+
+const isDevtoolsShortcut = (e: KeyboardEvent, key: string, mod: boolean) =>
+  key === "f12" ||
+  (mod && e.shiftKey && ["i", "j", "c"].includes(key)) ||
+  // Cmd+Option+I/J/C on macOS
+  (e.metaKey && e.altKey && ["i", "j", "c"].includes(key)) ||
+  // View source
+  (mod && key === "u");
+
+// New, closed and reopened tabs or windows, and leaving fullscreen
+const isNavigationShortcut = (e: KeyboardEvent, key: string, mod: boolean) =>
+  (mod && ["t", "w", "n"].includes(key)) ||
+  (mod && key === "tab") ||
+  (e.altKey && key === "tab") ||
+  key === "f11";
+
+/**
+ * Browser restrictions for a monitored test page. Every listener it adds is
+ * removed again by `stop`, so a lockdown can be started and stopped freely.
+ */
+export class Lockdown {
+  private teardown: (() => void)[] = [];
+  private devtoolsOpen = false;
+
+  constructor(private readonly options: LockdownOptions, private readonly onEvent: LockdownListener) {}
+
+  get isActive() {
+    return this.teardown.length > 0;
+  }
+
+  start() {
+    if (this.isActive) return;
+    const { options } = this;
+
+    this.listen(document, "keydown", this.handleKeyDown, true);
+    this.listen(document, "copy", this.handleCopy, true);
+    this.listen(document, "cut", this.handleCopy, true);
+    this.listen(document, "paste", this.handlePaste, true);
+
+    // Hidden over the page background during the test; interactive elements set their own cursor
+    const cursor = document.body.style.cursor;
+    document.body.style.cursor = "none";
+    this.teardown.push(() => {
+      document.body.style.cursor = cursor;
+    });
+
+    if (options.blockSelection) {
+      this.listen(document, "selectstart", this.handleSelectStart, true);
+    }
+    if (options.blockContextMenu) {
+      this.listen(document, "contextmenu", this.handleContextMenu, true);
+    }
+    if (options.blockPrint) {
+      // The print dialog can't be cancelled from script, so the page prints blank instead
+      const style = document.createElement("style");
+      style.textContent = "@media print { body { display: none !important; } }";
+      document.head.appendChild(style);
+      this.teardown.push(() => style.remove());
+      this.listen(window, "beforeprint", this.handleBeforePrint);
+    }
+    if (options.detectDevtools) {
+      // A panel that was already open when the test started counts as well
+      this.devtoolsOpen = false;
+      this.checkDevtools();
+      const poll = window.setInterval(this.checkDevtools, DEVTOOLS_POLL_MS);
+      this.teardown.push(() => window.clearInterval(poll));
+    }
+  }
+
+  stop() {
+    this.teardown.forEach((remove) => remove());
+    this.teardown = [];
+  }
+
+  private listen<E extends Event>(target: EventTarget, type: string, handler: (event: E) => void, capture = false) {
+    target.addEventListener(type, handler as EventListener, capture);
+    this.teardown.push(() => target.removeEventListener(type, handler as EventListener, capture));
+  }
+
+  private handleKeyDown = (e: KeyboardEvent) => {
+    const key = e.key.toLowerCase();
+    const mod = e.ctrlKey || e.metaKey;
+
+    if (mod && key === "p" && this.options.blockPrint) {
+      e.preventDefault();
+      this.onEvent("print_blocked", { source: "shortcut" });
+      return;
+    }
+
+    const devtools = isDevtoolsShortcut(e, key, mod);
+    if (this.options.blockShortcuts && (devtools || isNavigationShortcut(e, key, mod))) {
+      e.preventDefault();
+      this.onEvent("shortcut_blocked", {
+        key: e.key,
+        ctrl: e.ctrlKey,
+        alt: e.altKey,
+        shift: e.shiftKey,
+        meta: e.metaKey,
+        devtools,
+      });
+    }
+  };
+
+  private handleCopy = (e: ClipboardEvent) => {
+    if (!this.options.blockCopy) return;
+    e.preventDefault();
+    this.onEvent("copy_blocked", {
+      action: e.type,
+      length: window.getSelection()?.toString().length ?? 0,
+    });
+  };
+
+  private handlePaste = (e: ClipboardEvent) => {
+    const { paste } = this.options;
+    if (paste === "allow" || !isAnswerField(e.target)) return;
+
+    const data = {
+      field: describeField(e.target),
+      // Only the size is kept; pasted text can hold anything from the student's clipboard
+      length: e.clipboardData?.getData("text/plain").length ?? 0,
+    };
+
+    if (paste === "block") {
+      e.preventDefault();
+      this.onEvent("paste_blocked", data);
+    } else {
+      this.onEvent("text_pasted", data);
+    }
+  };
+
+  private handleSelectStart = (e: Event) => {
+    if (!isAnswerField(e.target)) e.preventDefault();
+  };
+
+  private handleContextMenu = (e: MouseEvent) => {
+    e.preventDefault();
+  };
+
+  private handleBeforePrint = () => {
+    this.onEvent("print_blocked", { source: "browser" });
+  };
+
+  private isDevtoolsDocked() {
+    return (
+      window.outerWidth - window.innerWidth > DEVTOOLS_GAP_PX ||
+      window.outerHeight - window.innerHeight > DEVTOOLS_GAP_PX
+    );
+  }
+
+  // Undocked devtools windows can't be seen from the page; shortcuts to open them are blocked above
+  private checkDevtools = () => {
+    const open = this.isDevtoolsDocked();
+    if (open && !this.devtoolsOpen) {
+      this.onEvent("devtools_opened", {
+        method: "window_size",
+        width: window.outerWidth - window.innerWidth,
+        height: window.outerHeight - window.innerHeight,
+      });
+    }
+    this.devtoolsOpen = open;
+  };
+}
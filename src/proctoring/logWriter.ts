@@ -0,0 +1,160 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { ProctoringEvent, ProctoringEventBus } from "./events";
+import { uploadEvidence } from "./evidence";
+
+const FLUSH_INTERVAL_MS = 3000;
+const MAX_BATCH_SIZE = 25;
+// Events kept while the network is down; the oldest are dropped beyond this
+const MAX_QUEUE_SIZE = 500;
+// Data exceptions, integrity and access violations fail the same way on every retry
+const PERMANENT_ERROR_CLASSES = ["22", "23", "42"];
+
+interface QueuedEvent {
+  event: ProctoringEvent;
+  // Set once the snapshot is uploaded so a retried batch does not upload it again
+  evidencePath?: string;
+}
+
+interface DeadLetter {
+  event: ProctoringEvent;
+  error: string;
+}
+
+// Network failures have no SQLSTATE and are always worth retrying
+const isPermanentError = (error: { code?: string }) =>
+  !!error.code && PERMANENT_ERROR_CLASSES.includes(error.code.slice(0, 2));
+
+/**
+ * Persists a session's proctoring events to monitoring_logs in batches.
+ * Batches that fail transiently go back on the queue and are retried on the
+ * next flush. Events the server refuses for good are set aside as dead
+ * letters so they don't hold up the events behind them.
+ */
+export class MonitoringLogWriter {
+  private queue: QueuedEvent[] = [];
+  private deadLetters: DeadLetter[] = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private flushing: Promise<void> | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(private sessionId: string) {}
+
+  attach(bus: ProctoringEventBus) {
+    this.detach();
+    this.unsubscribe = bus.subscribe((event) => this.enqueue(event));
+    this.timer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+  }
+
+  /**
+   * Stops listening and writes whatever is still queued
+   */
+  async detach() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.flush();
+  }
+
+  enqueue(event: ProctoringEvent) {
+    this.queue.push({ event });
+    if (this.queue.length > MAX_QUEUE_SIZE) {
+      this.queue.splice(0, this.queue.length - MAX_QUEUE_SIZE);
+    }
+    if (this.queue.length >= MAX_BATCH_SIZE) {
+      this.flush();
+    }
+  }
+
+  get pendingCount() {
+    return this.queue.length;
+  }
+
+  // Events that will never be written, oldest first
+  get failedEvents(): readonly DeadLetter[] {
+    return this.deadLetters;
+  }
+
+  /**
+   * Writes queued events; concurrent callers share the in-flight write
+   */
+  flush(): Promise<void> {
+    if (this.flushing) return this.flushing;
+    if (this.queue.length === 0) return Promise.resolve();
+
+    this.flushing = this.writeQueued().finally(() => {
+      this.flushing = null;
+    });
+    return this.flushing;
+  }
+
+  private async writeQueued() {
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, MAX_BATCH_SIZE);
+      await Promise.all(batch.map((queued) => this.uploadEvidence(queued)));
+
+      const error = await this.insert(batch);
+      if (!error) continue;
+      if (!isPermanentError(error)) {
+        console.error("Error writing monitoring logs:", error);
+        this.queue.unshift(...batch);
+        return;
+      }
+
+      // One bad event fails the whole insert; write the batch singly so only it is set aside
+      for (let i = 0; i < batch.length; i++) {
+        const rowError = batch.length === 1 ? error : await this.insert([batch[i]]);
+        if (!rowError) continue;
+        if (!isPermanentError(rowError)) {
+          console.error("Error writing monitoring logs:", rowError);
+          this.queue.unshift(...batch.slice(i));
+          return;
+        }
+        this.deadLetter(batch[i], rowError);
+      }
+    }
+  }
+
+  // Resolves with the error rather than throwing, so callers can tell transient from permanent
+  private async insert(batch: QueuedEvent[]): Promise<{ code?: string; message: string } | null> {
+    try {
+      const { error } = await supabase.from("monitoring_logs").insert(
+        batch.map(({ event, evidencePath }) => ({
+          session_id: this.sessionId,
+          event_type: event.type,
+          event_data: (event.data ?? null) as Json,
+          timestamp: event.timestamp,
+          evidence_path: evidencePath ?? null,
+        }))
+      );
+      return error;
+    } catch (error) {
+      return { message: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private deadLetter(queued: QueuedEvent, error: { code?: string; message: string }) {
+    console.error(`Monitoring log for ${queued.event.type} was refused and will not be retried:`, error);
+    this.deadLetters.push({ event: queued.event, error: error.code ? `${error.code}: ${error.message}` : error.message });
+    if (this.deadLetters.length > MAX_QUEUE_SIZE) {
+      this.deadLetters.splice(0, this.deadLetters.length - MAX_QUEUE_SIZE);
+    }
+  }
+
+  // A failed upload still lets the event itself be logged, just without a snapshot
+  private async uploadEvidence(queued: QueuedEvent) {
+    const { evidence } = queued.event;
+    if (!evidence || queued.evidencePath) return;
+    try {
+      queued.evidencePath = await uploadEvidence(this.sessionId, evidence);
+    } catch (error) {
+      console.error("Error uploading evidence:", error);
+    } finally {
+      // The blob is not needed again either way; let it be collected
+      queued.event = { ...queued.event, evidence: undefined };
+    }
+  }
+}
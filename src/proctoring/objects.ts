@@ -0,0 +1,61 @@
+import type { Detection } from "@mediapipe/tasks-vision";
+
+export type ProhibitedObject = "phone" | "book" | "laptop" | "screen";
+
+export interface ObjectSighting {
+  object: ProhibitedObject;
+  // Detector score, 0..1
+  confidence: number;
+}
+
+export const PROHIBITED_OBJECT_LABELS: Record<ProhibitedObject, string> = {
+  phone: "Phone",
+  book: "Book",
+  laptop: "Laptop",
+  screen: "Extra screen",
+};
+
+// COCO categories reported by the EfficientDet object detector
+const COCO_CATEGORIES: Record<string, ProhibitedObject> = {
+  "cell phone": "phone",
+  book: "book",
+  laptop: "laptop",
+  tv: "screen",
+};
+
+export const OBJECT_DETECTOR_CATEGORIES = Object.keys(COCO_CATEGORIES);
+
+export const DEFAULT_OBJECT_CONFIDENCE = 0.5;
+
+/**
+ * Keeps the prohibited objects from an ObjectDetector result, strongest first
+ * @param detections ObjectDetectorResult.detections
+ * @returns One sighting per object type, with its best confidence
+ */
+export const findProhibitedObjects = (
+  detections: Detection[],
+  minConfidence = DEFAULT_OBJECT_CONFIDENCE
+): ObjectSighting[] => {
+  const best = new Map<ProhibitedObject, number>();
+
+  detections.forEach((detection) => {
+    detection.categories.forEach((category) => {
+      const object = COCO_CATEGORIES[category.categoryName];
+      if (!object || category.score < minConfidence) return;
+      best.set(object, Math.max(best.get(object) ?? 0, category.score));
+    });
+  });
+
+  return Array.from(best, ([object, confidence]) => ({
+    object,
+    confidence: Math.round(confidence * 100) / 100,
+  })).sort((a, b) => b.confidence - a.confidence);
+};
+
+/**
+ * Short description for logs and warnings, e.g. "Phone (87%), Book (61%)"
+ */
+export const describeSightings = (sightings: ObjectSighting[]) =>
+  sightings
+    .map((sighting) => `${PROHIBITED_OBJECT_LABELS[sighting.object]} (${Math.round(sighting.confidence * 100)}%)`)
+    .join(", ");
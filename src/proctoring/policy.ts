@@ -0,0 +1,180 @@
+import type {
+  AudioSensitivity,
+  LockdownSettings,
+  PasteMode,
+  ProctoringAction,
+  ProctoringPolicy,
+  ViolationRule,
+  ViolationType,
+} from "./types";
+
+export const VIOLATION_TYPES: ViolationType[] = [
+  "tab_switch",
+  "window_blur",
+  "fullscreen_exit",
+  "face_not_detected",
+  "multiple_faces",
+  "face_away",
+  "speech_detected",
+  "prohibited_object",
+  "identity_mismatch",
+  "screen_share_stopped",
+  "secondary_display",
+  "devtools_opened",
+];
+
+export const VIOLATION_LABELS: Record<ViolationType, string> = {
+  tab_switch: "Tab switch",
+  window_blur: "Window lost focus",
+  fullscreen_exit: "Fullscreen exit",
+  face_not_detected: "Face not visible",
+  multiple_faces: "Multiple people",
+  face_away: "Looking away",
+  speech_detected: "Talking",
+  prohibited_object: "Prohibited object",
+  identity_mismatch: "Different person",
+  screen_share_stopped: "Screen sharing stopped",
+  secondary_display: "Extra display",
+  devtools_opened: "Developer tools",
+};
+
+export const AUDIO_SENSITIVITY_LABELS: Record<AudioSensitivity, string> = {
+  low: "Low (sustained speech only)",
+  medium: "Medium",
+  high: "High (quiet speech too)",
+};
+
+export const PASTE_MODE_LABELS: Record<PasteMode, string> = {
+  allow: "Allow",
+  log: "Allow and log",
+  block: "Block and log",
+};
+
+export const ACTION_LABELS: Record<ProctoringAction, string> = {
+  warn: "Warn",
+  flag: "Flag for review",
+  pause: "Pause test",
+  terminate: "Terminate",
+};
+
+const ACTION_SEVERITY: Record<ProctoringAction, number> = {
+  warn: 0,
+  flag: 1,
+  pause: 2,
+  terminate: 3,
+};
+
+export const mostSevere = (a: ProctoringAction, b: ProctoringAction) =>
+  ACTION_SEVERITY[a] >= ACTION_SEVERITY[b] ? a : b;
+
+const DEFAULT_RULES: Record<ViolationType, ViolationRule> = {
+  tab_switch: { enabled: true, weight: 2, warnings: 1, action: "terminate" },
+  window_blur: { enabled: true, weight: 1, warnings: 2, action: "flag" },
+  fullscreen_exit: { enabled: true, weight: 1, warnings: 2, action: "terminate" },
+  face_not_detected: { enabled: true, weight: 1, warnings: 3, action: "flag" },
+  multiple_faces: { enabled: true, weight: 3, warnings: 1, action: "terminate" },
+  face_away: { enabled: true, weight: 1, warnings: 4, action: "flag" },
+  // Opt-in: needs the microphone, which not every test wants to use
+  speech_detected: { enabled: false, weight: 1, warnings: 2, action: "flag" },
+  prohibited_object: { enabled: true, weight: 3, warnings: 1, action: "flag" },
+  // Someone else at the keyboard is never a warning-level event
+  identity_mismatch: { enabled: true, weight: 5, warnings: 0, action: "flag" },
+  // Opt-in: the student has to share their entire screen for the whole session
+  screen_share_stopped: { enabled: false, weight: 3, warnings: 0, action: "flag" },
+  secondary_display: { enabled: true, weight: 3, warnings: 1, action: "flag" },
+  devtools_opened: { enabled: true, weight: 3, warnings: 0, action: "flag" },
+};
+
+const DEFAULT_LOCKDOWN: LockdownSettings = {
+  blockCopy: true,
+  // Pasted answers are the main way prepared text or code gets into a test
+  paste: "block",
+  blockSelection: true,
+  blockPrint: true,
+  blockContextMenu: true,
+  blockShortcuts: true,
+};
+
+// Object detection is heavier than face tracking, so it runs on its own, slower cadence
+export const MIN_OBJECT_SCAN_SECONDS = 2;
+// Screenshots are evidence for review, not a recording
+export const MIN_SCREENSHOT_SECONDS = 15;
+
+/**
+ * Default policy for a test
+ * @param warningThreshold tests.warning_threshold, the weighted score at which a session is flagged
+ * @returns Policy with the built-in per-type rules
+ */
+export const createDefaultPolicy = (warningThreshold = 3): ProctoringPolicy => ({
+  rules: Object.fromEntries(
+    VIOLATION_TYPES.map((type) => [type, { ...DEFAULT_RULES[type] }])
+  ) as Record<ViolationType, ViolationRule>,
+  // Matches the "at risk" line faculty see on the monitoring dashboard
+  scoreThreshold: Math.max(1, warningThreshold),
+  scoreAction: "flag",
+  pauseSeconds: 30,
+  audioSensitivity: "medium",
+  objectScanSeconds: 5,
+  screenshotSeconds: 60,
+  lockdown: { ...DEFAULT_LOCKDOWN },
+});
+
+const isAction = (value: unknown): value is ProctoringAction =>
+  typeof value === "string" && value in ACTION_SEVERITY;
+
+const isSensitivity = (value: unknown): value is AudioSensitivity =>
+  typeof value === "string" && value in AUDIO_SENSITIVITY_LABELS;
+
+const isPasteMode = (value: unknown): value is PasteMode =>
+  typeof value === "string" && value in PASTE_MODE_LABELS;
+
+const toFlag = (value: unknown, fallback: boolean) => (typeof value === "boolean" ? value : fallback);
+
+const toCount = (value: unknown, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0 ? Math.floor(value) : fallback;
+
+/**
+ * Reads a stored policy, filling anything missing or malformed from the defaults
+ * @param raw Value of tests.proctoring_policy
+ * @param warningThreshold tests.warning_threshold
+ * @returns A complete policy
+ */
+export const normalizePolicy = (raw: unknown, warningThreshold = 3): ProctoringPolicy => {
+  const defaults = createDefaultPolicy(warningThreshold);
+  if (!raw || typeof raw !== "object") return defaults;
+
+  const stored = raw as Partial<ProctoringPolicy>;
+  const storedRules = (stored.rules || {}) as Partial<Record<ViolationType, Partial<ViolationRule>>>;
+  const storedLockdown = (stored.lockdown || {}) as Partial<LockdownSettings>;
+
+  const rules = Object.fromEntries(
+    VIOLATION_TYPES.map((type) => {
+      const fallback = defaults.rules[type];
+      const rule = storedRules[type] || {};
+      return [type, {
+        enabled: typeof rule.enabled === "boolean" ? rule.enabled : fallback.enabled,
+        weight: toCount(rule.weight, fallback.weight),
+        warnings: toCount(rule.warnings, fallback.warnings),
+        action: isAction(rule.action) ? rule.action : fallback.action,
+      }];
+    })
+  ) as Record<ViolationType, ViolationRule>;
+
+  return {
+    rules,
+    scoreThreshold: toCount(stored.scoreThreshold, defaults.scoreThreshold) || defaults.scoreThreshold,
+    scoreAction: isAction(stored.scoreAction) ? stored.scoreAction : defaults.scoreAction,
+    pauseSeconds: toCount(stored.pauseSeconds, defaults.pauseSeconds),
+    audioSensitivity: isSensitivity(stored.audioSensitivity) ? stored.audioSensitivity : defaults.audioSensitivity,
+    objectScanSeconds: Math.max(MIN_OBJECT_SCAN_SECONDS, toCount(stored.objectScanSeconds, defaults.objectScanSeconds)),
+    screenshotSeconds: Math.max(MIN_SCREENSHOT_SECONDS, toCount(stored.screenshotSeconds, defaults.screenshotSeconds)),
+    lockdown: {
+      blockCopy: toFlag(storedLockdown.blockCopy, defaults.lockdown.blockCopy),
+      paste: isPasteMode(storedLockdown.paste) ? storedLockdown.paste : defaults.lockdown.paste,
+      blockSelection: toFlag(storedLockdown.blockSelection, defaults.lockdown.blockSelection),
+      blockPrint: toFlag(storedLockdown.blockPrint, defaults.lockdown.blockPrint),
+      blockContextMenu: toFlag(storedLockdown.blockContextMenu, defaults.lockdown.blockContextMenu),
+      blockShortcuts: toFlag(storedLockdown.blockShortcuts, defaults.lockdown.blockShortcuts),
+    },
+  };
+};
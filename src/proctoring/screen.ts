@@ -0,0 +1,67 @@
+// Readable enough to see which application is open; stays under the evidence bucket's 512 KB limit
+const MAX_SCREENSHOT_WIDTH = 1280;
+const SCREENSHOT_QUALITY = 0.6;
+
+/**
+ * Surface the student picked in the share dialog: "monitor", "window" or "browser"
+ * @returns undefined if the browser doesn't report it
+ */
+export const getDisplaySurface = (stream: MediaStream) =>
+  stream.getVideoTracks()[0]?.getSettings().displaySurface;
+
+export const isScreenShareLive = (stream: MediaStream | null) =>
+  stream?.getVideoTracks().some((track) => track.readyState === "live") ?? false;
+
+/**
+ * Asks the student to share their entire screen. Must be called from a click
+ * handler, since browsers only open the share dialog on a user gesture.
+ * @throws With a message for the student if sharing is unsupported, refused,
+ * or a window or tab was picked instead of a whole monitor
+ */
+export const requestScreenShare = async (): Promise<MediaStream> => {
+  if (!navigator.mediaDevices?.getDisplayMedia) {
+    throw new Error("This browser cannot share your screen. Please use a recent Chrome, Edge or Firefox.");
+  }
+
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getDisplayMedia({
+      video: { displaySurface: "monitor" },
+      audio: false,
+    });
+  } catch (error) {
+    console.error("Screen share was not started:", error);
+    throw new Error("Screen sharing is required for this test. Please share your entire screen.");
+  }
+
+  const surface = getDisplaySurface(stream);
+  if (surface !== "monitor") {
+    stream.getTracks().forEach((track) => track.stop());
+    throw new Error(
+      surface
+        ? `You shared a ${surface === "browser" ? "tab" : surface}. Please share your entire screen instead.`
+        : "Your browser does not report what is being shared. Please use a recent Chrome, Edge or Firefox."
+    );
+  }
+
+  return stream;
+};
+
+/**
+ * Downscaled screenshot of the shared screen
+ * @param video Video element playing the screen-share stream
+ * @returns JPEG blob, or null if no frame is available yet
+ */
+export const captureScreenshot = (video: HTMLVideoElement): Promise<Blob | null> => {
+  if (!video.videoWidth || !video.videoHeight) return Promise.resolve(null);
+
+  const scale = Math.min(1, MAX_SCREENSHOT_WIDTH / video.videoWidth);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return Promise.resolve(null);
+
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return new Promise((resolve) => canvas.toBlob(resolve, "image/jpeg", SCREENSHOT_QUALITY));
+};
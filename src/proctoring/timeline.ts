@@ -0,0 +1,68 @@
+import { isViolationEvent, type ProctoringEventType } from "./events";
+
+export interface TimelineLog {
+  id: string;
+  event_type: string;
+  event_data: unknown;
+  timestamp: string;
+}
+
+export interface TimelineSegment<T extends TimelineLog> {
+  // Null for whatever happened before the first question was opened
+  questionId: string | null;
+  questionNumber: number | null;
+  start: string;
+  end: string | null;
+  events: T[];
+  violationCount: number;
+}
+
+export const isViolationLog = (log: TimelineLog) =>
+  isViolationEvent({ type: log.event_type as ProctoringEventType, timestamp: log.timestamp });
+
+/**
+ * Splits a session's chronological log at each question_viewed event
+ * @param logs Monitoring logs in ascending timestamp order
+ * @returns One segment per stretch of time spent on a question; navigation events themselves are dropped
+ */
+export const buildTimeline = <T extends TimelineLog>(logs: T[]): TimelineSegment<T>[] => {
+  const segments: TimelineSegment<T>[] = [];
+  let current: TimelineSegment<T> | null = null;
+
+  logs.forEach((log) => {
+    if (log.event_type === "question_viewed") {
+      const data = (log.event_data || {}) as { question_id?: string; question_number?: number };
+      if (current) current.end = log.timestamp;
+      current = {
+        questionId: data.question_id ?? null,
+        questionNumber: data.question_number ?? null,
+        start: log.timestamp,
+        end: null,
+        events: [],
+        violationCount: 0,
+      };
+      segments.push(current);
+      return;
+    }
+
+    if (!current) {
+      current = { questionId: null, questionNumber: null, start: log.timestamp, end: null, events: [], violationCount: 0 };
+      segments.push(current);
+    }
+    current.events.push(log);
+    if (isViolationLog(log)) current.violationCount++;
+  });
+
+  return segments;
+};
+
+/**
+ * Formats an offset from the start of the session as m:ss or h:mm:ss
+ */
+export const formatOffset = (timestamp: string, since: string) => {
+  const totalSeconds = Math.max(0, Math.floor((new Date(timestamp).getTime() - new Date(since).getTime()) / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}` : `${minutes}:${seconds}`;
+};
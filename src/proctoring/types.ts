@@ -0,0 +1,72 @@
+// Every signal a monitoring source can raise during a test
+export type ViolationType =
+  | "tab_switch"
+  | "window_blur"
+  | "fullscreen_exit"
+  | "face_not_detected"
+  | "multiple_faces"
+  | "face_away"
+  | "speech_detected"
+  | "prohibited_object"
+  | "identity_mismatch"
+  | "screen_share_stopped"
+  | "secondary_display"
+  | "devtools_opened";
+
+export type AudioSensitivity = "low" | "medium" | "high";
+
+// What happens when a student pastes into an answer field
+export type PasteMode = "allow" | "log" | "block";
+
+// Browser restrictions applied to the test page while it is monitored
+export interface LockdownSettings {
+  // Copy and cut anywhere on the page
+  blockCopy: boolean;
+  paste: PasteMode;
+  // Text selection outside answer fields
+  blockSelection: boolean;
+  blockPrint: boolean;
+  blockContextMenu: boolean;
+  // Shortcuts that open tabs, leave fullscreen, view source or open developer tools
+  blockShortcuts: boolean;
+}
+
+// Ordered from least to most severe
+export type ProctoringAction = "warn" | "flag" | "pause" | "terminate";
+
+export interface ViolationRule {
+  enabled: boolean;
+  // Contribution of each occurrence to the session's integrity score
+  weight: number;
+  // Occurrences that only produce a warning before `action` applies
+  warnings: number;
+  action: ProctoringAction;
+}
+
+export interface ProctoringPolicy {
+  rules: Record<ViolationType, ViolationRule>;
+  // Weighted score at which `scoreAction` applies regardless of per-type counts
+  scoreThreshold: number;
+  scoreAction: ProctoringAction;
+  // How long a "pause" action locks the test
+  pauseSeconds: number;
+  // Voice detection threshold; the microphone is only used when speech_detected is enabled
+  audioSensitivity: AudioSensitivity;
+  // Seconds between webcam object-detection passes when prohibited_object is enabled
+  objectScanSeconds: number;
+  // Seconds between desktop screenshots when screen_share_stopped is enabled
+  screenshotSeconds: number;
+  lockdown: LockdownSettings;
+}
+
+export interface PolicyDecision {
+  type: ViolationType;
+  action: ProctoringAction;
+  // Occurrences of this type so far, including this one
+  count: number;
+  // Further warnings before the rule's action applies
+  warningsLeft: number;
+  score: number;
+  // True when the weighted score, not the per-type rule, chose the action
+  escalated: boolean;
+}
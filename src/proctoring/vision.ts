@@ -0,0 +1,73 @@
+import { FaceLandmarker, FilesetResolver, ObjectDetector } from "@mediapipe/tasks-vision";
+import { OBJECT_DETECTOR_CATEGORIES } from "./objects";
+
+// WASM runtime and models are copied here by scripts/vision-assets.mjs, so
+// exams don't depend on third-party hosts being reachable from campus networks
+export const VISION_ASSET_URL = (
+  import.meta.env.VITE_VISION_ASSET_URL || `${import.meta.env.BASE_URL}mediapipe/`
+).replace(/\/?$/, "/");
+
+export type VisionModel = "face_landmarker" | "object_detector" | "face_recognizer";
+
+// Paths relative to VISION_ASSET_URL, as listed in its manifest.json
+export const VISION_MODEL_FILES: Record<VisionModel, string> = {
+  face_landmarker: "models/face_landmarker.task",
+  object_detector: "models/efficientdet_lite0.tflite",
+  // The weights manifest; it names the weights file below, which is loaded from beside it
+  face_recognizer: "models/face_recognition_model-weights_manifest.json",
+};
+
+// Further files a model loads by itself, so they are checked along with it
+export const VISION_MODEL_EXTRA_FILES: Partial<Record<VisionModel, string[]>> = {
+  face_recognizer: ["models/face_recognition_model.bin"],
+};
+
+export const visionModelUrl = (model: VisionModel) => `${VISION_ASSET_URL}${VISION_MODEL_FILES[model]}`;
+
+type Delegate = "GPU" | "CPU";
+
+export const loadVisionFileset = () => FilesetResolver.forVisionTasks(`${VISION_ASSET_URL}wasm`);
+
+// GPU first, then CPU for desktops without usable WebGL
+export const withDelegateFallback = async <T>(label: string, create: (delegate: Delegate) => Promise<T>) => {
+  try {
+    return await create("GPU");
+  } catch (gpuError) {
+    console.log(`GPU not available for ${label}, falling back to CPU:`, gpuError);
+    return create("CPU");
+  }
+};
+
+/**
+ * Face landmarker configured for proctoring: up to two faces, with the
+ * blendshapes and transformation matrix that gaze tracking needs
+ */
+export const createFaceLandmarker = async () => {
+  const vision = await loadVisionFileset();
+  return withDelegateFallback("face tracking", (delegate) =>
+    FaceLandmarker.createFromOptions(vision, {
+      baseOptions: { modelAssetPath: visionModelUrl("face_landmarker"), delegate },
+      outputFaceBlendshapes: true,
+      outputFacialTransformationMatrixes: true,
+      runningMode: "VIDEO",
+      numFaces: 2,
+    })
+  );
+};
+
+/**
+ * Object detector limited to the given COCO categories
+ * @param categories Defaults to the prohibited-object categories
+ */
+export const createObjectDetector = async (categories: string[] = OBJECT_DETECTOR_CATEGORIES) => {
+  const vision = await loadVisionFileset();
+  return withDelegateFallback("object detection", (delegate) =>
+    ObjectDetector.createFromOptions(vision, {
+      baseOptions: { modelAssetPath: visionModelUrl("object_detector"), delegate },
+      categoryAllowlist: categories,
+      scoreThreshold: 0.3,
+      maxResults: 5,
+      runningMode: "VIDEO",
+    })
+  );
+};
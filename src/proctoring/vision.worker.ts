@@ -0,0 +1,51 @@
+/// <reference lib="webworker" />
+import type { FaceLandmarker, ObjectDetector } from "@mediapipe/tasks-vision";
+import { createFaceLandmarker, createObjectDetector } from "./vision";
+import type { VisionRequest, VisionResponse } from "./visionTracker";
+
+// Runs webcam inference off the main thread. Frames arrive as transferred
+// ImageBitmaps and are closed here once analyzed.
+const ctx = self as unknown as DedicatedWorkerGlobalScope;
+
+let faceLandmarker: FaceLandmarker | null = null;
+// Loaded on the first object request, since not every test checks for objects
+let objectDetector: Promise<ObjectDetector> | null = null;
+
+const reply = (response: VisionResponse) => ctx.postMessage(response);
+
+ctx.onmessage = async (event: MessageEvent<VisionRequest>) => {
+  const request = event.data;
+
+  try {
+    switch (request.type) {
+      case "init":
+        faceLandmarker = await createFaceLandmarker();
+        reply({ type: "ready" });
+        break;
+      case "faces":
+        try {
+          reply({ type: "faces", id: request.id, result: faceLandmarker.detectForVideo(request.frame, request.timestamp) });
+        } finally {
+          request.frame.close();
+        }
+        break;
+      case "objects":
+        try {
+          objectDetector ??= createObjectDetector();
+          const detector = await objectDetector;
+          reply({ type: "objects", id: request.id, detections: detector.detectForVideo(request.frame, request.timestamp).detections });
+        } finally {
+          request.frame.close();
+        }
+        break;
+      case "close":
+        faceLandmarker?.close();
+        (await objectDetector)?.close();
+        faceLandmarker = null;
+        objectDetector = null;
+        break;
+    }
+  } catch (err) {
+    reply({ type: "error", id: "id" in request ? request.id : undefined, message: String(err) });
+  }
+};
@@ -0,0 +1,83 @@
+import { createFaceRecognizer } from "./identity";
+import {
+  createFaceLandmarker,
+  createObjectDetector,
+  loadVisionFileset,
+  VISION_ASSET_URL,
+  VISION_MODEL_EXTRA_FILES,
+  visionModelUrl,
+  type VisionModel,
+} from "./vision";
+
+// Written by scripts/vision-assets.mjs next to the assets it describes
+interface VisionAssetManifest {
+  version: string;
+  files: Record<string, string>;
+}
+
+const MODEL_CREATORS: Record<VisionModel, () => Promise<{ close: () => void }>> = {
+  face_landmarker: createFaceLandmarker,
+  object_detector: createObjectDetector,
+  face_recognizer: createFaceRecognizer,
+};
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+const fetchManifest = async (): Promise<VisionAssetManifest> => {
+  const response = await fetch(`${VISION_ASSET_URL}manifest.json`, { cache: "no-cache" });
+  if (!response.ok) {
+    throw new Error(`Proctoring asset manifest is unavailable (${response.status})`);
+  }
+  return response.json();
+};
+
+/**
+ * Downloads the WASM runtime this browser will use and the given models, and
+ * checks each against the SHA-256 in the manifest. The responses land in the
+ * HTTP cache, so the webcam monitor's own loads don't hit the network again.
+ * @throws If an asset is missing, unreachable or doesn't match the manifest
+ */
+export const verifyVisionAssets = async (models: VisionModel[]) => {
+  const manifest = await fetchManifest();
+  const fileset = await loadVisionFileset();
+  const urls = [
+    fileset.wasmLoaderPath,
+    fileset.wasmBinaryPath,
+    ...models.map(visionModelUrl),
+    ...models.flatMap((model) => (VISION_MODEL_EXTRA_FILES[model] || []).map((path) => `${VISION_ASSET_URL}${path}`)),
+  ];
+
+  for (const url of urls) {
+    const path = url.slice(VISION_ASSET_URL.length);
+    const expected = manifest.files[path];
+    if (!expected) {
+      throw new Error(`${path} is not listed in the proctoring asset manifest`);
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Could not download ${path} (${response.status})`);
+    }
+    const actual = toHex(await crypto.subtle.digest("SHA-256", await response.arrayBuffer()));
+    if (actual !== expected) {
+      throw new Error(`${path} failed its integrity check`);
+    }
+  }
+};
+
+/**
+ * Pre-flight before an exam: verifies the assets, then loads each model once
+ * to confirm it initializes on this device
+ * @throws With a message naming the asset or model that failed
+ */
+export const preflightVision = async (models: VisionModel[]) => {
+  await verifyVisionAssets(models);
+
+  for (const model of models) {
+    const task = await MODEL_CREATORS[model]().catch((err) => {
+      throw new Error(`The ${model.replace("_", " ")} model could not be loaded: ${err}`);
+    });
+    task.close();
+  }
+};
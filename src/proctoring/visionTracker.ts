@@ -0,0 +1,230 @@
+import type { Detection, FaceLandmarker, FaceLandmarkerResult, ObjectDetector } from "@mediapipe/tasks-vision";
+import { createFaceLandmarker, createObjectDetector } from "./vision";
+
+export type VisionRequest =
+  | { type: "init" }
+  | { type: "faces"; id: number; frame: ImageBitmap; timestamp: number }
+  | { type: "objects"; id: number; frame: ImageBitmap; timestamp: number }
+  | { type: "close" };
+
+export type VisionResponse =
+  | { type: "ready" }
+  | { type: "faces"; id: number; result: FaceLandmarkerResult }
+  | { type: "objects"; id: number; detections: Detection[] }
+  | { type: "error"; id?: number; message: string };
+
+// Sampling speeds up to the minimum after anything suspicious and backs off to the maximum when quiet
+export const MIN_SAMPLE_INTERVAL_MS = 500;
+export const MAX_SAMPLE_INTERVAL_MS = 4000;
+const SAMPLE_BACKOFF = 1.5;
+// The models are cached by the pre-exam check, so a worker that takes longer than this is stuck
+const WORKER_START_TIMEOUT_MS = 20000;
+// A frame takes tens of milliseconds; one unanswered for this long is given up on
+const REQUEST_TIMEOUT_MS = 10000;
+// Unanswered frames in a row before the worker is abandoned for the main thread
+const MAX_REQUEST_TIMEOUTS = 3;
+
+/**
+ * Delay before the next webcam frame is analyzed
+ * @param previous Delay used for the frame just analyzed
+ * @param suspicious Whether that frame showed anything worth a closer look
+ */
+export const nextSampleInterval = (previous: number, suspicious: boolean) =>
+  suspicious
+    ? MIN_SAMPLE_INTERVAL_MS
+    : Math.min(MAX_SAMPLE_INTERVAL_MS, Math.round(previous * SAMPLE_BACKOFF));
+
+type Pending = { resolve: (value: unknown) => void; reject: (error: Error) => void };
+
+/**
+ * Face and object inference for the webcam feed. Runs in a Web Worker where
+ * the browser allows it and on the main thread otherwise, including after the
+ * worker stops answering. Each task handles one frame at a time; frames
+ * requested while it's busy are skipped (null).
+ */
+export class VisionTracker {
+  private worker: Worker | null = null;
+  private faceLandmarker: Promise<FaceLandmarker> | null = null;
+  private objectDetector: Promise<ObjectDetector> | null = null;
+  private pending = new Map<number, Pending>();
+  private busy = new Set<"faces" | "objects">();
+  private nextId = 0;
+  private workerError: string | null = null;
+  private timeoutsInARow = 0;
+
+  private constructor() {}
+
+  get inWorker() {
+    return this.worker !== null;
+  }
+
+  // Why inference fell back to the main thread, or null when it runs in the worker
+  get fallbackReason() {
+    return this.workerError;
+  }
+
+  static async create() {
+    const tracker = new VisionTracker();
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    try {
+      await Promise.race([
+        tracker.startWorker(),
+        new Promise<never>((_, reject) => {
+          timeout = setTimeout(
+            () => reject(new Error(`Vision worker did not start within ${WORKER_START_TIMEOUT_MS / 1000} seconds`)),
+            WORKER_START_TIMEOUT_MS
+          );
+        }),
+      ]);
+    } catch (err) {
+      // The dev server only serves workers as modules, where MediaPipe's WASM loader can't run
+      tracker.fallBackToMainThread(err instanceof Error ? err.message : String(err));
+      await tracker.faceLandmarker;
+    } finally {
+      clearTimeout(timeout);
+    }
+    return tracker;
+  }
+
+  /**
+   * @returns Landmarks for the current frame, or null if the previous frame is still being analyzed
+   */
+  detectFaces(video: HTMLVideoElement): Promise<FaceLandmarkerResult | null> {
+    return this.run("faces", video, async (timestamp) => {
+      this.faceLandmarker ??= createFaceLandmarker();
+      return (await this.faceLandmarker).detectForVideo(video, timestamp);
+    }) as Promise<FaceLandmarkerResult | null>;
+  }
+
+  /**
+   * @returns Detected objects for the current frame, or null if busy
+   */
+  detectObjects(video: HTMLVideoElement): Promise<Detection[] | null> {
+    return this.run("objects", video, async (timestamp) => {
+      this.objectDetector ??= createObjectDetector();
+      return (await this.objectDetector).detectForVideo(video, timestamp).detections;
+    }) as Promise<Detection[] | null>;
+  }
+
+  close() {
+    if (this.worker) {
+      this.worker.postMessage({ type: "close" } satisfies VisionRequest);
+      this.worker.terminate();
+      this.worker = null;
+    }
+    this.pending.forEach(({ reject }) => reject(new Error("Vision tracker closed")));
+    this.pending.clear();
+    this.faceLandmarker?.then((landmarker) => landmarker.close()).catch(() => undefined);
+    this.faceLandmarker = null;
+    this.objectDetector?.then((detector) => detector.close()).catch(() => undefined);
+    this.objectDetector = null;
+  }
+
+  // Drops the worker and anything waiting on it; the main-thread models load from the HTTP cache
+  private fallBackToMainThread(reason: string) {
+    this.workerError = reason;
+    this.worker?.terminate();
+    this.worker = null;
+    const error = new Error(reason);
+    this.pending.forEach(({ reject }) => reject(error));
+    this.pending.clear();
+    this.faceLandmarker ??= createFaceLandmarker();
+  }
+
+  private startWorker() {
+    if (typeof Worker === "undefined" || typeof createImageBitmap === "undefined") {
+      return Promise.reject(new Error("Web Workers or ImageBitmap are not supported"));
+    }
+
+    // Classic worker: MediaPipe loads its WASM glue with importScripts, which module workers lack
+    const worker = new Worker(new URL("./vision.worker.ts", import.meta.url));
+    this.worker = worker;
+
+    return new Promise<void>((resolve, reject) => {
+      worker.onerror = (event) => {
+        const error = new Error(event.message || "Vision worker failed");
+        this.pending.forEach((pending) => pending.reject(error));
+        this.pending.clear();
+        reject(error);
+      };
+      worker.onmessage = (event: MessageEvent<VisionResponse>) => {
+        const response = event.data;
+        switch (response.type) {
+          case "ready":
+            resolve();
+            break;
+          case "faces":
+            this.settle(response.id, response.result);
+            break;
+          case "objects":
+            this.settle(response.id, response.detections);
+            break;
+          case "error":
+            if (response.id === undefined) {
+              reject(new Error(response.message));
+            } else {
+              this.settle(response.id, undefined, new Error(response.message));
+            }
+            break;
+        }
+      };
+      worker.postMessage({ type: "init" } satisfies VisionRequest);
+    });
+  }
+
+  private settle(id: number, value: unknown, error?: Error) {
+    const pending = this.pending.get(id);
+    if (!pending) return;
+    this.pending.delete(id);
+    if (error) {
+      pending.reject(error);
+    } else {
+      pending.resolve(value);
+    }
+  }
+
+  private async run(
+    task: "faces" | "objects",
+    video: HTMLVideoElement,
+    onMainThread: (timestamp: number) => Promise<unknown>
+  ) {
+    if (this.busy.has(task)) return null;
+    this.busy.add(task);
+
+    try {
+      const timestamp = performance.now();
+      if (!this.worker) {
+        return await onMainThread(timestamp);
+      }
+
+      // The bitmap is transferred, not copied; the worker closes it
+      const frame = await createImageBitmap(video);
+      const id = this.nextId++;
+      const result = await new Promise((resolve, reject) => {
+        const timeout = setTimeout(() => {
+          this.pending.delete(id);
+          const message = `Vision worker did not answer within ${REQUEST_TIMEOUT_MS / 1000} seconds`;
+          if (this.worker && ++this.timeoutsInARow >= MAX_REQUEST_TIMEOUTS) {
+            this.fallBackToMainThread(`${message}, ${MAX_REQUEST_TIMEOUTS} frames in a row`);
+          }
+          reject(new Error(message));
+        }, REQUEST_TIMEOUT_MS);
+        this.pending.set(id, {
+          resolve: (value) => {
+            clearTimeout(timeout);
+            resolve(value);
+          },
+          reject: (error) => {
+            clearTimeout(timeout);
+            reject(error);
+          },
+        });
+        this.worker.postMessage({ type: task, id, frame, timestamp } satisfies VisionRequest, [frame]);
+      });
+      this.timeoutsInARow = 0;
+      return result;
+    } finally {
+      this.busy.delete(task);
+    }
+  }
+}
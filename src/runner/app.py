@@ -0,0 +1,322 @@
+"""
+Local stand-in for the code runner service.
+
+Compiles and runs C, C++ and Java submissions in a throwaway directory with
+CPU-time, memory and output limits. Every compile and run happens inside an
+nsjail sandbox: no network, an unprivileged user, the system directories
+mounted read-only and only the job directory writable. Only signed-in users of
+the exam app may submit jobs, and the limits they ask for are capped here.
+Production deployments can swap this for any service that speaks the same
+/execute contract.
+"""
+import glob
+import json
+import os
+import resource
+import shutil
+import subprocess
+import tempfile
+import threading
+import time
+import urllib.error
+import urllib.request
+
+from flask import Flask, request, jsonify
+
+app = Flask(__name__)
+
+COMPILE_TIMEOUT_SECONDS = 15
+COMPILE_MEMORY_MB = 1024
+READ_CHUNK_BYTES = 4096
+
+# Defaults, and the (minimum, maximum) a request may ask for
+LIMITS = {
+    'timeLimitMs': (5000, (100, 10000)),
+    'memoryLimitMb': (256, (16, 512)),
+    'maxOutputBytes': (64 * 1024, (1024, 256 * 1024)),
+}
+
+# Callers send their Supabase access token, which the project's auth API checks
+SUPABASE_URL = os.environ.get('SUPABASE_URL', '').rstrip('/')
+SUPABASE_ANON_KEY = os.environ.get('SUPABASE_ANON_KEY', '')
+AUTH_TIMEOUT_SECONDS = 5
+
+NSJAIL = shutil.which('nsjail')
+# Only for trying the runner on a developer machine; never set this in a deployment
+ALLOW_UNSANDBOXED = os.environ.get('RUNNER_ALLOW_UNSANDBOXED') == '1'
+# The exam app's origin; a comma separated list when it is served from several
+ALLOWED_ORIGINS = {
+    origin.strip()
+    for origin in os.environ.get('RUNNER_ALLOWED_ORIGINS', 'http://localhost:8080').split(',')
+    if origin.strip()
+}
+# Mounted read-only inside the sandbox so compilers and runtimes can be found
+READ_ONLY_MOUNTS = ['/bin', '/lib', '/lib64', '/usr', '/etc/ld.so.cache', '/etc/alternatives'] + glob.glob('/etc/java-*')
+NOBODY = '65534'
+
+LANGUAGES = {
+    'c': {
+        'file': 'main.c',
+        'compile': ['gcc', '-O2', '-std=c11', '-o', 'main', 'main.c', '-lm'],
+        'run': ['./main'],
+    },
+    'cpp': {
+        'file': 'main.cpp',
+        'compile': ['g++', '-O2', '-std=c++17', '-o', 'main', 'main.cpp'],
+        'run': ['./main'],
+    },
+    'java': {
+        'file': 'Main.java',
+        # The JVM reserves far more address space than it uses, so for both javac
+        # and the program memory is capped through the heap size instead of RLIMIT_AS
+        'jvm': True,
+        'compile': ['javac', '-J-Xmx{}m'.format(COMPILE_MEMORY_MB), 'Main.java'],
+        'run': lambda memory_mb: ['java', '-Xmx{}m'.format(memory_mb), '-Xss64m', 'Main'],
+    },
+}
+
+
+def read_limits(requested):
+    """Fill in defaults and clamp each limit to what the runner allows.
+
+    Raises ValueError if a limit is not a number.
+    """
+    limits = {}
+    for name, (default, (lowest, highest)) in LIMITS.items():
+        value = requested.get(name, default) if isinstance(requested, dict) else default
+        limits[name] = min(max(int(value), lowest), highest)
+    return limits
+
+
+def authenticated_user(authorization):
+    """Return the Supabase user id behind a "Bearer <access token>" header, or None."""
+    if not authorization or not authorization.startswith('Bearer '):
+        return None
+    check = urllib.request.Request(
+        '{}/auth/v1/user'.format(SUPABASE_URL),
+        headers={'Authorization': authorization, 'apikey': SUPABASE_ANON_KEY},
+    )
+    try:
+        with urllib.request.urlopen(check, timeout=AUTH_TIMEOUT_SECONDS) as response:
+            return json.load(response).get('id')
+    except (urllib.error.URLError, ValueError):
+        # Rejected, expired or unverifiable tokens all count as signed out
+        return None
+
+
+def make_limits(cpu_seconds, memory_mb):
+    """Build a preexec_fn that applies resource limits inside an unsandboxed child."""
+    def apply_limits():
+        resource.setrlimit(resource.RLIMIT_CPU, (cpu_seconds, cpu_seconds + 1))
+        if memory_mb:
+            memory_bytes = memory_mb * 1024 * 1024
+            resource.setrlimit(resource.RLIMIT_AS, (memory_bytes, memory_bytes))
+        resource.setrlimit(resource.RLIMIT_NPROC, (64, 64))
+        resource.setrlimit(resource.RLIMIT_FSIZE, (1024 * 1024, 1024 * 1024))
+    return apply_limits
+
+
+def sandboxed(command, workdir, cpu_seconds, memory_mb):
+    """Wrap a command in nsjail with the given CPU-time and address-space limits.
+
+    nsjail puts the child in fresh user, network, mount and PID namespaces, so
+    it runs as nobody with no network interfaces and no capabilities. The
+    rlimits are passed through nsjail because it resets them in the child.
+    Returns the command and the preexec_fn to start it with.
+    """
+    if NSJAIL is None:
+        return command, make_limits(cpu_seconds, memory_mb)
+    jail = [
+        NSJAIL, '--mode', 'o', '--quiet',
+        '--user', NOBODY, '--group', NOBODY,
+        '--hostname', 'runner',
+        '--cwd', workdir,
+        '--time_limit', '0',
+        '--rlimit_cpu', str(cpu_seconds),
+        '--rlimit_as', str(memory_mb) if memory_mb else 'inf',
+        '--rlimit_fsize', '1',
+        '--rlimit_nproc', '64',
+        '--rlimit_nofile', '64',
+    ]
+    for path in READ_ONLY_MOUNTS:
+        if os.path.exists(path):
+            jail += ['--bindmount_ro', path]
+    jail += ['--bindmount', workdir, '--tmpfsmount', '/tmp', '--']
+    return jail + command, None
+
+
+def drain(pipe, max_bytes, sink):
+    """Keep at most max_bytes of a pipe and discard the rest, so the child never blocks."""
+    while True:
+        chunk = pipe.read(READ_CHUNK_BYTES)
+        if not chunk:
+            break
+        room = max_bytes - len(sink['data'])
+        if len(chunk) > room:
+            sink['truncated'] = True
+        if room > 0:
+            sink['data'] += chunk[:room]
+    pipe.close()
+
+
+def run_bounded(job, workdir, stdin, timeout, max_output):
+    """Run a sandboxed job, reading its output in bounded chunks instead of buffering all of it.
+
+    Returns (stdout, stderr, exit_code, timed_out, truncated); exit_code is None on timeout.
+    """
+    command, preexec_fn = job
+    process = subprocess.Popen(
+        command, cwd=workdir, stdin=subprocess.PIPE, stdout=subprocess.PIPE, stderr=subprocess.PIPE,
+        preexec_fn=preexec_fn
+    )
+    out = {'data': b'', 'truncated': False}
+    err = {'data': b'', 'truncated': False}
+    readers = [
+        threading.Thread(target=drain, args=(process.stdout, max_output, out)),
+        threading.Thread(target=drain, args=(process.stderr, max_output, err)),
+    ]
+    for reader in readers:
+        reader.start()
+
+    def feed():
+        try:
+            process.stdin.write(stdin.encode('utf-8'))
+        except BrokenPipeError:
+            # The program exited without reading all of its input
+            pass
+        finally:
+            try:
+                process.stdin.close()
+            except BrokenPipeError:
+                pass
+    writer = threading.Thread(target=feed)
+    writer.start()
+
+    timed_out = False
+    try:
+        exit_code = process.wait(timeout=timeout)
+    except subprocess.TimeoutExpired:
+        timed_out = True
+        process.kill()
+        process.wait()
+        exit_code = None
+    writer.join()
+    for reader in readers:
+        reader.join()
+
+    return (
+        out['data'].decode('utf-8', 'replace'),
+        err['data'].decode('utf-8', 'replace'),
+        exit_code,
+        timed_out,
+        out['truncated'] or err['truncated'],
+    )
+
+
+@app.route('/health', methods=['GET'])
+def health():
+    available = {name: shutil.which(spec['compile'][0]) is not None for name, spec in LANGUAGES.items()}
+    return jsonify({'status': 'ok', 'sandboxed': NSJAIL is not None, 'languages': available})
+
+
+@app.route('/execute', methods=['POST'])
+def execute():
+    if not SUPABASE_URL or not SUPABASE_ANON_KEY:
+        return jsonify({'error': 'SUPABASE_URL and SUPABASE_ANON_KEY are not set; cannot check callers'}), 503
+    if authenticated_user(request.headers.get('Authorization')) is None:
+        return jsonify({'error': 'Sign in to run code'}), 401
+
+    data = request.get_json(force=True)
+    language = data.get('language')
+    source = data.get('source', '')
+    stdin = data.get('stdin', '')
+    try:
+        limits = read_limits(data.get('limits', {}))
+    except (TypeError, ValueError):
+        return jsonify({'error': 'Limits must be numbers'}), 400
+    time_limit_ms = limits['timeLimitMs']
+    memory_mb = limits['memoryLimitMb']
+    max_output = limits['maxOutputBytes']
+
+    spec = LANGUAGES.get(language)
+    if spec is None:
+        return jsonify({'error': 'Unsupported language: {}'.format(language)}), 400
+    if NSJAIL is None and not ALLOW_UNSANDBOXED:
+        return jsonify({'error': 'nsjail is not installed; refusing to run code unsandboxed'}), 503
+
+    workdir = tempfile.mkdtemp(prefix='pariksha-run-')
+    try:
+        with open(os.path.join(workdir, spec['file']), 'w') as handle:
+            handle.write(source)
+        # The sandbox user must be able to write the compiled output
+        os.chmod(workdir, 0o777)
+
+        compile_address_space_mb = None if spec.get('jvm') else COMPILE_MEMORY_MB
+        _, compile_errors, compile_code, compile_timed_out, compile_truncated = run_bounded(
+            sandboxed(spec['compile'], workdir, COMPILE_TIMEOUT_SECONDS, compile_address_space_mb),
+            workdir, '', COMPILE_TIMEOUT_SECONDS, max_output
+        )
+        if compile_timed_out:
+            return jsonify({
+                'stdout': '',
+                'stderr': 'Compilation timed out\n',
+                'exitCode': None,
+                'timedOut': True,
+                'memoryExceeded': False,
+                'outputTruncated': False,
+                'durationMs': 0,
+            })
+        if compile_code != 0:
+            return jsonify({
+                'stdout': '',
+                'stderr': compile_errors,
+                'exitCode': compile_code,
+                'timedOut': False,
+                'memoryExceeded': False,
+                'outputTruncated': compile_truncated,
+                'durationMs': 0,
+            })
+
+        run_command = spec['run'](memory_mb) if callable(spec['run']) else spec['run']
+        cpu_seconds = max(1, (time_limit_ms + 999) // 1000)
+        address_space_mb = None if spec.get('jvm') else memory_mb
+        started = time.monotonic()
+        stdout, stderr, exit_code, timed_out, truncated = run_bounded(
+            sandboxed(run_command, workdir, cpu_seconds, address_space_mb),
+            workdir, stdin, time_limit_ms / 1000.0 + 1, max_output
+        )
+        duration_ms = int((time.monotonic() - started) * 1000)
+
+        if timed_out:
+            stderr = 'Time limit exceeded ({} ms)\n'.format(time_limit_ms)
+        # SIGXCPU means the CPU-time rlimit fired; nsjail reports it as 128 + signal
+        if exit_code in (-24, 128 + 24):
+            timed_out = True
+        memory_exceeded = 'OutOfMemoryError' in stderr or 'bad_alloc' in stderr
+
+        return jsonify({
+            'stdout': stdout,
+            'stderr': stderr,
+            'exitCode': exit_code,
+            'timedOut': timed_out,
+            'memoryExceeded': memory_exceeded,
+            'outputTruncated': truncated,
+            'durationMs': duration_ms,
+        })
+    finally:
+        shutil.rmtree(workdir, ignore_errors=True)
+
+
+@app.after_request
+def add_cors_headers(response):
+    # Only the exam app may call the runner from a browser
+    origin = request.headers.get('Origin')
+    if origin in ALLOWED_ORIGINS:
+        response.headers['Access-Control-Allow-Origin'] = origin
+        response.headers['Access-Control-Allow-Headers'] = 'authorization, content-type'
+    response.headers['Vary'] = 'Origin'
+    return response
+
+
+if __name__ == '__main__':
+    app.run(host='0.0.0.0', port=8090)
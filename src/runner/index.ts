@@ -0,0 +1,250 @@
+/**
+ * Runner index file
+ *
+ * Executes student code for coding questions. JavaScript and Python run in
+ * Web Workers inside the browser; compiled languages are sent to a runner
+ * service (see `app.py` in this folder for the local stand-in).
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type {
+  CodeTestCase,
+  ExecutionLimits,
+  ExecutionRequest,
+  ExecutionResult,
+  RunnerLanguage,
+  TestCaseResult,
+  WorkerResultMessage,
+} from "./types";
+
+export * from "./types";
+
+// Runner service used for C, C++ and Java
+export const RUNNER_ENDPOINT = import.meta.env.VITE_CODE_RUNNER_URL || "http://localhost:8090";
+
+export const DEFAULT_LIMITS: ExecutionLimits = {
+  timeLimitMs: 5000,
+  memoryLimitMb: 256,
+  maxOutputBytes: 64 * 1024,
+};
+
+const REMOTE_LANGUAGES: RunnerLanguage[] = ["java", "cpp", "c"];
+
+// JavaScript runs in a plain Web Worker, which the browser gives no memory accounting
+export const hasMemoryLimit = (language: string) => language !== "javascript";
+
+// Pyodide takes a few seconds to boot, so its worker is kept between runs
+let pythonWorker: Worker | null = null;
+let pythonWorkerWarm = false;
+const PYTHON_BOOT_ALLOWANCE_MS = 30000;
+
+const createWorker = (language: "javascript" | "python") =>
+  language === "javascript"
+    ? new Worker(new URL("./javascript.worker.ts", import.meta.url), { type: "module" })
+    : new Worker(new URL("./python.worker.ts", import.meta.url), { type: "module" });
+
+const emptyResult = (overrides: Partial<ExecutionResult>): ExecutionResult => ({
+  stdout: "",
+  stderr: "",
+  exitCode: null,
+  timedOut: false,
+  memoryExceeded: false,
+  outputTruncated: false,
+  durationMs: 0,
+  ...overrides,
+});
+
+const runInWorker = (request: ExecutionRequest): Promise<ExecutionResult> => {
+  const language = request.language as "javascript" | "python";
+  const persistent = language === "python";
+  const worker = persistent ? (pythonWorker ??= createWorker("python")) : createWorker("javascript");
+  const startedAt = performance.now();
+
+  const dispose = (force: boolean) => {
+    if (!persistent || force) {
+      worker.terminate();
+      if (persistent) {
+        pythonWorker = null;
+        pythonWorkerWarm = false;
+      }
+    }
+  };
+
+  return new Promise((resolve) => {
+    // The first Python run includes interpreter start-up, which is not billed to the student
+    const timeLimit = persistent && !pythonWorkerWarm
+      ? request.limits.timeLimitMs + PYTHON_BOOT_ALLOWANCE_MS
+      : request.limits.timeLimitMs;
+
+    const timer = window.setTimeout(() => {
+      worker.onmessage = null;
+      worker.onerror = null;
+      dispose(true);
+      resolve(emptyResult({
+        stderr: `Time limit exceeded (${request.limits.timeLimitMs} ms)\n`,
+        timedOut: true,
+        durationMs: performance.now() - startedAt,
+      }));
+    }, timeLimit);
+
+    worker.onmessage = (event: MessageEvent<WorkerResultMessage>) => {
+      window.clearTimeout(timer);
+      if (persistent) pythonWorkerWarm = true;
+      const { stdout, stderr, exitCode, memoryExceeded = false, outputTruncated } = event.data;
+      // A Pyodide heap never shrinks, so recycle the worker once it blows the limit
+      dispose(memoryExceeded);
+      resolve({
+        stdout,
+        stderr,
+        exitCode,
+        timedOut: false,
+        memoryExceeded,
+        outputTruncated,
+        durationMs: performance.now() - startedAt,
+      });
+    };
+
+    worker.onerror = (event) => {
+      window.clearTimeout(timer);
+      dispose(true);
+      resolve(emptyResult({
+        stderr: `${event.message || "Runner failed to start"}\n`,
+        exitCode: 1,
+        durationMs: performance.now() - startedAt,
+      }));
+    };
+
+    worker.postMessage({ source: request.source, stdin: request.stdin, limits: request.limits });
+  });
+};
+
+const runRemote = async (request: ExecutionRequest): Promise<ExecutionResult> => {
+  const startedAt = performance.now();
+  const controller = new AbortController();
+  // Leave headroom for compilation and the network round trip
+  const timeout = window.setTimeout(() => controller.abort(), request.limits.timeLimitMs + 15000);
+
+  try {
+    // The runner only accepts jobs from signed-in users
+    const { data: { session } } = await supabase.auth.getSession();
+    const response = await fetch(`${RUNNER_ENDPOINT}/execute`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(session ? { Authorization: `Bearer ${session.access_token}` } : {}),
+      },
+      body: JSON.stringify(request),
+      signal: controller.signal,
+    });
+
+    if (response.status === 401) {
+      throw new Error("your session has expired, sign in again to run code");
+    }
+    if (!response.ok) {
+      throw new Error(`Runner responded with ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Error executing code remotely:", error);
+    return emptyResult({
+      stderr: controller.signal.aborted
+        ? "Runner service did not respond in time\n"
+        : `Runner service unavailable: ${error instanceof Error ? error.message : String(error)}\n`,
+      exitCode: 1,
+      timedOut: controller.signal.aborted,
+      durationMs: performance.now() - startedAt,
+    });
+  } finally {
+    window.clearTimeout(timeout);
+  }
+};
+
+/**
+ * Runs a program once against the given stdin
+ * @param language One of the supported coding languages
+ * @param source Student source code
+ * @param stdin Text fed to the program's standard input
+ * @param limits Optional overrides for the default execution limits
+ * @returns Promise with the captured output and limit flags
+ */
+export const runCode = async (
+  language: string,
+  source: string,
+  stdin = "",
+  limits: Partial<ExecutionLimits> = {}
+): Promise<ExecutionResult> => {
+  const request: ExecutionRequest = {
+    language: language as RunnerLanguage,
+    source,
+    stdin,
+    limits: { ...DEFAULT_LIMITS, ...limits },
+  };
+
+  if (language === "javascript" || language === "python") {
+    return runInWorker(request);
+  }
+
+  if (REMOTE_LANGUAGES.includes(language as RunnerLanguage)) {
+    return runRemote(request);
+  }
+
+  return emptyResult({ stderr: `Unsupported language: ${language}\n`, exitCode: 1 });
+};
+
+// Judges compare output ignoring trailing whitespace on each line and trailing blank lines
+export const normalizeOutput = (output: string) =>
+  output
+    .replace(/\r\n/g, "\n")
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .join("\n")
+    .replace(/\n+$/, "");
+
+/**
+ * Runs a program against every test case, one fresh execution per case
+ * @param language One of the supported coding languages
+ * @param source Student source code
+ * @param testCases Inputs and expected outputs authored by faculty
+ * @param limits Optional overrides for the default execution limits
+ * @returns Promise with a result per test case, in order
+ */
+export const runTestCases = async (
+  language: string,
+  source: string,
+  testCases: CodeTestCase[],
+  limits: Partial<ExecutionLimits> = {}
+): Promise<TestCaseResult[]> => {
+  const results: TestCaseResult[] = [];
+
+  // Sequential on purpose: parallel runs would skew each other's timing
+  for (const testCase of testCases) {
+    const execution = await runCode(language, source, testCase.input, limits);
+    const actual = normalizeOutput(execution.stdout);
+    const expected = normalizeOutput(testCase.expectedOutput);
+
+    let status: TestCaseResult["status"];
+    if (execution.timedOut) {
+      status = "time_limit_exceeded";
+    } else if (execution.memoryExceeded) {
+      status = "memory_limit_exceeded";
+    } else if (execution.exitCode !== 0) {
+      status = "runtime_error";
+    } else {
+      status = actual === expected ? "passed" : "failed";
+    }
+
+    results.push({
+      status,
+      passed: status === "passed",
+      input: testCase.input,
+      expected,
+      actual,
+      stderr: execution.stderr,
+      durationMs: Math.round(execution.durationMs),
+      description: testCase.description,
+    });
+  }
+
+  return results;
+};
@@ -0,0 +1,56 @@
+/// <reference lib="webworker" />
+import type { WorkerRunMessage, WorkerResultMessage } from "./types";
+
+// Runs student JavaScript in an isolated worker. The parent terminates the
+// worker when the time limit is hit, so infinite loops cannot hang the page.
+const ctx = self as unknown as DedicatedWorkerGlobalScope;
+
+const formatValue = (value: unknown): string => {
+  if (typeof value === "string") return value;
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+};
+
+ctx.onmessage = (event: MessageEvent<WorkerRunMessage>) => {
+  const { source, stdin, limits } = event.data;
+  const lines = stdin.split(/\r?\n/);
+  let lineIndex = 0;
+  let stdout = "";
+  let stderr = "";
+  let outputTruncated = false;
+
+  const write = (stream: "stdout" | "stderr", text: string) => {
+    const current = stream === "stdout" ? stdout : stderr;
+    if (current.length + text.length > limits.maxOutputBytes) {
+      outputTruncated = true;
+      text = text.slice(0, Math.max(0, limits.maxOutputBytes - current.length));
+    }
+    if (stream === "stdout") stdout += text;
+    else stderr += text;
+  };
+
+  const sandboxConsole = {
+    log: (...args: unknown[]) => write("stdout", args.map(formatValue).join(" ") + "\n"),
+    info: (...args: unknown[]) => write("stdout", args.map(formatValue).join(" ") + "\n"),
+    warn: (...args: unknown[]) => write("stderr", args.map(formatValue).join(" ") + "\n"),
+    error: (...args: unknown[]) => write("stderr", args.map(formatValue).join(" ") + "\n"),
+  };
+
+  // stdin helpers: readline() returns one line at a time, like competitive judges
+  const readline = () => (lineIndex < lines.length ? lines[lineIndex++] : null);
+
+  let exitCode = 0;
+  try {
+    const run = new Function("console", "readline", "prompt", "input", source);
+    run(sandboxConsole, readline, readline, stdin);
+  } catch (error) {
+    exitCode = 1;
+    write("stderr", error instanceof Error ? `${error.name}: ${error.message}\n` : `${String(error)}\n`);
+  }
+
+  const result: WorkerResultMessage = { stdout, stderr, exitCode, outputTruncated };
+  ctx.postMessage(result);
+};
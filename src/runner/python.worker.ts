@@ -0,0 +1,108 @@
+/// <reference lib="webworker" />
+import type { WorkerRunMessage, WorkerResultMessage } from "./types";
+
+// Runs student Python through Pyodide. The interpreter is loaded once and
+// reused across runs; the parent recycles the worker after a timeout.
+const ctx = self as unknown as DedicatedWorkerGlobalScope;
+
+const PYODIDE_INDEX_URL =
+  import.meta.env.VITE_PYODIDE_INDEX_URL || "https://cdn.jsdelivr.net/pyodide/v0.26.4/full/";
+
+// Minimal surface of the Pyodide API used here
+interface PyodideInterface {
+  runPython: (code: string, options?: { globals?: unknown }) => unknown;
+  globals: { get: (name: string) => { (): unknown; destroy?: () => void } };
+  toPy: (value: unknown) => unknown;
+  setStdin: (options: { stdin: () => string | undefined }) => void;
+  setStdout: (options: { batched: (text: string) => void }) => void;
+  setStderr: (options: { batched: (text: string) => void }) => void;
+  _module: { HEAPU8: Uint8Array };
+}
+
+// What the interpreter reports for an uncaught Python exception
+interface PythonError extends Error {
+  type?: string;
+}
+
+let pyodidePromise: Promise<PyodideInterface> | null = null;
+
+const getPyodide = () => {
+  if (!pyodidePromise) {
+    pyodidePromise = import(/* @vite-ignore */ `${PYODIDE_INDEX_URL}pyodide.mjs`).then(
+      ({ loadPyodide }) => loadPyodide({ indexURL: PYODIDE_INDEX_URL }) as Promise<PyodideInterface>
+    );
+  }
+  return pyodidePromise;
+};
+
+// The traceback ends with "SystemExit" or "SystemExit: <arg>". Like CPython, no argument
+// exits with 0, an integer is the exit code, and anything else is printed and exits with 1.
+const parseSystemExit = (traceback: string): { code: number; message?: string } => {
+  const lastLine = traceback.trimEnd().split("\n").pop() ?? "";
+  const arg = lastLine.replace(/^SystemExit:?\s*/, "");
+  if (arg === "" || arg === "None") return { code: 0 };
+  if (/^-?\d+$/.test(arg)) return { code: Number(arg) };
+  return { code: 1, message: arg };
+};
+
+ctx.onmessage = async (event: MessageEvent<WorkerRunMessage>) => {
+  const { source, stdin, limits } = event.data;
+  const lines = stdin.split(/\r?\n/);
+  let lineIndex = 0;
+  let stdout = "";
+  let stderr = "";
+  let outputTruncated = false;
+
+  const write = (stream: "stdout" | "stderr", text: string) => {
+    const current = stream === "stdout" ? stdout : stderr;
+    if (current.length + text.length > limits.maxOutputBytes) {
+      outputTruncated = true;
+      text = text.slice(0, Math.max(0, limits.maxOutputBytes - current.length));
+    }
+    if (stream === "stdout") stdout += text;
+    else stderr += text;
+  };
+
+  let exitCode = 0;
+  let memoryExceeded = false;
+
+  try {
+    const pyodide = await getPyodide();
+    pyodide.setStdin({ stdin: () => (lineIndex < lines.length ? lines[lineIndex++] : undefined) });
+    pyodide.setStdout({ batched: (text) => write("stdout", text + "\n") });
+    pyodide.setStderr({ batched: (text) => write("stderr", text + "\n") });
+
+    // Each run gets a fresh globals dict so state never leaks between test cases
+    const globals = pyodide.runPython("dict()");
+    try {
+      pyodide.runPython(source, { globals });
+    } finally {
+      (globals as { destroy?: () => void }).destroy?.();
+    }
+  } catch (error) {
+    if ((error as PythonError).type === "SystemExit") {
+      // sys.exit() ends the program normally, as it would under CPython
+      const exit = parseSystemExit((error as PythonError).message);
+      exitCode = exit.code;
+      if (exit.message) write("stderr", exit.message + "\n");
+    } else {
+      exitCode = 1;
+      const message = error instanceof Error ? error.message : String(error);
+      if (/MemoryError/.test(message)) memoryExceeded = true;
+      write("stderr", message.endsWith("\n") ? message : message + "\n");
+    }
+  }
+
+  // WASM memory only grows, so a heap above the limit means the run used too much
+  try {
+    const pyodide = await getPyodide();
+    if (pyodide._module.HEAPU8.byteLength > limits.memoryLimitMb * 1024 * 1024) {
+      memoryExceeded = true;
+    }
+  } catch {
+    // Interpreter failed to load; the error is already in stderr
+  }
+
+  const result: WorkerResultMessage = { stdout, stderr, exitCode, memoryExceeded, outputTruncated };
+  ctx.postMessage(result);
+};
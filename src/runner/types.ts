@@ -0,0 +1,71 @@
+/**
+ * Runner type definitions
+ *
+ * Shared types for the code execution subsystem used by coding questions.
+ */
+
+export type RunnerLanguage = "javascript" | "python" | "java" | "cpp" | "c";
+
+export interface ExecutionLimits {
+  // Wall-clock budget for a single run, used as the CPU-time limit
+  timeLimitMs: number;
+  memoryLimitMb: number;
+  // stdout/stderr are truncated beyond this size
+  maxOutputBytes: number;
+}
+
+export interface ExecutionRequest {
+  language: RunnerLanguage;
+  source: string;
+  stdin: string;
+  limits: ExecutionLimits;
+}
+
+export interface ExecutionResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  memoryExceeded: boolean;
+  outputTruncated: boolean;
+  durationMs: number;
+}
+
+export interface CodeTestCase {
+  input: string;
+  expectedOutput: string;
+  description?: string;
+}
+
+export type TestCaseStatus =
+  | "passed"
+  | "failed"
+  | "runtime_error"
+  | "time_limit_exceeded"
+  | "memory_limit_exceeded";
+
+export interface TestCaseResult {
+  status: TestCaseStatus;
+  passed: boolean;
+  input: string;
+  expected: string;
+  actual: string;
+  stderr: string;
+  durationMs: number;
+  description?: string;
+}
+
+// Messages exchanged with the in-browser runner workers
+export interface WorkerRunMessage {
+  source: string;
+  stdin: string;
+  limits: ExecutionLimits;
+}
+
+export interface WorkerResultMessage {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  memoryExceeded?: boolean;
+  outputTruncated: boolean;
+}
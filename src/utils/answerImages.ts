@@ -0,0 +1,116 @@
+// Image answers: compressed on the student's device and stored per session in Supabase Storage
+
+import { supabase } from "@/integrations/supabase/client";
+
+export const ANSWER_IMAGE_BUCKET = "answer-images";
+
+// Handwriting stays legible at this size; phone photos shrink to a few hundred KB
+const MAX_IMAGE_DIMENSION = 1600;
+const IMAGE_QUALITY = 0.8;
+// Same as the bucket's file_size_limit
+export const MAX_ANSWER_IMAGE_BYTES = 2 * 1024 * 1024;
+const SIGNED_URL_SECONDS = 600;
+
+/**
+ * Downscales a photo and re-encodes it as JPEG
+ * @returns The original file if it can't be decoded or is already smaller
+ */
+export const compressImage = async (file: File): Promise<Blob> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch (error) {
+    console.error("Image could not be decoded for compression:", error);
+    return file;
+  }
+
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    bitmap.close();
+    return file;
+  }
+  // JPEG has no transparency; keep transparent PNG areas white rather than black
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", IMAGE_QUALITY));
+  return blob && blob.size < file.size ? blob : file;
+};
+
+/**
+ * Uploads an image answer into the session's folder. Uses XMLHttpRequest
+ * because the storage client doesn't report upload progress.
+ * @param onProgress Fraction uploaded, from 0 to 1
+ * @returns Object path to store in answers.student_answer
+ */
+export const uploadAnswerImage = async (
+  sessionId: string,
+  questionId: string,
+  image: Blob,
+  onProgress?: (fraction: number) => void
+): Promise<string> => {
+  if (image.size > MAX_ANSWER_IMAGE_BYTES) {
+    throw new Error("This image is too large even after compression. Please use a smaller photo.");
+  }
+
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) throw new Error("You are signed out. Please sign in again to upload your answer.");
+
+  const extension = image.type === "image/png" ? "png" : "jpg";
+  const path = `${sessionId}/${questionId}/${Date.now()}.${extension}`;
+  const url = `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/${ANSWER_IMAGE_BUCKET}/${path}`;
+
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", url);
+    xhr.setRequestHeader("Authorization", `Bearer ${token}`);
+    xhr.setRequestHeader("apikey", import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY);
+    xhr.setRequestHeader("Content-Type", image.type || "image/jpeg");
+    xhr.setRequestHeader("x-upsert", "false");
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress?.(1);
+        resolve();
+      } else {
+        reject(new Error(`Upload failed (${xhr.status}): ${xhr.responseText}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error("Upload failed. Please check your connection and try again."));
+    xhr.send(image);
+  });
+
+  return path;
+};
+
+// Answers to image questions hold an object path inside the session's folder
+export const isAnswerImagePath = (answer: string | null | undefined, sessionId: string) =>
+  !!answer && answer.startsWith(`${sessionId}/`);
+
+/**
+ * Removes an image the student replaced or cleared, while their session is still open
+ */
+export const deleteAnswerImage = async (path: string) => {
+  const { error } = await supabase.storage.from(ANSWER_IMAGE_BUCKET).remove([path]);
+  if (error) throw error;
+};
+
+/**
+ * Short-lived link for the student's preview and for faculty grading
+ */
+export const getAnswerImageUrl = async (path: string) => {
+  const { data, error } = await supabase.storage.from(ANSWER_IMAGE_BUCKET).createSignedUrl(path, SIGNED_URL_SECONDS);
+  if (error) throw error;
+  return data.signedUrl;
+};
@@ -0,0 +1,125 @@
+// Answers waiting to reach the server, journaled in IndexedDB so they survive a reload or a crash
+
+const DB_NAME = "pariksha";
+const DB_VERSION = 1;
+const STORE = "answer_outbox";
+
+export interface OutboxEntry {
+  // One entry per question: a newer answer replaces the one still waiting
+  key: string;
+  sessionId: string;
+  questionId: string;
+  // null clears an answer the student removed
+  answer: string | null;
+  // Idempotency key for the write; the server ignores revisions older than the one it has
+  revision: number;
+  queuedAt: string;
+  // The server refused this write for good; kept so the answer isn't lost, but not retried
+  rejected?: boolean;
+}
+
+const entryKey = (sessionId: string, questionId: string) => `${sessionId}:${questionId}`;
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore(STORE, { keyPath: "key" });
+      store.createIndex("sessionId", "sessionId");
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+    req.onblocked = () => reject(new Error("Answer outbox is open in an older tab"));
+  });
+
+/**
+ * Per-question queue of answer writes. Falls back to memory when IndexedDB
+ * is unavailable (some private browsing modes), which still covers network
+ * drops but not reloads.
+ */
+export class AnswerOutbox {
+  private db: Promise<IDBDatabase | null> | null = null;
+  private memory = new Map<string, OutboxEntry>();
+  private lastRevision = 0;
+
+  async put(sessionId: string, questionId: string, answer: string | null): Promise<OutboxEntry> {
+    // Date-based so revisions keep increasing across reloads of the page
+    this.lastRevision = Math.max(Date.now(), this.lastRevision + 1);
+    const entry: OutboxEntry = {
+      key: entryKey(sessionId, questionId),
+      sessionId,
+      questionId,
+      answer,
+      revision: this.lastRevision,
+      queuedAt: new Date().toISOString(),
+    };
+
+    const db = await this.getDatabase();
+    if (db) {
+      await request(db.transaction(STORE, "readwrite").objectStore(STORE).put(entry));
+    } else {
+      this.memory.set(entry.key, entry);
+    }
+    return entry;
+  }
+
+  async pending(sessionId: string): Promise<OutboxEntry[]> {
+    const db = await this.getDatabase();
+    const entries = db
+      ? await request<OutboxEntry[]>(db.transaction(STORE).objectStore(STORE).index("sessionId").getAll(sessionId))
+      : [...this.memory.values()].filter((entry) => entry.sessionId === sessionId);
+    return entries.sort((a, b) => a.revision - b.revision);
+  }
+
+  /**
+   * Drops a delivered entry, unless a newer answer to the same question was queued meanwhile
+   */
+  async remove(entry: OutboxEntry): Promise<void> {
+    const db = await this.getDatabase();
+    if (!db) {
+      if (this.memory.get(entry.key)?.revision === entry.revision) this.memory.delete(entry.key);
+      return;
+    }
+
+    const store = db.transaction(STORE, "readwrite").objectStore(STORE);
+    const current = await request<OutboxEntry | undefined>(store.get(entry.key));
+    if (current?.revision === entry.revision) {
+      await request(store.delete(entry.key));
+    }
+  }
+
+  /**
+   * Keeps a write the server refused, unless a newer answer to the same question was queued meanwhile
+   */
+  async markRejected(entry: OutboxEntry): Promise<void> {
+    const db = await this.getDatabase();
+    if (!db) {
+      if (this.memory.get(entry.key)?.revision === entry.revision) {
+        this.memory.set(entry.key, { ...entry, rejected: true });
+      }
+      return;
+    }
+
+    const store = db.transaction(STORE, "readwrite").objectStore(STORE);
+    const current = await request<OutboxEntry | undefined>(store.get(entry.key));
+    if (current?.revision === entry.revision) {
+      await request(store.put({ ...current, rejected: true }));
+    }
+  }
+
+  private getDatabase() {
+    this.db ??= (typeof indexedDB === "undefined" ? Promise.resolve(null) : openDatabase()).catch((error) => {
+      console.error("IndexedDB unavailable, keeping unsent answers in memory:", error);
+      return null;
+    });
+    return this.db;
+  }
+}
+
+export const answerOutbox = new AnswerOutbox();
@@ -1,9 +1,13 @@
 
+import { checkDisplays, isScreenShareLive, requestScreenShare } from '@/proctoring';
+
 // Utility to help manage background applications during test
 export class BackgroundAppController {
   private static instance: BackgroundAppController;
   private mediaDevices: MediaDeviceInfo[] = [];
   private activeStreams: MediaStream[] = [];
+  private microphoneStream: MediaStream | null = null;
+  private screenStream: MediaStream | null = null;
 
   private constructor() {}
 
@@ -54,6 +58,7 @@ export class BackgroundAppController {
         const audioStream = await navigator.mediaDevices.getUserMedia({ audio: true });
         permissions.microphone = true;
         this.activeStreams.push(audioStream);
+        this.microphoneStream = audioStream;
       } catch (error) {
         permissions.warnings.push('Microphone access may be required');
       }
@@ -83,13 +88,16 @@ export class BackgroundAppController {
     }
   }
 
-  // Attempt to detect and warn about background applications
-  async detectBackgroundActivity(): Promise<{
+  // Attempt to detect and warn about background applications.
+  // With checkDisplays, a second monitor is reported too; this may prompt for window-management permission.
+  async detectBackgroundActivity({ checkDisplays: shouldCheckDisplays = false } = {}): Promise<{
     suspiciousActivity: boolean;
+    extendedDisplay: boolean;
     warnings: string[];
   }> {
     const result = {
       suspiciousActivity: false,
+      extendedDisplay: false,
       warnings: [] as string[]
     };
 
@@ -108,15 +116,13 @@ export class BackgroundAppController {
         result.warnings.push(`Multiple audio inputs detected (${audioInputs.length}). Please close any audio recording software.`);
       }
 
-      // Check for screen sharing (if supported)
-      if (navigator.mediaDevices.getDisplayMedia) {
-        try {
-          // This will show a permission dialog, but we immediately stop it
-          const displayStream = await navigator.mediaDevices.getDisplayMedia({ video: true });
-          displayStream.getTracks().forEach(track => track.stop());
-          result.warnings.push('Screen sharing capability detected. Please ensure no screen sharing apps are running.');
-        } catch (error) {
-          // User denied or no screen sharing - this is actually good
+      // Extended desktops let notes sit on a screen the webcam can't see
+      if (shouldCheckDisplays) {
+        const displays = await checkDisplays(true);
+        if (displays.extended) {
+          result.suspiciousActivity = true;
+          result.extendedDisplay = true;
+          result.warnings.push(`${displays.count ? `${displays.count} displays` : 'More than one display'} detected. Please disconnect extra monitors before starting.`);
         }
       }
 
@@ -134,12 +140,46 @@ export class BackgroundAppController {
     return result;
   }
 
+  // Microphone stream granted during the system check, reused by audio proctoring
+  async getMicrophoneStream(): Promise<MediaStream> {
+    const isLive = this.microphoneStream?.getAudioTracks().some(track => track.readyState === 'live');
+    if (!isLive) {
+      this.microphoneStream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      this.activeStreams.push(this.microphoneStream);
+    }
+    return this.microphoneStream;
+  }
+
+  // Entire-screen share for tests that require it, kept for the whole session.
+  // Opens the browser's share dialog, so call it from a click handler.
+  async requestScreenShare(): Promise<MediaStream> {
+    if (!isScreenShareLive(this.screenStream)) {
+      this.screenStream = await requestScreenShare();
+      this.activeStreams.push(this.screenStream);
+    }
+    return this.screenStream;
+  }
+
+  // Screen share started earlier, or null if there is none or it has ended
+  getScreenShareStream(): MediaStream | null {
+    return isScreenShareLive(this.screenStream) ? this.screenStream : null;
+  }
+
+  // Ends the screen share once the test no longer needs it
+  stopScreenShare() {
+    this.screenStream?.getTracks().forEach(track => track.stop());
+    this.activeStreams = this.activeStreams.filter(stream => stream !== this.screenStream);
+    this.screenStream = null;
+  }
+
   // Cleanup function to stop all streams
   cleanup() {
     this.activeStreams.forEach(stream => {
       stream.getTracks().forEach(track => track.stop());
     });
     this.activeStreams = [];
+    this.microphoneStream = null;
+    this.screenStream = null;
   }
 
   // Get system information for monitoring
@@ -193,37 +233,11 @@ export class BackgroundAppController {
         await document.documentElement.requestFullscreen();
       }
 
-      // Hide cursor after period of inactivity (optional)
-      document.body.style.cursor = 'none';
-      
-      // Prevent context menu
-      document.addEventListener('contextmenu', (e) => e.preventDefault());
-      
-      // Prevent certain keyboard shortcuts
-      document.addEventListener('keydown', (e) => {
-        // Prevent Alt+Tab, Ctrl+Alt+Del, Windows key, etc.
-        if (
-          (e.altKey && e.code === 'Tab') ||
-          (e.ctrlKey && e.altKey && e.code === 'Delete') ||
-          e.code === 'MetaLeft' ||
-          e.code === 'MetaRight' ||
-          (e.ctrlKey && e.shiftKey && e.code === 'KeyI') || // Dev tools
-          e.code === 'F12' // Dev tools
-        ) {
-          e.preventDefault();
-          return false;
-        }
-      });
-
+      // The cursor, shortcuts, the context menu and the clipboard are locked down by TakeTest for the session
     } catch (error) {
       console.error('Error minimizing distractions:', error);
     }
   }
-
-  // Show cursor again
-  showCursor() {
-    document.body.style.cursor = 'auto';
-  }
 }
 
 export const backgroundAppController = BackgroundAppController.getInstance();
@@ -0,0 +1,50 @@
+// Shared question bank: classification vocabulary and writes from the test editor
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Question } from "@/context/TestContext";
+import { mapQuestionToBank, type BankQuestionMeta } from "@/utils/questionMapping";
+
+export const DIFFICULTY_LEVELS = [
+  { value: "easy", label: "Easy" },
+  { value: "medium", label: "Medium" },
+  { value: "hard", label: "Hard" },
+];
+
+// Revised Bloom's taxonomy, lowest to highest order
+export const BLOOM_LEVELS = [
+  { value: "remember", label: "Remember" },
+  { value: "understand", label: "Understand" },
+  { value: "apply", label: "Apply" },
+  { value: "analyze", label: "Analyze" },
+  { value: "evaluate", label: "Evaluate" },
+  { value: "create", label: "Create" },
+];
+
+export const labelFor = (levels: { value: string; label: string }[], value: string | null | undefined) =>
+  levels.find((level) => level.value === value)?.label ?? value ?? "";
+
+/**
+ * Splits comma separated tags, lower-cased and without duplicates
+ */
+export const parseTags = (input: string) =>
+  Array.from(new Set(input.split(",").map((tag) => tag.trim().toLowerCase()).filter(Boolean)));
+
+/**
+ * Adds a question to the bank
+ * @param ownerId Profile id of the faculty member adding it
+ * @returns The new bank entry's id
+ */
+export const saveToQuestionBank = async (
+  question: Omit<Question, "id">,
+  ownerId: string,
+  meta: BankQuestionMeta
+): Promise<string> => {
+  const { data, error } = await supabase
+    .from("bank_questions")
+    .insert(mapQuestionToBank(question, ownerId, meta))
+    .select("id")
+    .single();
+
+  if (error) throw error;
+  return data.id;
+};
@@ -0,0 +1,42 @@
+// Diagrams attached to questions, stored in the uploading faculty member's folder
+
+import { supabase } from "@/integrations/supabase/client";
+import { compressImage } from "@/utils/answerImages";
+
+export const QUESTION_IMAGE_BUCKET = "question-images";
+
+// Same as the bucket's file_size_limit
+const MAX_QUESTION_IMAGE_BYTES = 2 * 1024 * 1024;
+// Students get a fresh link each time they open the question
+const SIGNED_URL_SECONDS = 120;
+
+/**
+ * Compresses and uploads a question image before the test is saved
+ * @param ownerId Profile id of the faculty member, which names the folder
+ * @returns Object path to store in questions.question_image_url
+ */
+export const uploadQuestionImage = async (ownerId: string, file: File): Promise<string> => {
+  const image = await compressImage(file);
+  if (image.size > MAX_QUESTION_IMAGE_BYTES) {
+    throw new Error("This image is too large even after compression. Please use a smaller file.");
+  }
+
+  const extension = image.type === "image/png" ? "png" : "jpg";
+  const path = `${ownerId}/${crypto.randomUUID()}.${extension}`;
+  const { error } = await supabase.storage
+    .from(QUESTION_IMAGE_BUCKET)
+    .upload(path, image, { contentType: image.type || "image/jpeg", upsert: false });
+
+  if (error) throw error;
+  return path;
+};
+
+/**
+ * Short-lived link to a question image. Students can only sign one while
+ * their session for the question's test is open.
+ */
+export const getQuestionImageUrl = async (path: string) => {
+  const { data, error } = await supabase.storage.from(QUESTION_IMAGE_BUCKET).createSignedUrl(path, SIGNED_URL_SECONDS);
+  if (error) throw error;
+  return data.signedUrl;
+};
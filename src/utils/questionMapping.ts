@@ -0,0 +1,162 @@
+import type { Database, Json } from "@/integrations/supabase/types";
+import type { Question } from "@/context/TestContext";
+
+type DbQuestionType = Database["public"]["Enums"]["question_type"];
+type DbQuestionRow = Database["public"]["Tables"]["questions"]["Row"];
+type DbQuestionInsert = Database["public"]["Tables"]["questions"]["Insert"];
+type DbBankQuestionRow = Database["public"]["Tables"]["bank_questions"]["Row"];
+type DbBankQuestionInsert = Database["public"]["Tables"]["bank_questions"]["Insert"];
+// Columns the student_questions view leaves out: the answer key, hidden test cases and bank link
+type StudentHiddenColumn = "correct_answer" | "expected_output" | "test_cases" | "bank_question_id" | "bank_linked";
+// Student reads come from the student_questions view, which has only the sample test cases
+type DbQuestionSource = Omit<DbQuestionRow, StudentHiddenColumn> &
+  Partial<Pick<DbQuestionRow, StudentHiddenColumn>> & { sample_test_cases?: Json | null };
+// Columns shared by test questions and question bank entries
+type DbQuestionContent = Pick<
+  DbBankQuestionRow,
+  | "question_text"
+  | "question_type"
+  | "options"
+  | "correct_answer"
+  | "marks"
+  | "answer_hint"
+  | "image_prompt"
+  | "question_image_url"
+  | "coding_language"
+  | "starter_code"
+  | "expected_output"
+  | "test_cases"
+>;
+
+export type BankQuestionRow = DbBankQuestionRow;
+// Classification stored alongside a question in the bank
+export type BankQuestionMeta = Pick<DbBankQuestionInsert, "subject" | "topic" | "difficulty" | "bloom_level" | "tags">;
+
+// Map database question type to UI type
+export const mapDbTypeToUiType = (dbType: string): Question["type"] => {
+  const typeMap: Record<string, Question["type"]> = {
+    "mcq": "mcq",
+    "truefalse": "truefalse",
+    "short": "short",
+    "descriptive": "long",
+    "essay": "essay",
+    "image": "image",
+    "coding": "coding"
+  };
+  return typeMap[dbType] || "mcq";
+};
+
+// Map UI type to database type
+export const mapUiTypeToDbType = (uiType: string): DbQuestionType => {
+  if (uiType === "mcq") return "mcq";
+  if (uiType === "truefalse") return "truefalse";
+  if (uiType === "short") return "short";
+  if (uiType === "essay") return "essay";
+  if (uiType === "long" || uiType === "descriptive") return "descriptive";
+  if (uiType === "image") return "image";
+  if (uiType === "coding") return "coding";
+  return "mcq";
+};
+
+const parseTestCases = (value: Json | null): Question["testCases"] => {
+  if (!Array.isArray(value)) return undefined;
+  return value
+    .filter((testCase): testCase is { [key: string]: Json } => !!testCase && typeof testCase === "object" && !Array.isArray(testCase))
+    .map((testCase) => ({
+      input: String(testCase.input ?? ""),
+      expectedOutput: String(testCase.expectedOutput ?? ""),
+      description: testCase.description ? String(testCase.description) : undefined,
+      sample: testCase.sample === true || undefined,
+    }));
+};
+
+/**
+ * Converts a questions row into the UI question shape
+ * @param row Row from the questions table or the student_questions view
+ * @returns Question with its per-type metadata
+ */
+export const mapQuestionFromDb = (row: DbQuestionSource): Question => {
+  const type = mapDbTypeToUiType(row.question_type);
+  return {
+    id: row.id,
+    type,
+    text: row.question_text,
+    options: Array.isArray(row.options) ? row.options.map(String) : [],
+    correctAnswer: type === "truefalse" && row.correct_answer != null
+      ? row.correct_answer === "true"
+      : row.correct_answer ?? undefined,
+    marks: row.marks,
+    answerHint: row.answer_hint ?? undefined,
+    imagePrompt: row.image_prompt ?? undefined,
+    imagePath: row.question_image_url ?? undefined,
+    codingLanguage: row.coding_language ?? undefined,
+    starterCode: row.starter_code ?? undefined,
+    expectedOutput: row.expected_output ?? undefined,
+    testCases: parseTestCases(row.test_cases ?? row.sample_test_cases ?? null),
+    bankQuestionId: row.bank_question_id ?? undefined,
+    bankLinked: row.bank_linked ?? undefined,
+  };
+};
+
+/**
+ * Converts a question bank entry into an unsaved test question
+ * @param row Row from the bank_questions table
+ * @param linked Keep following edits to the bank entry rather than taking a copy
+ * @returns Question as edited in CreateTest, without an id
+ */
+export const mapBankQuestionToQuestion = (row: DbBankQuestionRow, linked: boolean): Omit<Question, "id"> => {
+  const { id, ...question } = mapQuestionFromDb({
+    ...row,
+    test_id: "",
+    order_number: 0,
+    bank_question_id: row.id,
+    bank_linked: linked,
+  });
+  return question;
+};
+
+// Content columns written for both questions and bank_questions
+const mapQuestionContentToDb = (question: Omit<Question, "id">): DbQuestionContent => ({
+  question_text: question.text,
+  question_type: mapUiTypeToDbType(question.type),
+  options: question.options?.length ? question.options : null,
+  correct_answer: typeof question.correctAnswer === "boolean"
+    ? String(question.correctAnswer)
+    : (question.correctAnswer || null),
+  marks: question.marks,
+  answer_hint: question.answerHint || null,
+  image_prompt: question.imagePrompt || null,
+  question_image_url: question.imagePath || null,
+  coding_language: question.type === "coding" ? question.codingLanguage || "javascript" : null,
+  starter_code: question.type === "coding" ? question.starterCode || null : null,
+  expected_output: question.type === "coding" ? question.expectedOutput || null : null,
+  test_cases: question.type === "coding" && question.testCases?.length ? question.testCases : null,
+});
+
+/**
+ * Converts a UI question into a questions row ready for insert
+ * @param question Question as edited in CreateTest
+ * @param testId Database id of the owning test
+ * @param orderNumber 1-based position within the test
+ * @returns Insert payload for the questions table
+ */
+export const mapQuestionToDb = (question: Question, testId: string, orderNumber: number): DbQuestionInsert => ({
+  ...mapQuestionContentToDb(question),
+  test_id: testId,
+  order_number: orderNumber,
+  bank_question_id: question.bankQuestionId || null,
+  bank_linked: !!question.bankQuestionId && !!question.bankLinked,
+});
+
+/**
+ * Converts a UI question into a question bank entry ready for insert
+ * @param question Question as edited in CreateTest
+ * @param ownerId Profile id of the faculty member adding it
+ * @param meta Subject, topic, difficulty, Bloom level and tags
+ * @returns Insert payload for the bank_questions table
+ */
+export const mapQuestionToBank = (question: Omit<Question, "id">, ownerId: string, meta: BankQuestionMeta): DbBankQuestionInsert => ({
+  ...mapQuestionContentToDb(question),
+  ...meta,
+  created_by: ownerId,
+});
@@ -0,0 +1,51 @@
+// Availability window helpers shared by the student dashboard, TakeTest and session start
+
+export type TestWindowStatus = "upcoming" | "live" | "closed";
+
+interface TestWindow {
+  startTime?: Date | string | null;
+  endTime?: Date | string | null;
+}
+
+const toTime = (value?: Date | string | null) => (value ? new Date(value).getTime() : null);
+
+/**
+ * Works out where a test's availability window stands
+ * @param testWindow Test start and end; a missing bound leaves that side open
+ * @param now Reference time in milliseconds
+ * @returns "upcoming" before start, "closed" after end, otherwise "live"
+ */
+export const getTestWindowStatus = (testWindow: TestWindow, now = Date.now()): TestWindowStatus => {
+  const start = toTime(testWindow.startTime);
+  const end = toTime(testWindow.endTime);
+  if (start !== null && now < start) return "upcoming";
+  if (end !== null && now >= end) return "closed";
+  return "live";
+};
+
+/**
+ * Seconds a student may spend on a test that starts now
+ * @param durationMinutes Test duration
+ * @param endTime Window end, which caps the remaining time
+ * @param now Reference time in milliseconds
+ * @returns Whole seconds left, never negative
+ */
+export const getCappedSeconds = (durationMinutes: number, endTime?: Date | string | null, now = Date.now()) => {
+  const durationSeconds = durationMinutes * 60;
+  const end = toTime(endTime);
+  if (end === null) return durationSeconds;
+  return Math.max(0, Math.min(durationSeconds, Math.floor((end - now) / 1000)));
+};
+
+// Countdown text such as "2d 4h", "3h 12m" or "04:59"
+export const formatCountdown = (milliseconds: number) => {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
+};
@@ -0,0 +1,51 @@
+// Deletes webcam evidence past its test's retention period and unlinks it from
+// monitoring_logs. Meant to run on a daily schedule; storage policies already
+// hide expired evidence from faculty in the meantime.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const EVIDENCE_BUCKET = "proctoring-evidence";
+const BATCH_SIZE = 500;
+
+serve(async () => {
+  try {
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error("SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY is not configured");
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    let purged = 0;
+
+    while (true) {
+      const { data: expired, error } = await supabase.rpc("expired_evidence", { _limit: BATCH_SIZE });
+      if (error) throw error;
+      if (!expired || expired.length === 0) break;
+
+      const paths = expired.map((row: { evidence_path: string }) => row.evidence_path);
+      const { error: removeError } = await supabase.storage.from(EVIDENCE_BUCKET).remove(paths);
+      if (removeError) throw removeError;
+
+      const { error: updateError } = await supabase
+        .from("monitoring_logs")
+        .update({ evidence_path: null })
+        .in("id", expired.map((row: { log_id: string }) => row.log_id));
+      if (updateError) throw updateError;
+
+      purged += expired.length;
+      if (expired.length < BATCH_SIZE) break;
+    }
+
+    console.log(`Purged ${purged} expired evidence snapshots`);
+    return new Response(JSON.stringify({ purged }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error purging evidence:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+});
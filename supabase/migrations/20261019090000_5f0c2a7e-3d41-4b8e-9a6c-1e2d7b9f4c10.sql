@@ -0,0 +1,20 @@
+-- Give every UI question type its own database value so nothing collapses on save
+ALTER TYPE public.question_type ADD VALUE IF NOT EXISTS 'essay';
+ALTER TYPE public.question_type ADD VALUE IF NOT EXISTS 'coding';
+
+-- Per-question metadata used by the short, long, image and coding question editors
+ALTER TABLE public.questions
+  ADD COLUMN IF NOT EXISTS answer_hint text,
+  ADD COLUMN IF NOT EXISTS image_prompt text,
+  ADD COLUMN IF NOT EXISTS coding_language text,
+  ADD COLUMN IF NOT EXISTS starter_code text,
+  ADD COLUMN IF NOT EXISTS expected_output text,
+  ADD COLUMN IF NOT EXISTS test_cases jsonb;
+
+ALTER TABLE public.questions
+  ADD CONSTRAINT questions_coding_language_check
+  CHECK (coding_language IS NULL OR coding_language = ANY (ARRAY['javascript'::text, 'python'::text, 'java'::text, 'cpp'::text, 'c'::text]));
+
+ALTER TABLE public.questions
+  ADD CONSTRAINT questions_test_cases_is_array
+  CHECK (test_cases IS NULL OR jsonb_typeof(test_cases) = 'array');
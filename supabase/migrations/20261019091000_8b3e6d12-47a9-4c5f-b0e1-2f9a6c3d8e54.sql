@@ -0,0 +1,167 @@
+-- Automatic scoring: objective answers are graded on submit and every session is
+-- aggregated into test_results, which is recomputed whenever an answer is graded
+
+-- Answers are compared case-insensitively with whitespace collapsed
+CREATE OR REPLACE FUNCTION public.normalize_answer(_value text) RETURNS text
+    LANGUAGE sql IMMUTABLE
+    AS $$
+  SELECT lower(regexp_replace(btrim(coalesce(_value, '')), '\s+', ' ', 'g'))
+$$;
+
+-- Letter grade for a percentage; failing the test's passing marks is always F
+CREATE OR REPLACE FUNCTION public.grade_for_percentage(_percentage numeric, _is_passed boolean) RETURNS text
+    LANGUAGE sql IMMUTABLE
+    AS $$
+  SELECT CASE
+    WHEN NOT _is_passed THEN 'F'
+    WHEN _percentage >= 90 THEN 'A+'
+    WHEN _percentage >= 80 THEN 'A'
+    WHEN _percentage >= 70 THEN 'B'
+    WHEN _percentage >= 60 THEN 'C'
+    WHEN _percentage >= 50 THEN 'D'
+    ELSE 'E'
+  END
+$$;
+
+-- Upserts the test_results row for a session from the marks currently awarded
+CREATE OR REPLACE FUNCTION public.compute_test_result(_session_id uuid) RETURNS public.test_results
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  _session public.test_sessions;
+  _test public.tests;
+  _total integer;
+  _obtained integer;
+  _pending integer;
+  _percentage numeric(5,2);
+  _is_passed boolean;
+  _grader uuid;
+  _result public.test_results;
+BEGIN
+  SELECT * INTO _session FROM public.test_sessions WHERE id = _session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Test session % not found', _session_id;
+  END IF;
+
+  SELECT * INTO _test FROM public.tests WHERE id = _session.test_id;
+
+  SELECT coalesce(sum(marks), 0) INTO _total
+  FROM public.questions
+  WHERE test_id = _test.id;
+
+  SELECT coalesce(sum(a.marks_awarded), 0),
+         count(*) FILTER (WHERE a.marks_awarded IS NULL)
+  INTO _obtained, _pending
+  FROM public.answers a
+  JOIN public.questions q ON q.id = a.question_id
+  WHERE a.session_id = _session_id AND q.test_id = _test.id;
+
+  -- Most recent faculty grader, if any answer was graded by hand
+  SELECT graded_by INTO _grader
+  FROM public.answers
+  WHERE session_id = _session_id AND graded_by IS NOT NULL
+  ORDER BY graded_at DESC NULLS LAST
+  LIMIT 1;
+
+  _percentage := CASE WHEN _total > 0 THEN round(_obtained * 100.0 / _total, 2) ELSE 0 END;
+  _is_passed := _obtained >= _test.passing_marks;
+
+  INSERT INTO public.test_results (
+    session_id, test_id, student_id, total_marks, marks_obtained,
+    percentage, grade, is_passed, evaluated_by, evaluated_at
+  )
+  VALUES (
+    _session_id, _test.id, _session.student_id, _total, _obtained,
+    _percentage, public.grade_for_percentage(_percentage, _is_passed), _is_passed,
+    _grader, CASE WHEN _pending = 0 THEN now() END
+  )
+  ON CONFLICT (session_id) DO UPDATE SET
+    total_marks = EXCLUDED.total_marks,
+    marks_obtained = EXCLUDED.marks_obtained,
+    percentage = EXCLUDED.percentage,
+    grade = EXCLUDED.grade,
+    is_passed = EXCLUDED.is_passed,
+    evaluated_by = EXCLUDED.evaluated_by,
+    evaluated_at = EXCLUDED.evaluated_at
+  RETURNING * INTO _result;
+
+  RETURN _result;
+END;
+$$;
+
+-- Grades mcq, truefalse and exact-match short answers, then aggregates the session.
+-- Answers a faculty member has already graded by hand are left alone, and short
+-- answers that do not match are left ungraded for manual evaluation.
+CREATE OR REPLACE FUNCTION public.grade_session(_session_id uuid) RETURNS public.test_results
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  UPDATE public.answers a
+  SET is_correct = public.normalize_answer(a.student_answer) = public.normalize_answer(q.correct_answer),
+      marks_awarded = CASE
+        WHEN public.normalize_answer(a.student_answer) = public.normalize_answer(q.correct_answer) THEN q.marks
+        ELSE 0
+      END,
+      graded_at = now()
+  FROM public.questions q
+  WHERE a.session_id = _session_id
+    AND q.id = a.question_id
+    AND a.graded_by IS NULL
+    AND q.correct_answer IS NOT NULL
+    AND (
+      q.question_type IN ('mcq', 'truefalse')
+      OR (q.question_type = 'short'
+          AND public.normalize_answer(a.student_answer) = public.normalize_answer(q.correct_answer))
+    );
+
+  RETURN public.compute_test_result(_session_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_session_finished() RETURNS trigger
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  PERFORM public.grade_session(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_answer_graded() RETURNS trigger
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  -- Only finished sessions have a result to keep current
+  IF EXISTS (
+    SELECT 1 FROM public.test_sessions
+    WHERE id = NEW.session_id AND status IN ('completed', 'submitted', 'terminated')
+  ) THEN
+    PERFORM public.compute_test_result(NEW.session_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS grade_session_on_finish ON public.test_sessions;
+CREATE TRIGGER grade_session_on_finish
+  AFTER UPDATE OF status ON public.test_sessions
+  FOR EACH ROW
+  WHEN (NEW.status IN ('completed', 'submitted', 'terminated') AND OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.handle_session_finished();
+
+-- Nested updates from grade_session are skipped; it aggregates once at the end
+DROP TRIGGER IF EXISTS recompute_result_on_grade ON public.answers;
+CREATE TRIGGER recompute_result_on_grade
+  AFTER UPDATE OF marks_awarded ON public.answers
+  FOR EACH ROW
+  WHEN (OLD.marks_awarded IS DISTINCT FROM NEW.marks_awarded AND pg_trigger_depth() < 1)
+  EXECUTE FUNCTION public.handle_answer_graded();
+
+-- Grading runs only from the triggers above; the functions are SECURITY DEFINER, so
+-- callers must not reach them directly through the API
+REVOKE EXECUTE ON FUNCTION public.grade_session(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.compute_test_result(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,151 @@
+-- Keep the answer key away from students: questions are only readable by faculty
+-- and admins, and students read them through student_questions while their session is open
+
+ALTER TABLE public.questions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow public delete on questions" ON public.questions;
+DROP POLICY IF EXISTS "Allow public insert on questions" ON public.questions;
+DROP POLICY IF EXISTS "Allow public update on questions" ON public.questions;
+DROP POLICY IF EXISTS "Everyone can view questions" ON public.questions;
+
+-- Any faculty member may read questions so they can evaluate shared tests
+CREATE POLICY "Faculty and admins can view questions"
+ON public.questions
+FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'faculty'::app_role) OR has_role(auth.uid(), 'admin'::app_role));
+
+-- Student read path without correct_answer or the hidden coding test cases. The view
+-- runs with its owner's rights, so it bypasses the policies above and applies its own
+-- session check instead.
+CREATE OR REPLACE VIEW public.student_questions AS
+SELECT
+  q.id,
+  q.test_id,
+  q.question_text,
+  q.question_type,
+  q.options,
+  q.marks,
+  q.order_number,
+  q.question_image_url,
+  q.answer_hint,
+  q.image_prompt,
+  q.coding_language,
+  q.starter_code,
+  q.created_at
+FROM public.questions q
+WHERE EXISTS (
+  SELECT 1
+  FROM public.test_sessions s
+  WHERE s.test_id = q.test_id
+    AND s.student_id = auth.uid()
+    AND s.status = 'in_progress'
+);
+
+REVOKE ALL ON public.student_questions FROM anon;
+GRANT SELECT ON public.student_questions TO authenticated;
+
+-- Question counts for dashboards, which students can no longer derive from questions
+CREATE OR REPLACE VIEW public.test_question_counts AS
+SELECT test_id, count(*)::integer AS question_count
+FROM public.questions
+GROUP BY test_id;
+
+REVOKE ALL ON public.test_question_counts FROM anon;
+GRANT SELECT ON public.test_question_counts TO authenticated;
+
+-- Answers were readable and writable by anyone; enforce the existing policies
+ALTER TABLE public.answers ENABLE ROW LEVEL SECURITY;
+
+-- Students may only write their own answer text; grading columns are set by
+-- faculty or by the grading functions, which run as the table owner
+CREATE OR REPLACE FUNCTION public.protect_answer_grading() RETURNS trigger
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF current_user = 'authenticated'
+     AND NOT (has_role(auth.uid(), 'faculty'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.marks_awarded := NULL;
+      NEW.is_correct := NULL;
+      NEW.graded_by := NULL;
+      NEW.graded_at := NULL;
+    ELSE
+      NEW.marks_awarded := OLD.marks_awarded;
+      NEW.is_correct := OLD.is_correct;
+      NEW.graded_by := OLD.graded_by;
+      NEW.graded_at := OLD.graded_at;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_answer_grading ON public.answers;
+CREATE TRIGGER protect_answer_grading
+  BEFORE INSERT OR UPDATE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.protect_answer_grading();
+
+-- Grading only runs from the triggers; calling it mid-session would reveal is_correct
+REVOKE EXECUTE ON FUNCTION public.grade_session(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.compute_test_result(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Students could rewrite their own session, e.g. reopen it after seeing their grades.
+-- They may only finish a session that is in progress; every other change of status
+-- belongs to faculty or to functions running as the table owner.
+CREATE OR REPLACE FUNCTION public.protect_session_status() RETURNS trigger
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF current_user = 'authenticated'
+     AND NOT (has_role(auth.uid(), 'faculty'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    IF TG_OP = 'INSERT' THEN
+      IF NEW.status <> 'in_progress' THEN
+        RAISE EXCEPTION 'New sessions must start in progress'
+          USING ERRCODE = 'insufficient_privilege';
+      END IF;
+    ELSIF NEW.status IS DISTINCT FROM OLD.status
+          AND NOT (OLD.status = 'in_progress' AND NEW.status IN ('completed', 'terminated')) THEN
+      RAISE EXCEPTION 'Session status cannot change from % to %', OLD.status, NEW.status
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_session_status ON public.test_sessions;
+CREATE TRIGGER protect_session_status
+  BEFORE INSERT OR UPDATE ON public.test_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.protect_session_status();
+
+-- Answers are final once the session is submitted, so grades can't be used to fix them
+CREATE OR REPLACE FUNCTION public.enforce_answer_session_open() RETURNS trigger
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.student_answer IS NOT DISTINCT FROM OLD.student_answer THEN
+    RETURN NEW;
+  END IF;
+
+  IF current_user = 'authenticated'
+     AND NOT (has_role(auth.uid(), 'faculty'::app_role) OR has_role(auth.uid(), 'admin'::app_role))
+     AND NOT EXISTS (
+       SELECT 1 FROM public.test_sessions
+       WHERE id = NEW.session_id AND status = 'in_progress'
+     ) THEN
+    RAISE EXCEPTION 'This test has been submitted; answers can no longer be changed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_answer_session_open ON public.answers;
+CREATE TRIGGER enforce_answer_session_open
+  BEFORE INSERT OR UPDATE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_answer_session_open();
@@ -0,0 +1,66 @@
+-- Scheduled exam windows: sessions can only start between tests.start_time and
+-- tests.end_time, and answers stop being accepted once the window closes
+
+ALTER TABLE public.tests DROP CONSTRAINT IF EXISTS tests_window_check;
+ALTER TABLE public.tests ADD CONSTRAINT tests_window_check
+  CHECK (start_time IS NULL OR end_time IS NULL OR end_time > start_time);
+
+CREATE OR REPLACE FUNCTION public.enforce_session_window() RETURNS trigger
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  _test public.tests;
+BEGIN
+  SELECT * INTO _test FROM public.tests WHERE id = NEW.test_id;
+
+  IF _test.start_time IS NOT NULL AND now() < _test.start_time THEN
+    RAISE EXCEPTION 'Test % has not opened yet', _test.test_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _test.end_time IS NOT NULL AND now() >= _test.end_time THEN
+    RAISE EXCEPTION 'Test % has closed', _test.test_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_session_window ON public.test_sessions;
+CREATE TRIGGER enforce_session_window
+  BEFORE INSERT ON public.test_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_session_window();
+
+-- Student answer text cannot change after the window closes. A minute of grace
+-- covers the final submit that fires when the capped timer reaches zero.
+CREATE OR REPLACE FUNCTION public.enforce_answer_window() RETURNS trigger
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  _end_time timestamp with time zone;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.student_answer IS NOT DISTINCT FROM OLD.student_answer THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT t.end_time INTO _end_time
+  FROM public.test_sessions s
+  JOIN public.tests t ON t.id = s.test_id
+  WHERE s.id = NEW.session_id;
+
+  IF _end_time IS NOT NULL AND now() > _end_time + interval '1 minute' THEN
+    RAISE EXCEPTION 'The test window has closed; answers can no longer be changed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_answer_window ON public.answers;
+CREATE TRIGGER enforce_answer_window
+  BEFORE INSERT OR UPDATE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_answer_window();
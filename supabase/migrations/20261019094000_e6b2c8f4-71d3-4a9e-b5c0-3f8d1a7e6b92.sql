@@ -0,0 +1,172 @@
+-- Server-authoritative exam timer: the deadline is derived from started_at, the
+-- test duration, any per-student extension and the test's closing time
+
+ALTER TABLE public.test_sessions
+  ADD COLUMN IF NOT EXISTS extra_minutes integer NOT NULL DEFAULT 0;
+ALTER TABLE public.test_sessions DROP CONSTRAINT IF EXISTS test_sessions_extra_minutes_check;
+ALTER TABLE public.test_sessions ADD CONSTRAINT test_sessions_extra_minutes_check CHECK (extra_minutes >= 0);
+
+-- An extension also pushes the closing time back for that student. Only the session's
+-- student and faculty get an answer; for anyone else the session does not exist.
+CREATE OR REPLACE FUNCTION public.session_deadline(_session_id uuid) RETURNS timestamp with time zone
+    LANGUAGE sql STABLE SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+  SELECT least(
+    s.started_at + make_interval(mins => t.duration_minutes + s.extra_minutes),
+    t.end_time + make_interval(mins => s.extra_minutes)
+  )
+  FROM public.test_sessions s
+  JOIN public.tests t ON t.id = s.test_id
+  WHERE s.id = _session_id
+    AND (
+      s.student_id = auth.uid()
+      OR has_role(auth.uid(), 'faculty'::app_role)
+      OR has_role(auth.uid(), 'admin'::app_role)
+    )
+$$;
+
+-- Answers in flight when the clock hits zero still land within this grace period.
+-- Inherits the access check from session_deadline.
+CREATE OR REPLACE FUNCTION public.session_is_overdue(_session_id uuid) RETURNS boolean
+    LANGUAGE sql STABLE SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+  SELECT coalesce(now() > public.session_deadline(_session_id) + interval '1 minute', false)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.session_deadline(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.session_is_overdue(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.session_deadline(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.session_is_overdue(uuid) TO authenticated;
+
+-- Remaining time for a session. Calling it on a session left open past the grace
+-- period finalises it, which also triggers grading.
+CREATE OR REPLACE FUNCTION public.get_session_time(_session_id uuid)
+    RETURNS TABLE(deadline timestamp with time zone, server_now timestamp with time zone, remaining_seconds integer)
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  _session public.test_sessions;
+  _deadline timestamp with time zone;
+BEGIN
+  SELECT * INTO _session FROM public.test_sessions WHERE id = _session_id;
+  IF NOT FOUND OR NOT (
+    _session.student_id = auth.uid()
+    OR has_role(auth.uid(), 'faculty'::app_role)
+    OR has_role(auth.uid(), 'admin'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Test session % not found', _session_id;
+  END IF;
+
+  _deadline := public.session_deadline(_session_id);
+
+  IF _session.status = 'in_progress' AND public.session_is_overdue(_session_id) THEN
+    UPDATE public.test_sessions
+    SET status = 'completed', submitted_at = _deadline
+    WHERE id = _session_id;
+  END IF;
+
+  RETURN QUERY SELECT
+    _deadline,
+    now(),
+    greatest(0, floor(extract(epoch FROM _deadline - now())))::integer;
+END;
+$$;
+
+-- Closes every overdue session of a test; used by faculty dashboards
+CREATE OR REPLACE FUNCTION public.finalize_overdue_sessions(_test_id uuid) RETURNS integer
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  _count integer;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'faculty'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only faculty can finalise sessions';
+  END IF;
+
+  UPDATE public.test_sessions
+  SET status = 'completed', submitted_at = public.session_deadline(id)
+  WHERE test_id = _test_id
+    AND status = 'in_progress'
+    AND public.session_is_overdue(id);
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+-- The clock starts when the server creates the session, not when the client says
+CREATE OR REPLACE FUNCTION public.enforce_session_window() RETURNS trigger
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  _test public.tests;
+BEGIN
+  SELECT * INTO _test FROM public.tests WHERE id = NEW.test_id;
+
+  IF _test.start_time IS NOT NULL AND now() < _test.start_time THEN
+    RAISE EXCEPTION 'Test % has not opened yet', _test.test_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _test.end_time IS NOT NULL AND now() >= _test.end_time THEN
+    RAISE EXCEPTION 'Test % has closed', _test.test_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.started_at := now();
+  NEW.extra_minutes := 0;
+  RETURN NEW;
+END;
+$$;
+
+-- Students cannot move their own start time, grant themselves extra time or reopen
+-- a finished session. Finishing is the one change they make, stamped with server time.
+CREATE OR REPLACE FUNCTION public.protect_session_timing() RETURNS trigger
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF current_user = 'authenticated'
+     AND NOT (has_role(auth.uid(), 'faculty'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    NEW.started_at := OLD.started_at;
+    NEW.extra_minutes := OLD.extra_minutes;
+
+    IF OLD.status = 'in_progress' AND NEW.status IN ('completed', 'terminated') THEN
+      NEW.submitted_at := now();
+    ELSE
+      NEW.status := OLD.status;
+      NEW.submitted_at := OLD.submitted_at;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_session_timing ON public.test_sessions;
+CREATE TRIGGER protect_session_timing
+  BEFORE UPDATE ON public.test_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.protect_session_timing();
+
+-- Answer writes now follow the per-session deadline, which already includes the closing time
+CREATE OR REPLACE FUNCTION public.enforce_answer_window() RETURNS trigger
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.student_answer IS NOT DISTINCT FROM OLD.student_answer THEN
+    RETURN NEW;
+  END IF;
+
+  IF public.session_is_overdue(NEW.session_id) THEN
+    RAISE EXCEPTION 'Time is up for this test; answers can no longer be changed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,30 @@
+-- Per-test proctoring policy: violation weights, warning counts and actions.
+-- tests.warning_threshold stays in sync with the policy's score threshold.
+ALTER TABLE public.tests ADD COLUMN IF NOT EXISTS proctoring_policy jsonb;
+ALTER TABLE public.tests DROP CONSTRAINT IF EXISTS tests_proctoring_policy_is_object;
+ALTER TABLE public.tests ADD CONSTRAINT tests_proctoring_policy_is_object
+  CHECK (proctoring_policy IS NULL OR jsonb_typeof(proctoring_policy) = 'object');
+
+-- Set when a policy "flag" action fires so faculty can review the session afterwards
+ALTER TABLE public.test_sessions
+  ADD COLUMN IF NOT EXISTS flagged_for_review boolean NOT NULL DEFAULT false;
+
+-- Students can raise the flag on their own session but never clear it
+CREATE OR REPLACE FUNCTION public.protect_session_review_flag() RETURNS trigger
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF current_user = 'authenticated'
+     AND OLD.flagged_for_review
+     AND NOT (has_role(auth.uid(), 'faculty'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    NEW.flagged_for_review := true;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_session_review_flag ON public.test_sessions;
+CREATE TRIGGER protect_session_review_flag
+  BEFORE UPDATE ON public.test_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.protect_session_review_flag();
@@ -0,0 +1,63 @@
+-- Shared event vocabulary for monitoring_logs. Every detector publishes one of
+-- these types; the legacy phone/background-app types stay valid for old rows.
+ALTER TABLE public.monitoring_logs DROP CONSTRAINT IF EXISTS monitoring_logs_event_type_check;
+ALTER TABLE public.monitoring_logs ADD CONSTRAINT monitoring_logs_event_type_check
+  CHECK (event_type = ANY (ARRAY[
+    'tab_switch'::text,
+    'window_blur'::text,
+    'fullscreen_exit'::text,
+    'face_not_detected'::text,
+    'multiple_faces'::text,
+    'face_away'::text,
+    'phone_detected'::text,
+    'background_app_detected'::text,
+    'shortcut_blocked'::text,
+    'session_flagged'::text,
+    'session_paused'::text,
+    'test_started'::text,
+    'test_submitted'::text,
+    'test_terminated'::text
+  ]));
+
+CREATE INDEX IF NOT EXISTS idx_monitoring_logs_session_timestamp
+  ON public.monitoring_logs USING btree (session_id, "timestamp");
+
+-- The session counters are derived from the log so they can never drift from it
+CREATE OR REPLACE FUNCTION public.count_session_violation() RETURNS trigger
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF NEW.event_type = 'tab_switch' THEN
+    UPDATE test_sessions SET tab_switch_count = tab_switch_count + 1 WHERE id = NEW.session_id;
+  ELSIF NEW.event_type = 'fullscreen_exit' THEN
+    UPDATE test_sessions SET fullscreen_exit_count = fullscreen_exit_count + 1 WHERE id = NEW.session_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS count_session_violation ON public.monitoring_logs;
+CREATE TRIGGER count_session_violation
+  AFTER INSERT ON public.monitoring_logs
+  FOR EACH ROW EXECUTE FUNCTION public.count_session_violation();
+
+-- Students can no longer write the counters directly; faculty and the trigger above can
+CREATE OR REPLACE FUNCTION public.protect_session_counters() RETURNS trigger
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF current_user = 'authenticated'
+     AND NOT (has_role(auth.uid(), 'faculty'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    NEW.tab_switch_count := OLD.tab_switch_count;
+    NEW.fullscreen_exit_count := OLD.fullscreen_exit_count;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_session_counters ON public.test_sessions;
+CREATE TRIGGER protect_session_counters
+  BEFORE UPDATE ON public.test_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.protect_session_counters();
@@ -0,0 +1,21 @@
+-- Question navigation is logged alongside violations so reviewers can see
+-- which question a student was on when each event happened
+ALTER TABLE public.monitoring_logs DROP CONSTRAINT IF EXISTS monitoring_logs_event_type_check;
+ALTER TABLE public.monitoring_logs ADD CONSTRAINT monitoring_logs_event_type_check
+  CHECK (event_type = ANY (ARRAY[
+    'tab_switch'::text,
+    'window_blur'::text,
+    'fullscreen_exit'::text,
+    'face_not_detected'::text,
+    'multiple_faces'::text,
+    'face_away'::text,
+    'phone_detected'::text,
+    'background_app_detected'::text,
+    'shortcut_blocked'::text,
+    'session_flagged'::text,
+    'session_paused'::text,
+    'question_viewed'::text,
+    'test_started'::text,
+    'test_submitted'::text,
+    'test_terminated'::text
+  ]));
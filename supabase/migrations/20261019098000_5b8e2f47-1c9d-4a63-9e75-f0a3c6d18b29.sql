@@ -0,0 +1,78 @@
+-- Webcam evidence: a downscaled snapshot taken on each webcam violation, stored
+-- privately and linked from the monitoring_logs row that recorded it.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('proctoring-evidence', 'proctoring-evidence', false, 524288, ARRAY['image/jpeg', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Object path is "<session_id>/<file>", so the row can only point into its own session's folder
+ALTER TABLE public.monitoring_logs ADD COLUMN IF NOT EXISTS evidence_path text;
+ALTER TABLE public.monitoring_logs DROP CONSTRAINT IF EXISTS monitoring_logs_evidence_path_check;
+ALTER TABLE public.monitoring_logs ADD CONSTRAINT monitoring_logs_evidence_path_check
+  CHECK (evidence_path IS NULL OR evidence_path LIKE session_id::text || '/%');
+
+CREATE INDEX IF NOT EXISTS idx_monitoring_logs_evidence_path
+  ON public.monitoring_logs USING btree (evidence_path) WHERE evidence_path IS NOT NULL;
+
+-- How long evidence for a test is kept before it expires
+ALTER TABLE public.tests
+  ADD COLUMN IF NOT EXISTS evidence_retention_days integer NOT NULL DEFAULT 30;
+ALTER TABLE public.tests DROP CONSTRAINT IF EXISTS tests_evidence_retention_days_check;
+ALTER TABLE public.tests ADD CONSTRAINT tests_evidence_retention_days_check
+  CHECK (evidence_retention_days BETWEEN 1 AND 365);
+
+-- True while the log row referencing this object is inside its test's retention period
+CREATE OR REPLACE FUNCTION public.evidence_is_retained(_path text) RETURNS boolean
+    LANGUAGE sql STABLE SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM monitoring_logs l
+    JOIN test_sessions s ON s.id = l.session_id
+    JOIN tests t ON t.id = s.test_id
+    WHERE l.evidence_path = _path
+      AND l."timestamp" > now() - make_interval(days => t.evidence_retention_days)
+  );
+$$;
+
+-- Evidence past retention, for the purge-expired-evidence function to delete
+CREATE OR REPLACE FUNCTION public.expired_evidence(_limit integer DEFAULT 500)
+RETURNS TABLE(log_id uuid, evidence_path text)
+    LANGUAGE sql STABLE SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+  SELECT l.id, l.evidence_path
+  FROM monitoring_logs l
+  JOIN test_sessions s ON s.id = l.session_id
+  JOIN tests t ON t.id = s.test_id
+  WHERE l.evidence_path IS NOT NULL
+    AND l."timestamp" <= now() - make_interval(days => t.evidence_retention_days)
+  ORDER BY l."timestamp"
+  LIMIT _limit;
+$$;
+
+-- Only the service role runs the purge
+REVOKE EXECUTE ON FUNCTION public.expired_evidence(integer) FROM PUBLIC, anon, authenticated;
+
+DROP POLICY IF EXISTS "Students can upload evidence for their active session" ON storage.objects;
+CREATE POLICY "Students can upload evidence for their active session" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    bucket_id = 'proctoring-evidence'
+    AND EXISTS (
+      SELECT 1 FROM public.test_sessions s
+      WHERE s.id::text = (storage.foldername(name))[1]
+        AND s.student_id = auth.uid()
+        AND s.status = 'in_progress'
+    )
+  );
+
+-- Expired evidence stops being readable even before the purge removes it
+DROP POLICY IF EXISTS "Faculty can view retained evidence" ON storage.objects;
+CREATE POLICY "Faculty can view retained evidence" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'proctoring-evidence'
+    AND (public.has_role(auth.uid(), 'faculty'::public.app_role) OR public.has_role(auth.uid(), 'admin'::public.app_role))
+    AND public.evidence_is_retained(name)
+  );
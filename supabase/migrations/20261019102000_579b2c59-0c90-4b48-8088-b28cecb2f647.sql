@@ -0,0 +1,74 @@
+-- Face identity: one reference embedding per student, compared on the student's
+-- device at exam start and periodically during the session.
+CREATE TABLE IF NOT EXISTS public.face_enrollments (
+    profile_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+    embedding real[] NOT NULL CHECK (cardinality(embedding) > 0),
+    -- Embeddings from different models are not comparable
+    model text NOT NULL,
+    reference_path text,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT face_enrollments_reference_path_check
+      CHECK (reference_path IS NULL OR reference_path LIKE profile_id::text || '/%')
+);
+
+ALTER TABLE public.face_enrollments ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_face_enrollments_updated_at ON public.face_enrollments;
+CREATE TRIGGER update_face_enrollments_updated_at BEFORE UPDATE ON public.face_enrollments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP POLICY IF EXISTS "Students can manage own face enrollment" ON public.face_enrollments;
+CREATE POLICY "Students can manage own face enrollment" ON public.face_enrollments
+  TO authenticated
+  USING (profile_id = auth.uid())
+  WITH CHECK (profile_id = auth.uid());
+
+DROP POLICY IF EXISTS "Faculty can view face enrollments" ON public.face_enrollments;
+CREATE POLICY "Faculty can view face enrollments" ON public.face_enrollments
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'faculty'::public.app_role) OR public.has_role(auth.uid(), 'admin'::public.app_role));
+
+-- Reference photos, stored as "<profile_id>/reference.jpg"
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('identity-references', 'identity-references', false, 524288, ARRAY['image/jpeg'])
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Students can manage own reference photo" ON storage.objects;
+CREATE POLICY "Students can manage own reference photo" ON storage.objects
+  TO authenticated
+  USING (bucket_id = 'identity-references' AND (storage.foldername(name))[1] = auth.uid()::text)
+  WITH CHECK (bucket_id = 'identity-references' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Faculty can view reference photos" ON storage.objects;
+CREATE POLICY "Faculty can view reference photos" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'identity-references'
+    AND (public.has_role(auth.uid(), 'faculty'::public.app_role) OR public.has_role(auth.uid(), 'admin'::public.app_role))
+  );
+
+-- identity_verified records the check at exam start; identity_mismatch is the violation
+ALTER TABLE public.monitoring_logs DROP CONSTRAINT IF EXISTS monitoring_logs_event_type_check;
+ALTER TABLE public.monitoring_logs ADD CONSTRAINT monitoring_logs_event_type_check
+  CHECK (event_type = ANY (ARRAY[
+    'tab_switch'::text,
+    'window_blur'::text,
+    'fullscreen_exit'::text,
+    'face_not_detected'::text,
+    'multiple_faces'::text,
+    'face_away'::text,
+    'speech_detected'::text,
+    'prohibited_object'::text,
+    'identity_mismatch'::text,
+    'phone_detected'::text,
+    'background_app_detected'::text,
+    'shortcut_blocked'::text,
+    'session_flagged'::text,
+    'session_paused'::text,
+    'question_viewed'::text,
+    'identity_verified'::text,
+    'test_started'::text,
+    'test_submitted'::text,
+    'test_terminated'::text
+  ]));
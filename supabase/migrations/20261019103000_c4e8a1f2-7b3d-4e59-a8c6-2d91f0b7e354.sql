@@ -0,0 +1,28 @@
+-- Optional screen-share mode: screen_share_started when the student shares their
+-- monitor, screen_captured for each periodic screenshot, screen_share_stopped as the violation
+ALTER TABLE public.monitoring_logs DROP CONSTRAINT IF EXISTS monitoring_logs_event_type_check;
+ALTER TABLE public.monitoring_logs ADD CONSTRAINT monitoring_logs_event_type_check
+  CHECK (event_type = ANY (ARRAY[
+    'tab_switch'::text,
+    'window_blur'::text,
+    'fullscreen_exit'::text,
+    'face_not_detected'::text,
+    'multiple_faces'::text,
+    'face_away'::text,
+    'speech_detected'::text,
+    'prohibited_object'::text,
+    'identity_mismatch'::text,
+    'screen_share_stopped'::text,
+    'phone_detected'::text,
+    'background_app_detected'::text,
+    'shortcut_blocked'::text,
+    'session_flagged'::text,
+    'session_paused'::text,
+    'question_viewed'::text,
+    'identity_verified'::text,
+    'screen_share_started'::text,
+    'screen_captured'::text,
+    'test_started'::text,
+    'test_submitted'::text,
+    'test_terminated'::text
+  ]));
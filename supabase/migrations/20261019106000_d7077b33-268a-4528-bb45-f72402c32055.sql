@@ -0,0 +1,21 @@
+-- Answers are written from the student's outbox, which may retry a write or
+-- deliver it after a newer one; client_revision lets the database keep the newest
+ALTER TABLE public.answers ADD COLUMN IF NOT EXISTS client_revision bigint NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.skip_stale_answer() RETURNS trigger
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  -- Returning NULL skips the update, so a replayed or late write succeeds without changing anything
+  IF NEW.client_revision < OLD.client_revision THEN
+    RETURN NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS skip_stale_answer ON public.answers;
+CREATE TRIGGER skip_stale_answer
+  BEFORE UPDATE ON public.answers
+  FOR EACH ROW EXECUTE FUNCTION public.skip_stale_answer();
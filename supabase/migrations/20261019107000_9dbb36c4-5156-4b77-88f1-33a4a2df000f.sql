@@ -0,0 +1,48 @@
+-- Image answers, stored as "<session_id>/<question_id>/<file>"; answers.student_answer holds the path
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('answer-images', 'answer-images', false, 2097152, ARRAY['image/jpeg', 'image/png'])
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Students can upload answer images for their active session" ON storage.objects;
+CREATE POLICY "Students can upload answer images for their active session" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    bucket_id = 'answer-images'
+    AND EXISTS (
+      SELECT 1 FROM public.test_sessions s
+      WHERE s.id::text = (storage.foldername(name))[1]
+        AND s.student_id = auth.uid()
+        AND s.status = 'in_progress'
+    )
+  );
+
+-- Replacing or clearing an image answer removes the old upload
+DROP POLICY IF EXISTS "Students can delete answer images for their active session" ON storage.objects;
+CREATE POLICY "Students can delete answer images for their active session" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (
+    bucket_id = 'answer-images'
+    AND EXISTS (
+      SELECT 1 FROM public.test_sessions s
+      WHERE s.id::text = (storage.foldername(name))[1]
+        AND s.student_id = auth.uid()
+        AND s.status = 'in_progress'
+    )
+  );
+
+-- Students see their own uploads again after a reload; faculty see them when grading
+DROP POLICY IF EXISTS "Students and faculty can view answer images" ON storage.objects;
+CREATE POLICY "Students and faculty can view answer images" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'answer-images'
+    AND (
+      public.has_role(auth.uid(), 'faculty'::public.app_role)
+      OR public.has_role(auth.uid(), 'admin'::public.app_role)
+      OR EXISTS (
+        SELECT 1 FROM public.test_sessions s
+        WHERE s.id::text = (storage.foldername(name))[1]
+          AND s.student_id = auth.uid()
+      )
+    )
+  );
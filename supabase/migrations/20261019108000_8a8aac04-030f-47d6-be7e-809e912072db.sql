@@ -0,0 +1,54 @@
+-- Question images, stored as "<faculty profile_id>/<file>"; questions.question_image_url holds the path
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('question-images', 'question-images', false, 2097152, ARRAY['image/jpeg', 'image/png'])
+ON CONFLICT (id) DO NOTHING;
+
+-- New values must be paths into the bucket, not arbitrary URLs; existing rows are left unchecked
+ALTER TABLE public.questions DROP CONSTRAINT IF EXISTS questions_question_image_url_check;
+ALTER TABLE public.questions ADD CONSTRAINT questions_question_image_url_check
+  CHECK (question_image_url IS NULL OR question_image_url ~ '^[0-9a-f-]{36}/[^/]+$') NOT VALID;
+
+-- True while the current user has an open, unexpired session for a test that uses this image
+CREATE OR REPLACE FUNCTION public.question_image_is_visible(_path text) RETURNS boolean
+    LANGUAGE sql STABLE SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM questions q
+    JOIN test_sessions s ON s.test_id = q.test_id
+    WHERE q.question_image_url = _path
+      AND s.student_id = auth.uid()
+      AND s.status = 'in_progress'
+      AND NOT public.session_is_overdue(s.id)
+  );
+$$;
+
+DROP POLICY IF EXISTS "Faculty can manage own question images" ON storage.objects;
+CREATE POLICY "Faculty can manage own question images" ON storage.objects
+  TO authenticated
+  USING (
+    bucket_id = 'question-images'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+    AND (public.has_role(auth.uid(), 'faculty'::public.app_role) OR public.has_role(auth.uid(), 'admin'::public.app_role))
+  )
+  WITH CHECK (
+    bucket_id = 'question-images'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+    AND (public.has_role(auth.uid(), 'faculty'::public.app_role) OR public.has_role(auth.uid(), 'admin'::public.app_role))
+  );
+
+-- Any faculty member may evaluate a shared test, so all of them can see its images
+DROP POLICY IF EXISTS "Faculty can view question images" ON storage.objects;
+CREATE POLICY "Faculty can view question images" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'question-images'
+    AND (public.has_role(auth.uid(), 'faculty'::public.app_role) OR public.has_role(auth.uid(), 'admin'::public.app_role))
+  );
+
+-- Students only reach images through signed links created during their session
+DROP POLICY IF EXISTS "Students can view question images during their session" ON storage.objects;
+CREATE POLICY "Students can view question images during their session" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'question-images' AND public.question_image_is_visible(name));
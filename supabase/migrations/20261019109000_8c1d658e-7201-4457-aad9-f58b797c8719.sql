@@ -0,0 +1,181 @@
+-- Question bank: reusable questions tagged by subject, topic, difficulty and Bloom level.
+-- Tests pull them in either as a copy or as a linked row that follows later bank edits.
+CREATE TABLE IF NOT EXISTS public.bank_questions (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    created_by uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    subject text NOT NULL,
+    topic text,
+    difficulty text NOT NULL DEFAULT 'medium'
+      CHECK (difficulty = ANY (ARRAY['easy'::text, 'medium'::text, 'hard'::text])),
+    bloom_level text
+      CHECK (bloom_level IS NULL OR bloom_level = ANY (ARRAY['remember'::text, 'understand'::text, 'apply'::text, 'analyze'::text, 'evaluate'::text, 'create'::text])),
+    tags text[] NOT NULL DEFAULT '{}',
+    question_type public.question_type NOT NULL,
+    question_text text NOT NULL,
+    question_image_url text,
+    options jsonb,
+    correct_answer text,
+    marks integer DEFAULT 1 NOT NULL,
+    answer_hint text,
+    image_prompt text,
+    coding_language text
+      CHECK (coding_language IS NULL OR coding_language = ANY (ARRAY['javascript'::text, 'python'::text, 'java'::text, 'cpp'::text, 'c'::text])),
+    starter_code text,
+    expected_output text,
+    test_cases jsonb CHECK (test_cases IS NULL OR jsonb_typeof(test_cases) = 'array'),
+    search tsvector,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_questions_search ON public.bank_questions USING gin (search);
+CREATE INDEX IF NOT EXISTS idx_bank_questions_subject ON public.bank_questions (subject);
+
+ALTER TABLE public.bank_questions ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_bank_questions_updated_at ON public.bank_questions;
+CREATE TRIGGER update_bank_questions_updated_at BEFORE UPDATE ON public.bank_questions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Question text ranks above topic and tags, which rank above the subject
+CREATE OR REPLACE FUNCTION public.bank_question_search_vector() RETURNS trigger
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  NEW.search :=
+    setweight(to_tsvector('english', coalesce(NEW.question_text, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW.topic, '') || ' ' || array_to_string(NEW.tags, ' ')), 'B') ||
+    setweight(to_tsvector('english', coalesce(NEW.subject, '')), 'C');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bank_question_search_vector ON public.bank_questions;
+CREATE TRIGGER bank_question_search_vector BEFORE INSERT OR UPDATE ON public.bank_questions
+  FOR EACH ROW EXECUTE FUNCTION public.bank_question_search_vector();
+
+-- The bank is shared between all faculty; only the author or an admin may change an entry
+DROP POLICY IF EXISTS "Faculty can view the question bank" ON public.bank_questions;
+CREATE POLICY "Faculty can view the question bank" ON public.bank_questions
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'faculty'::public.app_role) OR public.has_role(auth.uid(), 'admin'::public.app_role));
+
+DROP POLICY IF EXISTS "Faculty can add to the question bank" ON public.bank_questions;
+CREATE POLICY "Faculty can add to the question bank" ON public.bank_questions
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND (public.has_role(auth.uid(), 'faculty'::public.app_role) OR public.has_role(auth.uid(), 'admin'::public.app_role))
+  );
+
+DROP POLICY IF EXISTS "Authors can update own bank questions" ON public.bank_questions;
+CREATE POLICY "Authors can update own bank questions" ON public.bank_questions
+  FOR UPDATE TO authenticated
+  USING (created_by = auth.uid() OR public.has_role(auth.uid(), 'admin'::public.app_role))
+  WITH CHECK (created_by = auth.uid() OR public.has_role(auth.uid(), 'admin'::public.app_role));
+
+DROP POLICY IF EXISTS "Authors can delete own bank questions" ON public.bank_questions;
+CREATE POLICY "Authors can delete own bank questions" ON public.bank_questions
+  FOR DELETE TO authenticated
+  USING (created_by = auth.uid() OR public.has_role(auth.uid(), 'admin'::public.app_role));
+
+-- Where a test question came from. Deleting a bank entry leaves its copies in place.
+ALTER TABLE public.questions
+  ADD COLUMN IF NOT EXISTS bank_question_id uuid REFERENCES public.bank_questions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS bank_linked boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_questions_bank_question_id ON public.questions (bank_question_id);
+
+-- A question takes the bank's content when it is linked. Later edits to the question,
+-- such as its marks, keep the content it was given; only propagation below refreshes it.
+CREATE OR REPLACE FUNCTION public.copy_linked_bank_question() RETURNS trigger
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  bank public.bank_questions%ROWTYPE;
+BEGIN
+  IF NEW.bank_question_id IS NULL THEN
+    NEW.bank_linked := false;
+    RETURN NEW;
+  END IF;
+  IF NOT NEW.bank_linked THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE'
+     AND NEW.bank_question_id IS NOT DISTINCT FROM OLD.bank_question_id
+     AND OLD.bank_linked THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO bank FROM public.bank_questions WHERE id = NEW.bank_question_id;
+  IF FOUND THEN
+    NEW.question_type := bank.question_type;
+    NEW.question_text := bank.question_text;
+    NEW.question_image_url := bank.question_image_url;
+    NEW.options := bank.options;
+    NEW.correct_answer := bank.correct_answer;
+    NEW.answer_hint := bank.answer_hint;
+    NEW.image_prompt := bank.image_prompt;
+    NEW.coding_language := bank.coding_language;
+    NEW.starter_code := bank.starter_code;
+    NEW.expected_output := bank.expected_output;
+    NEW.test_cases := bank.test_cases;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS copy_linked_bank_question ON public.questions;
+CREATE TRIGGER copy_linked_bank_question BEFORE INSERT OR UPDATE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.copy_linked_bank_question();
+
+-- Push bank edits into linked questions, except in tests that students have already
+-- started, whose answers were given against the old wording. Runs as the owner
+-- because the linked tests usually belong to other faculty.
+CREATE OR REPLACE FUNCTION public.propagate_bank_question() RETURNS trigger
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  UPDATE public.questions q
+  SET question_type = NEW.question_type,
+      question_text = NEW.question_text,
+      question_image_url = NEW.question_image_url,
+      options = NEW.options,
+      correct_answer = NEW.correct_answer,
+      answer_hint = NEW.answer_hint,
+      image_prompt = NEW.image_prompt,
+      coding_language = NEW.coding_language,
+      starter_code = NEW.starter_code,
+      expected_output = NEW.expected_output,
+      test_cases = NEW.test_cases
+  WHERE q.bank_question_id = NEW.id
+    AND q.bank_linked
+    AND NOT EXISTS (SELECT 1 FROM public.test_sessions s WHERE s.test_id = q.test_id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS propagate_bank_question ON public.bank_questions;
+CREATE TRIGGER propagate_bank_question AFTER UPDATE ON public.bank_questions
+  FOR EACH ROW EXECUTE FUNCTION public.propagate_bank_question();
+
+-- Every test a bank question appears in, for usage statistics
+CREATE OR REPLACE VIEW public.bank_question_usage
+WITH (security_invoker = true) AS
+SELECT
+  q.bank_question_id,
+  q.bank_linked,
+  t.id AS test_id,
+  t.title,
+  t.subject,
+  t.start_time,
+  t.created_at
+FROM public.questions q
+JOIN public.tests t ON t.id = q.test_id
+WHERE q.bank_question_id IS NOT NULL;
+
+REVOKE ALL ON public.bank_question_usage FROM anon;
+GRANT SELECT ON public.bank_question_usage TO authenticated;
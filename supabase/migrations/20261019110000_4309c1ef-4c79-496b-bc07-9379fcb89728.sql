@@ -0,0 +1,97 @@
+-- A face enrollment is what every later identity check trusts, so students record it once;
+-- replacing or removing it is left to faculty, who reset it after looking at the photo
+DROP POLICY IF EXISTS "Students can manage own face enrollment" ON public.face_enrollments;
+
+DROP POLICY IF EXISTS "Students can view own face enrollment" ON public.face_enrollments;
+CREATE POLICY "Students can view own face enrollment" ON public.face_enrollments
+  FOR SELECT TO authenticated
+  USING (profile_id = auth.uid());
+
+-- The primary key keeps this to one row per student
+DROP POLICY IF EXISTS "Students can enroll own face once" ON public.face_enrollments;
+CREATE POLICY "Students can enroll own face once" ON public.face_enrollments
+  FOR INSERT TO authenticated
+  WITH CHECK (profile_id = auth.uid());
+
+DROP POLICY IF EXISTS "Faculty can update face enrollments" ON public.face_enrollments;
+CREATE POLICY "Faculty can update face enrollments" ON public.face_enrollments
+  FOR UPDATE TO authenticated
+  USING (public.has_role(auth.uid(), 'faculty'::public.app_role) OR public.has_role(auth.uid(), 'admin'::public.app_role))
+  WITH CHECK (public.has_role(auth.uid(), 'faculty'::public.app_role) OR public.has_role(auth.uid(), 'admin'::public.app_role));
+
+DROP POLICY IF EXISTS "Faculty can reset face enrollments" ON public.face_enrollments;
+CREATE POLICY "Faculty can reset face enrollments" ON public.face_enrollments
+  FOR DELETE TO authenticated
+  USING (public.has_role(auth.uid(), 'faculty'::public.app_role) OR public.has_role(auth.uid(), 'admin'::public.app_role));
+
+-- Reference photos are written once under a fresh name; a student who is already enrolled can't add more
+DROP POLICY IF EXISTS "Students can manage own reference photo" ON storage.objects;
+
+DROP POLICY IF EXISTS "Students can view own reference photo" ON storage.objects;
+CREATE POLICY "Students can view own reference photo" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'identity-references' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Students can upload own reference photo" ON storage.objects;
+CREATE POLICY "Students can upload own reference photo" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    bucket_id = 'identity-references'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+    AND NOT EXISTS (SELECT 1 FROM public.face_enrollments e WHERE e.profile_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Faculty can update reference photos" ON storage.objects;
+CREATE POLICY "Faculty can update reference photos" ON storage.objects
+  FOR UPDATE TO authenticated
+  USING (
+    bucket_id = 'identity-references'
+    AND (public.has_role(auth.uid(), 'faculty'::public.app_role) OR public.has_role(auth.uid(), 'admin'::public.app_role))
+  )
+  WITH CHECK (
+    bucket_id = 'identity-references'
+    AND (public.has_role(auth.uid(), 'faculty'::public.app_role) OR public.has_role(auth.uid(), 'admin'::public.app_role))
+  );
+
+DROP POLICY IF EXISTS "Faculty can delete reference photos" ON storage.objects;
+CREATE POLICY "Faculty can delete reference photos" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (
+    bucket_id = 'identity-references'
+    AND (public.has_role(auth.uid(), 'faculty'::public.app_role) OR public.has_role(auth.uid(), 'admin'::public.app_role))
+  );
+
+-- identity_unverified: a student started a test with no enrollment to compare against
+ALTER TABLE public.monitoring_logs DROP CONSTRAINT IF EXISTS monitoring_logs_event_type_check;
+ALTER TABLE public.monitoring_logs ADD CONSTRAINT monitoring_logs_event_type_check
+  CHECK (event_type = ANY (ARRAY[
+    'tab_switch'::text,
+    'window_blur'::text,
+    'fullscreen_exit'::text,
+    'face_not_detected'::text,
+    'multiple_faces'::text,
+    'face_away'::text,
+    'speech_detected'::text,
+    'prohibited_object'::text,
+    'identity_mismatch'::text,
+    'screen_share_stopped'::text,
+    'secondary_display'::text,
+    'devtools_opened'::text,
+    'phone_detected'::text,
+    'background_app_detected'::text,
+    'shortcut_blocked'::text,
+    'copy_blocked'::text,
+    'paste_blocked'::text,
+    'text_pasted'::text,
+    'print_blocked'::text,
+    'session_flagged'::text,
+    'session_paused'::text,
+    'question_viewed'::text,
+    'identity_verified'::text,
+    'identity_unverified'::text,
+    'screen_share_started'::text,
+    'screen_captured'::text,
+    'test_started'::text,
+    'test_submitted'::text,
+    'test_terminated'::text
+  ]));
@@ -0,0 +1,3 @@
+-- Enrollments made with the generic image embedder can't be compared with face
+-- recognition descriptors; clear them so those students enroll again
+DELETE FROM public.face_enrollments WHERE model <> 'dlib_resnet_128';
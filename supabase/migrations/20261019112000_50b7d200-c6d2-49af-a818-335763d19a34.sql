@@ -0,0 +1,73 @@
+-- Violation weights for tests saved before they had a proctoring policy, and for
+-- rules added since a policy was saved. Mirrors DEFAULT_RULES in
+-- src/proctoring/policy.ts; disabled rules are left out.
+CREATE OR REPLACE FUNCTION public.default_violation_weights() RETURNS jsonb
+    LANGUAGE sql IMMUTABLE
+    AS $$
+  SELECT '{
+    "tab_switch": 2,
+    "window_blur": 1,
+    "fullscreen_exit": 1,
+    "face_not_detected": 1,
+    "multiple_faces": 3,
+    "face_away": 1,
+    "prohibited_object": 3,
+    "identity_mismatch": 5,
+    "secondary_display": 3,
+    "devtools_opened": 3
+  }'::jsonb
+$$;
+
+-- The session counters and the weighted integrity score in total_warnings are
+-- derived from the log so they can never drift from it
+CREATE OR REPLACE FUNCTION public.count_session_violation() RETURNS trigger
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  _policy jsonb;
+  _rule jsonb;
+  _default integer;
+  _weight integer := 0;
+BEGIN
+  SELECT t.proctoring_policy INTO _policy
+  FROM test_sessions s
+  JOIN tests t ON t.id = s.test_id
+  WHERE s.id = NEW.session_id;
+
+  -- As in normalizePolicy on the client, whatever the policy doesn't say falls back to the
+  -- default, whether that is the whole rule or just one field of it
+  _rule := _policy -> 'rules' -> NEW.event_type;
+  _default := (public.default_violation_weights() ->> NEW.event_type)::integer;
+  IF coalesce((_rule ->> 'enabled')::boolean, _default IS NOT NULL) THEN
+    _weight := greatest(0, coalesce(round((_rule ->> 'weight')::numeric)::integer, _default, 1));
+  END IF;
+
+  IF _weight > 0 THEN
+    UPDATE test_sessions SET total_warnings = total_warnings + _weight WHERE id = NEW.session_id;
+  END IF;
+
+  IF NEW.event_type = 'tab_switch' THEN
+    UPDATE test_sessions SET tab_switch_count = tab_switch_count + 1 WHERE id = NEW.session_id;
+  ELSIF NEW.event_type = 'fullscreen_exit' THEN
+    UPDATE test_sessions SET fullscreen_exit_count = fullscreen_exit_count + 1 WHERE id = NEW.session_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Students can no longer write the counters or the score directly; faculty and the trigger above can
+CREATE OR REPLACE FUNCTION public.protect_session_counters() RETURNS trigger
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF current_user = 'authenticated'
+     AND NOT (has_role(auth.uid(), 'faculty'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    NEW.tab_switch_count := OLD.tab_switch_count;
+    NEW.fullscreen_exit_count := OLD.fullscreen_exit_count;
+    NEW.total_warnings := OLD.total_warnings;
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,30 @@
+-- Students can run their code against the test cases faculty mark as samples
+-- ("sample": true); the rest stay hidden along with expected_output
+CREATE OR REPLACE VIEW public.student_questions AS
+SELECT
+  q.id,
+  q.test_id,
+  q.question_text,
+  q.question_type,
+  q.options,
+  q.marks,
+  q.order_number,
+  q.question_image_url,
+  q.answer_hint,
+  q.image_prompt,
+  q.coding_language,
+  q.starter_code,
+  q.created_at,
+  (
+    SELECT jsonb_agg(tc ORDER BY ordinality)
+    FROM jsonb_array_elements(q.test_cases) WITH ORDINALITY AS cases(tc, ordinality)
+    WHERE tc -> 'sample' = 'true'::jsonb
+  ) AS sample_test_cases
+FROM public.questions q
+WHERE EXISTS (
+  SELECT 1
+  FROM public.test_sessions s
+  WHERE s.test_id = q.test_id
+    AND s.student_id = auth.uid()
+    AND s.status = 'in_progress'
+);
@@ -0,0 +1,43 @@
+-- Saving a test rewrites its questions, which re-inserts linked ones. Once students
+-- have started the test, keep the content being saved rather than taking the bank's
+-- current version, the same rule propagate_bank_question follows.
+CREATE OR REPLACE FUNCTION public.copy_linked_bank_question() RETURNS trigger
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  bank public.bank_questions%ROWTYPE;
+BEGIN
+  IF NEW.bank_question_id IS NULL THEN
+    NEW.bank_linked := false;
+    RETURN NEW;
+  END IF;
+  IF NOT NEW.bank_linked THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE'
+     AND NEW.bank_question_id IS NOT DISTINCT FROM OLD.bank_question_id
+     AND OLD.bank_linked THEN
+    RETURN NEW;
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.test_sessions s WHERE s.test_id = NEW.test_id) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO bank FROM public.bank_questions WHERE id = NEW.bank_question_id;
+  IF FOUND THEN
+    NEW.question_type := bank.question_type;
+    NEW.question_text := bank.question_text;
+    NEW.question_image_url := bank.question_image_url;
+    NEW.options := bank.options;
+    NEW.correct_answer := bank.correct_answer;
+    NEW.answer_hint := bank.answer_hint;
+    NEW.image_prompt := bank.image_prompt;
+    NEW.coding_language := bank.coding_language;
+    NEW.starter_code := bank.starter_code;
+    NEW.expected_output := bank.expected_output;
+    NEW.test_cases := bank.test_cases;
+  END IF;
+  RETURN NEW;
+END;
+$$;